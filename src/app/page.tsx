@@ -6,6 +6,13 @@ import { PromptEntry } from '@/components/PromptEntry'
 import { SettingsPage } from '@/components/SettingsPage'
 import { Last7DaysView } from '@/components/Last7DaysView'
 import { AllEntriesView } from '@/components/AllEntriesView'
+import { CalendarView } from '@/components/CalendarView'
+import { TrashView } from '@/components/TrashView'
+import { FearsVsRealityView } from '@/components/FearsVsRealityView'
+import { ActionsView } from '@/components/ActionsView'
+import { ReviewView } from '@/components/ReviewView'
+import { InsightsView } from '@/components/InsightsView'
+import { PromptHistoryView } from '@/components/PromptHistoryView'
 import { TabDetection } from '@/components/TabDetection'
 import { AppGuard } from '@/components/AppGuard'
 import { useAppStore } from '@/lib/store'
@@ -28,6 +35,20 @@ export default function Home() {
         return <Last7DaysView />
       case 'all':
         return <AllEntriesView />
+      case 'calendar':
+        return <CalendarView />
+      case 'trash':
+        return <TrashView />
+      case 'outcomes':
+        return <FearsVsRealityView />
+      case 'actions':
+        return <ActionsView />
+      case 'review':
+        return <ReviewView />
+      case 'insights':
+        return <InsightsView />
+      case 'promptHistory':
+        return <PromptHistoryView />
       case 'today':
       default:
         return <TodayCard />
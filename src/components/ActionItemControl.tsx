@@ -0,0 +1,75 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { ListChecks } from 'lucide-react'
+import { useAppStore } from '@/lib/store'
+import { dbUtils, ActionItem, Entry } from '@/lib/database'
+import { ACTION_STATUSES, getDefaultDueDate, isOverdue } from '@/lib/actions'
+import { useToast } from '@/components/ui/toast'
+
+const formatDueDate = (dateLocal: string) =>
+  new Date(dateLocal + 'T00:00:00').toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+
+// Shows whether an entry's protective step is tracked as an action item,
+// with a button to start tracking it
+export function ActionItemControl({ entry }: { entry: Entry }) {
+  const { setCurrentView } = useAppStore()
+  const { addToast } = useToast()
+  const [item, setItem] = useState<ActionItem | null | undefined>(undefined)
+
+  useEffect(() => {
+    dbUtils.getActionItemForEntry(entry.id)
+      .then(found => setItem(found || null))
+      .catch(error => console.warn('Failed to load action item:', error))
+  }, [entry.id])
+
+  if (item === undefined || !entry.protective_step.trim()) return null
+
+  const handleTrack = async () => {
+    try {
+      setItem(await dbUtils.createActionItem(entry.id, getDefaultDueDate(dbUtils.getTodayLocal())))
+      addToast({
+        type: 'success',
+        title: 'Action Item Added',
+        description: 'Set its due date and reminders in Actions.'
+      })
+    } catch (error) {
+      console.error('Failed to create action item:', error)
+      addToast({
+        type: 'error',
+        title: 'Save Failed',
+        description: 'Unable to track this step. Please try again.'
+      })
+    }
+  }
+
+  if (!item) {
+    return (
+      <Button variant="ghost" size="sm" onClick={handleTrack} className="text-muted-foreground -ml-2">
+        <ListChecks className="w-4 h-4 mr-2" />
+        Track as action
+      </Button>
+    )
+  }
+
+  const overdue = isOverdue(item, dbUtils.getTodayLocal())
+
+  return (
+    <button
+      type="button"
+      onClick={() => setCurrentView('actions')}
+      className="flex items-center gap-2 text-xs text-muted-foreground hover:text-foreground"
+      aria-label="Open in Actions"
+    >
+      <ListChecks className="w-3 h-3" />
+      <Badge variant={overdue ? 'destructive' : 'secondary'} className="text-xs">
+        {ACTION_STATUSES.find(s => s.value === item.status)?.label}
+      </Badge>
+      {item.due_date && (
+        <span>{overdue ? 'Overdue since' : 'Due'} {formatDueDate(item.due_date)}</span>
+      )}
+    </button>
+  )
+}
@@ -0,0 +1,54 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { ListChecks } from 'lucide-react'
+import { useAppStore } from '@/lib/store'
+import { dbUtils } from '@/lib/database'
+import { ActionStats, computeActionStats, syncActionReminders } from '@/lib/actions'
+
+// Open action items at a glance. Loading them here also reschedules the
+// day's reminders on each visit.
+export function ActionsSummaryCard() {
+  const { settings, setCurrentView } = useAppStore()
+  const [stats, setStats] = useState<ActionStats | null>(null)
+
+  useEffect(() => {
+    const today = dbUtils.getTodayLocal()
+    dbUtils.getActionItems()
+      .then(actions => {
+        setStats(computeActionStats(actions.map(a => a.item), today))
+        syncActionReminders(actions, settings, today)
+      })
+      .catch(error => console.warn('Failed to load action items:', error))
+  }, [settings])
+
+  if (!stats || stats.open === 0) return null
+
+  const summary = [
+    stats.overdue > 0 && `${stats.overdue} overdue`,
+    stats.dueToday > 0 && `${stats.dueToday} due today`,
+  ].filter(Boolean).join(', ')
+
+  return (
+    <Card>
+      <CardContent className="p-4 flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <ListChecks className="w-5 h-5 text-primary" />
+          <div>
+            <p className="text-sm font-medium">
+              {stats.open} open action {stats.open === 1 ? 'item' : 'items'}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {summary || `${stats.completionRate}% of your tracked steps are done`}
+            </p>
+          </div>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => setCurrentView('actions')}>
+          View Actions
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
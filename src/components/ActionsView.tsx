@@ -0,0 +1,248 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { ArrowLeft, Bell, BellOff, ListChecks, X } from 'lucide-react'
+import { useAppStore } from '@/lib/store'
+import { dbUtils, ActionItem, ActionStatus, Entry } from '@/lib/database'
+import { ACTION_STATUSES, computeActionStats, isOpenAction, isOverdue, syncActionReminders } from '@/lib/actions'
+import { getNotificationPermission, isNotificationSupported } from '@/lib/notifications'
+import { useToast } from '@/components/ui/toast'
+
+type ActionFilter = 'open' | ActionStatus
+
+const FILTERS: { value: ActionFilter; label: string }[] = [
+  { value: 'open', label: 'Open' },
+  ...ACTION_STATUSES,
+]
+
+// Open items first, overdue and soonest due at the top
+const compareActions = (a: ActionItem, b: ActionItem) => {
+  if (isOpenAction(a) !== isOpenAction(b)) return isOpenAction(a) ? -1 : 1
+  if (a.due_date && b.due_date) return a.due_date.localeCompare(b.due_date)
+  if (a.due_date || b.due_date) return a.due_date ? -1 : 1
+  return b.created_at.localeCompare(a.created_at)
+}
+
+export function ActionsView() {
+  const { settings, setCurrentView } = useAppStore()
+  const { addToast } = useToast()
+  const [actions, setActions] = useState<{ item: ActionItem; entry: Entry }[]>([])
+  const [filter, setFilter] = useState<ActionFilter>('open')
+  const [isLoading, setIsLoading] = useState(true)
+
+  const today = dbUtils.getTodayLocal()
+
+  useEffect(() => {
+    dbUtils.getActionItems()
+      .then(setActions)
+      .catch(error => {
+        console.error('Failed to load action items:', error)
+        addToast({
+          type: 'error',
+          title: 'Failed to load actions',
+          description: 'There was an error loading your action items.'
+        })
+      })
+      .finally(() => setIsLoading(false))
+  }, [addToast])
+
+  const updateActions = (next: { item: ActionItem; entry: Entry }[]) => {
+    setActions(next)
+    syncActionReminders(next, settings, today)
+  }
+
+  const handleUpdate = async (id: string, changes: Partial<Pick<ActionItem, 'status' | 'due_date' | 'remind'>>) => {
+    try {
+      const updated = await dbUtils.updateActionItem(id, changes)
+      if (updated) updateActions(actions.map(a => a.item.id === id ? { ...a, item: updated } : a))
+    } catch (error) {
+      console.error('Failed to update action item:', error)
+      addToast({
+        type: 'error',
+        title: 'Save Failed',
+        description: 'Unable to update this action item. Please try again.'
+      })
+    }
+  }
+
+  const handleRemove = async (id: string) => {
+    if (!window.confirm('Stop tracking this step? The entry itself is not changed.')) return
+
+    try {
+      await dbUtils.deleteActionItem(id)
+      updateActions(actions.filter(a => a.item.id !== id))
+    } catch (error) {
+      console.error('Failed to remove action item:', error)
+      addToast({
+        type: 'error',
+        title: 'Remove Failed',
+        description: 'Unable to remove this action item. Please try again.'
+      })
+    }
+  }
+
+  const stats = computeActionStats(actions.map(a => a.item), today)
+  const visible = actions
+    .filter(({ item }) => filter === 'open' ? isOpenAction(item) : item.status === filter)
+    .sort((a, b) => compareActions(a.item, b.item))
+  const canNotify = isNotificationSupported() && getNotificationPermission() === 'granted'
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="flex items-center gap-3 p-4 border-b">
+        <Button variant="ghost" size="sm" onClick={() => setCurrentView('today')} aria-label="Back to today">
+          <ArrowLeft className="w-4 h-4" />
+        </Button>
+        <div>
+          <h1 className="text-xl font-semibold">Actions</h1>
+          <p className="text-sm text-muted-foreground">
+            Protective steps you are following through on
+          </p>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 py-6 space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center min-h-[300px]">
+            <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : actions.length === 0 ? (
+          <Card>
+            <CardContent className="p-12 text-center">
+              <ListChecks className="w-16 h-16 mx-auto mb-4 text-muted-foreground/50" />
+              <h3 className="text-lg font-medium mb-2">No action items yet</h3>
+              <p className="text-muted-foreground">
+                Choose &quot;Track as action&quot; under an entry&apos;s protective step to follow up on it here.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Progress</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-4 gap-4 text-center">
+                  <div>
+                    <div className="text-2xl font-bold text-primary">{stats.open}</div>
+                    <div className="text-xs text-muted-foreground">Open</div>
+                  </div>
+                  <div>
+                    <div className="text-2xl font-bold text-primary">{stats.done}</div>
+                    <div className="text-xs text-muted-foreground">Done</div>
+                  </div>
+                  <div>
+                    <div className="text-2xl font-bold text-primary">{stats.completionRate}%</div>
+                    <div className="text-xs text-muted-foreground">Completed</div>
+                  </div>
+                  <div>
+                    <div className={`text-2xl font-bold ${stats.overdue > 0 ? 'text-destructive' : 'text-primary'}`}>{stats.overdue}</div>
+                    <div className="text-xs text-muted-foreground">Overdue</div>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <div className="flex flex-wrap gap-2" role="group" aria-label="Filter by status">
+              {FILTERS.map(option => (
+                <Button
+                  key={option.value}
+                  variant={filter === option.value ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setFilter(option.value)}
+                  aria-pressed={filter === option.value}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+
+            {visible.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No action items with this status.</p>
+            ) : (
+              <div className="space-y-4">
+                {visible.map(({ item, entry }) => (
+                  <Card key={item.id} className={isOverdue(item, today) ? 'border-destructive/40' : ''}>
+                    <CardContent className="p-4 space-y-3">
+                      <div className="flex items-start justify-between gap-3">
+                        <div>
+                          <p className="text-sm leading-relaxed">{entry.protective_step}</p>
+                          <p className="text-xs text-muted-foreground mt-1">
+                            From your entry on {new Date(entry.dateLocal + 'T00:00:00').toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                          </p>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRemove(item.id)}
+                          className="p-2"
+                          aria-label="Stop tracking this action"
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </div>
+
+                      <div className="flex flex-wrap gap-2" role="group" aria-label="Status">
+                        {ACTION_STATUSES.map(status => (
+                          <Button
+                            key={status.value}
+                            variant={item.status === status.value ? 'default' : 'outline'}
+                            size="sm"
+                            onClick={() => handleUpdate(item.id, { status: status.value })}
+                            aria-pressed={item.status === status.value}
+                          >
+                            {status.label}
+                          </Button>
+                        ))}
+                      </div>
+
+                      <div className="flex flex-wrap items-center gap-3">
+                        <label htmlFor={`due-${item.id}`} className="text-xs text-muted-foreground">Due</label>
+                        <Input
+                          id={`due-${item.id}`}
+                          type="date"
+                          value={item.due_date || ''}
+                          onChange={(e) => handleUpdate(item.id, { due_date: e.target.value || undefined })}
+                          className="w-auto h-8 text-sm"
+                        />
+                        {isOverdue(item, today) && (
+                          <span className="text-xs text-destructive">Overdue</span>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleUpdate(item.id, { remind: !item.remind })}
+                          disabled={!item.due_date}
+                          aria-pressed={item.remind}
+                          className="ml-auto text-muted-foreground"
+                        >
+                          {item.remind ? <Bell className="w-4 h-4 mr-2" /> : <BellOff className="w-4 h-4 mr-2" />}
+                          {item.remind ? 'Reminder on' : 'Remind me'}
+                        </Button>
+                      </div>
+
+                      {item.remind && !canNotify && (
+                        <p className="text-xs text-muted-foreground">
+                          Turn on notifications in Settings to get this reminder.
+                        </p>
+                      )}
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+
+        <Button variant="outline" onClick={() => setCurrentView('today')} className="w-full">
+          Back to Today
+        </Button>
+      </div>
+    </div>
+  )
+}
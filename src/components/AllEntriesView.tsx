@@ -3,42 +3,68 @@
 import { useState, useEffect } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import { ArrowLeft, Calendar, Edit2, Trash2, Clock, ChevronLeft, ChevronRight } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { ArrowLeft, Calendar, Edit2, History, Trash2, Clock, ChevronLeft, ChevronRight, Search, X, Loader2, SlidersHorizontal } from 'lucide-react'
 import { useAppStore } from '@/lib/store'
-import { dbUtils, db, Entry } from '@/lib/database'
+import { Badge } from '@/components/ui/badge'
+import { dbUtils, db, Entry, Prompt, PromptCategory, SearchResult } from '@/lib/database'
+import { CATEGORY_LABELS } from '@/lib/prompts'
+import { snippet, HighlightSegment } from '@/lib/search'
+import { EntryFilters, clearEntryFilters, countActiveFilters, groupEntriesByDay, matchesEntryFilters } from '@/lib/entry-filters'
+import { formatDuration } from '@/lib/writing-time'
+import { EntryFilterPanel } from '@/components/EntryFilterPanel'
+import { getEditLockReason, getEditPolicy } from '@/lib/edit-policy'
+import { EntryHistoryModal } from '@/components/EntryHistoryModal'
+import { EntryAddenda } from '@/components/EntryAddenda'
+import { ActionItemControl } from '@/components/ActionItemControl'
 import { useToast } from '@/components/ui/toast'
 
 const PAGE_SIZE = 20
+const SEARCH_DEBOUNCE_MS = 250
 
 export function AllEntriesView() {
-  const { setCurrentView } = useAppStore()
+  const {
+    settings, setCurrentView, openJournal, openPromptHistory, setStreak,
+    entryFilters: savedFilters, setEntryFilters, linkedEntryFilters, setLinkedEntryFilters
+  } = useAppStore()
+  // Filters opened from another screen stand in for the saved ones
+  const entryFilters = linkedEntryFilters ?? savedFilters
   const { addToast } = useToast()
   const [entries, setEntries] = useState<Entry[]>([])
   const [isLoading, setIsLoading] = useState(true)
+  const [historyEntry, setHistoryEntry] = useState<Entry | null>(null)
   const [currentPage, setCurrentPage] = useState(1)
   const [totalEntries, setTotalEntries] = useState(0)
   const [totalPages, setTotalPages] = useState(0)
+  const [prompts, setPrompts] = useState<Prompt[]>([])
+  const [showFilters, setShowFilters] = useState(false)
+  const [searchQuery, setSearchQuery] = useState('')
+  const [searchResults, setSearchResults] = useState<SearchResult[]>([])
+  const [searchWords, setSearchWords] = useState<string[]>([])
+  const [isSearching, setIsSearching] = useState(false)
+
+  useEffect(() => {
+    db.prompts.toArray()
+      .then(setPrompts)
+      .catch(error => console.warn('Failed to load prompts:', error))
+  }, [])
+
+  const promptCategories: Record<string, PromptCategory | undefined> =
+    Object.fromEntries(prompts.map(p => [p.id, p.category]))
+  const promptTexts: Record<string, string> = Object.fromEntries(prompts.map(p => [p.id, p.text]))
+  const activeFilterCount = countActiveFilters(entryFilters)
 
   useEffect(() => {
     const loadEntries = async () => {
       try {
         setIsLoading(true)
         
-        // Get total count
-        const total = await db.entries.count()
-        setTotalEntries(total)
-        setTotalPages(Math.ceil(total / PAGE_SIZE))
-        
-        // Get entries for current page
+        // Get entries for current page and the total count
         const offset = (currentPage - 1) * PAGE_SIZE
-        const pageEntries = await db.entries
-          .orderBy('created_at')
-          .reverse()
-          .offset(offset)
-          .limit(PAGE_SIZE)
-          .toArray()
-        
-        setEntries(pageEntries)
+        const page = await dbUtils.getEntriesPage(offset, PAGE_SIZE, entryFilters)
+        setTotalEntries(page.total)
+        setTotalPages(Math.ceil(page.total / PAGE_SIZE))
+        setEntries(page.entries)
       } catch (error) {
         console.error('Failed to load entries:', error)
         addToast({
@@ -52,7 +78,58 @@ export function AllEntriesView() {
     }
 
     loadEntries()
-  }, [currentPage, addToast])
+  }, [currentPage, entryFilters, addToast])
+
+  useEffect(() => {
+    const query = searchQuery.trim()
+    if (!query) {
+      setSearchResults([])
+      setSearchWords([])
+      setIsSearching(false)
+      return
+    }
+
+    let cancelled = false
+    setIsSearching(true)
+    const timer = setTimeout(async () => {
+      try {
+        const { results, queryWords } = await dbUtils.searchEntries(query)
+        if (cancelled) return
+        setSearchResults(results)
+        setSearchWords(queryWords)
+      } catch (error) {
+        console.error('Search failed:', error)
+        if (!cancelled) {
+          addToast({
+            type: 'error',
+            title: 'Search failed',
+            description: 'There was an error searching your entries.'
+          })
+        }
+      } finally {
+        if (!cancelled) setIsSearching(false)
+      }
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [searchQuery, addToast])
+
+  const handleFiltersChange = (filters: EntryFilters) => {
+    if (linkedEntryFilters) {
+      setLinkedEntryFilters(filters)
+    } else {
+      setEntryFilters(filters)
+    }
+    setCurrentPage(1)
+  }
+
+  const handleUseSavedFilters = () => {
+    setLinkedEntryFilters(null)
+    setCurrentPage(1)
+  }
 
   const formatDate = (dateLocal: string) => {
     try {
@@ -80,31 +157,29 @@ export function AllEntriesView() {
     }
   }
 
-  const canEdit = (entry: Entry) => dbUtils.canEditEntry(entry)
+  const formatTime = (createdAt: string) =>
+    new Date(createdAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })
+
+  const canEdit = (entry: Entry) => dbUtils.canEditEntry(entry, settings)
 
   const handleEdit = (entry: Entry) => {
     if (!canEdit(entry)) {
-      const createdAt = new Date(entry.created_at)
-      const hoursAgo = Math.floor((Date.now() - createdAt.getTime()) / (1000 * 60 * 60))
       addToast({
         type: 'error',
         title: 'Cannot edit entry',
-        description: `Entries can only be edited within 24 hours. This entry was created ${hoursAgo} hours ago.`
+        description: getEditLockReason(getEditPolicy(settings))
       })
       return
     }
     
     // Navigate to journal view with entry to edit
-    setCurrentView('journal')
+    openJournal(entry.id)
   }
 
+  // Deleting moves the entry to the trash, where it can be restored later
   const handleDelete = async (entry: Entry) => {
-    if (!confirm('Are you sure you want to delete this entry? This action cannot be undone.')) {
-      return
-    }
-
     try {
-      await db.entries.delete(entry.id)
+      setStreak(await dbUtils.trashEntry(entry.id))
       
       // Recalculate pagination after deletion
       const newTotal = totalEntries - 1
@@ -124,14 +199,14 @@ export function AllEntriesView() {
       // Show undo toast
       const undoToast = addToast({
         type: 'success',
-        title: 'Entry deleted',
-        description: 'Click to undo within 5 seconds',
+        title: 'Moved to Trash',
+        description: 'You can restore it from the Trash.',
         duration: 5000,
         action: {
           label: 'Undo',
           onClick: async () => {
             try {
-              await db.entries.put(entry)
+              setStreak(await dbUtils.restoreEntry(entry.id))
               
               // Recalculate after restore
               setTotalEntries(newTotal + 1)
@@ -139,14 +214,8 @@ export function AllEntriesView() {
               
               // Refresh the current page
               const offset = (currentPage - 1) * PAGE_SIZE
-              const pageEntries = await db.entries
-                .orderBy('created_at')
-                .reverse()
-                .offset(offset)
-                .limit(PAGE_SIZE)
-                .toArray()
-              
-              setEntries(pageEntries)
+              const page = await dbUtils.getEntriesPage(offset, PAGE_SIZE, entryFilters)
+              setEntries(page.entries)
               
               addToast({
                 type: 'info',
@@ -173,6 +242,24 @@ export function AllEntriesView() {
     }
   }
 
+  const renderSegments = (segments: HighlightSegment[]) =>
+    segments.map((segment, i) =>
+      segment.match ? (
+        <mark key={i} className="bg-primary/20 text-foreground rounded-sm px-0.5">{segment.text}</mark>
+      ) : (
+        <span key={i}>{segment.text}</span>
+      )
+    )
+
+  const isSearchActive = searchQuery.trim().length > 0
+  // Search results keep their ranking; the filters only narrow them down
+  const categoryPromptIds = new Set(
+    prompts.filter(p => p.category === entryFilters.category).map(p => p.id)
+  )
+  const visibleResults = searchResults.filter(result =>
+    matchesEntryFilters(result.entry, entryFilters, categoryPromptIds)
+  )
+
   const getExcerpt = (text: string, maxLength: number = 100) => {
     if (text.length <= maxLength) return text
     return text.substring(0, maxLength).trim() + '...'
@@ -244,7 +331,7 @@ export function AllEntriesView() {
           <div>
             <h1 className="text-xl font-semibold">All Entries</h1>
             <p className="text-sm text-muted-foreground">
-              {totalEntries} total entries
+              {totalEntries} {activeFilterCount > 0 ? 'matching' : 'total'} entries
               {totalPages > 1 && ` • Page ${currentPage} of ${totalPages}`}
             </p>
           </div>
@@ -252,7 +339,124 @@ export function AllEntriesView() {
       </div>
 
       <div className="container mx-auto px-4 py-6">
-        {totalEntries === 0 ? (
+        {/* Search */}
+        <div className="relative mb-4">
+          <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="Search your entries..."
+            aria-label="Search entries"
+            className="pl-9 pr-9"
+          />
+          {searchQuery && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setSearchQuery('')}
+              className="absolute right-1 top-1/2 -translate-y-1/2 p-2 h-auto"
+              aria-label="Clear search"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+
+        {/* Filters */}
+        <div className="mb-6 space-y-3">
+          <Button
+            variant={activeFilterCount > 0 ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setShowFilters(!showFilters)}
+            aria-expanded={showFilters}
+          >
+            <SlidersHorizontal className="w-4 h-4 mr-2" />
+            Filters{activeFilterCount > 0 && ` (${activeFilterCount})`}
+          </Button>
+          {linkedEntryFilters && (
+            <div className="flex items-center justify-between gap-3 p-3 bg-muted/50 rounded-lg">
+              <p className="text-xs text-muted-foreground">
+                Showing a temporary view. Your saved filters are unchanged.
+              </p>
+              <Button variant="ghost" size="sm" onClick={handleUseSavedFilters}>
+                Use Saved Filters
+              </Button>
+            </div>
+          )}
+          {showFilters && (
+            <EntryFilterPanel filters={entryFilters} prompts={prompts} onChange={handleFiltersChange} />
+          )}
+        </div>
+
+        {isSearchActive ? (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground flex items-center gap-2">
+              {isSearching ? (
+                <>
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Searching...
+                </>
+              ) : (
+                `${visibleResults.length} matching ${visibleResults.length === 1 ? 'entry' : 'entries'}`
+              )}
+            </p>
+
+            {!isSearching && visibleResults.length === 0 && (
+              <Card>
+                <CardContent className="p-12 text-center">
+                  <Search className="w-16 h-16 mx-auto mb-4 text-muted-foreground/50" />
+                  <h3 className="text-lg font-medium mb-2">No matches</h3>
+                  <p className="text-muted-foreground">
+                    {searchWords.length === 0
+                      ? 'Try searching for a longer word.'
+                      : 'No entries contain all of those words. Try fewer or shorter words.'}
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+
+            {visibleResults.map(({ entry, promptText }) => (
+              <Card key={entry.id} className="transition-shadow hover:shadow-md">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-base">{formatDate(entry.dateLocal)}</CardTitle>
+                  <CardDescription className="text-xs">{getTimeAgo(entry.created_at)}</CardDescription>
+                  {promptText && (
+                    <p className="text-xs text-muted-foreground italic mt-1">
+                      {renderSegments(snippet(promptText, searchWords))}
+                    </p>
+                  )}
+                </CardHeader>
+                <CardContent className="pt-0 space-y-3">
+                  {[
+                    { label: 'Setback Visualization', text: entry.setback },
+                    { label: 'Protective Step', text: entry.protective_step },
+                    { label: 'Gratitude', text: entry.gratitude }
+                  ].filter(field => field.text).map(field => (
+                    <div key={field.label}>
+                      <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">
+                        {field.label}
+                      </h4>
+                      <p className="text-sm leading-relaxed">{renderSegments(snippet(field.text, searchWords))}</p>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : totalEntries === 0 && activeFilterCount > 0 ? (
+          <Card>
+            <CardContent className="p-12 text-center">
+              <Calendar className="w-16 h-16 mx-auto mb-4 text-muted-foreground/50" />
+              <h3 className="text-lg font-medium mb-2">No matching entries</h3>
+              <p className="text-muted-foreground mb-6">
+                None of your entries match these filters.
+              </p>
+              <Button variant="outline" onClick={() => handleFiltersChange(clearEntryFilters(entryFilters))}>
+                Clear Filters
+              </Button>
+            </CardContent>
+          </Card>
+        ) : totalEntries === 0 ? (
           <Card>
             <CardContent className="p-12 text-center">
               <Calendar className="w-16 h-16 mx-auto mb-4 text-muted-foreground/50" />
@@ -260,7 +464,7 @@ export function AllEntriesView() {
               <p className="text-muted-foreground mb-6">
                 Start your negative visualization journey by creating your first entry.
               </p>
-              <Button onClick={() => setCurrentView('journal')}>
+              <Button onClick={() => openJournal()}>
                 <Calendar className="w-4 h-4 mr-2" />
                 Start Your First Entry
               </Button>
@@ -300,79 +504,122 @@ export function AllEntriesView() {
             )}
 
             {/* Entries List */}
-            <div className="space-y-4">
-              {entries.map((entry) => (
-                <Card key={entry.id} className="transition-shadow hover:shadow-md">
-                  <CardHeader className="pb-3">
-                    <div className="flex items-start justify-between">
-                      <div>
-                        <CardTitle className="text-base">{formatDate(entry.dateLocal)}</CardTitle>
-                        <CardDescription className="text-xs">
-                          {getTimeAgo(entry.created_at)}
-                          {entry.edited_at && entry.edited_at !== entry.created_at && (
-                            <span className="ml-2 text-muted-foreground">• Edited</span>
-                          )}
-                        </CardDescription>
-                      </div>
-                      <div className="flex items-center gap-2">
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleEdit(entry)}
-                          disabled={!canEdit(entry)}
-                          className="p-2"
-                          aria-label={canEdit(entry) ? 'Edit entry' : 'Cannot edit (>24h old)'}
-                        >
-                          <Edit2 className={`w-4 h-4 ${canEdit(entry) ? '' : 'text-muted-foreground/50'}`} />
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleDelete(entry)}
-                          className="p-2 text-destructive hover:text-destructive"
-                          aria-label="Delete entry"
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </Button>
-                      </div>
-                    </div>
-                  </CardHeader>
-                  <CardContent className="pt-0">
-                    <div className="space-y-3">
-                      {entry.setback && (
-                        <div>
-                          <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">
-                            Setback Visualization
-                          </h4>
-                          <p className="text-sm leading-relaxed">{getExcerpt(entry.setback, 150)}</p>
-                        </div>
-                      )}
-                      {entry.protective_step && (
-                        <div>
-                          <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">
-                            Protective Step
-                          </h4>
-                          <p className="text-sm leading-relaxed">{getExcerpt(entry.protective_step, 150)}</p>
+            <div className="space-y-8">
+              {groupEntriesByDay(entries).map((group, groupIndex) => (
+                <section key={`${group.dateLocal}-${groupIndex}`} className="space-y-4">
+                  <h2 className="text-sm font-medium text-muted-foreground">
+                    {formatDate(group.dateLocal)}
+                    {group.entries.length > 1 && ` • ${group.entries.length} entries`}
+                  </h2>
+                  {group.entries.map((entry) => (
+                    <Card key={entry.id} className="transition-shadow hover:shadow-md">
+                      <CardHeader className="pb-3">
+                        <div className="flex items-start justify-between">
+                          <div>
+                            <CardTitle className="text-base">{formatTime(entry.created_at)}</CardTitle>
+                            <CardDescription className="text-xs">
+                              {getTimeAgo(entry.created_at)}
+                              {entry.edited_at && entry.edited_at !== entry.created_at && (
+                                <span className="ml-2 text-muted-foreground">• Edited</span>
+                              )}
+                              {typeof entry.duration_seconds === 'number' && entry.duration_seconds > 0 && (
+                                <span className="ml-2 text-muted-foreground">• {formatDuration(entry.duration_seconds)} writing</span>
+                              )}
+                            </CardDescription>
+                            {promptTexts[entry.prompt_id] && (
+                              <button
+                                type="button"
+                                onClick={() => openPromptHistory(entry.prompt_id)}
+                                className="block text-left text-xs text-muted-foreground italic mt-1 hover:text-foreground hover:underline"
+                                title="See all your answers to this prompt"
+                              >
+                                {promptTexts[entry.prompt_id]}
+                              </button>
+                            )}
+                            {promptCategories[entry.prompt_id] && (
+                              <Badge variant="secondary" className="mt-2 text-xs">
+                                {CATEGORY_LABELS[promptCategories[entry.prompt_id] as PromptCategory]}
+                              </Badge>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-2">
+                            {entry.edited_at && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setHistoryEntry(entry)}
+                                className="p-2"
+                                aria-label="View edit history"
+                              >
+                                <History className="w-4 h-4" />
+                              </Button>
+                            )}
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleEdit(entry)}
+                              disabled={!canEdit(entry)}
+                              className="p-2"
+                              aria-label={canEdit(entry) ? 'Edit entry' : 'Editing is locked for this entry'}
+                            >
+                              <Edit2 className={`w-4 h-4 ${canEdit(entry) ? '' : 'text-muted-foreground/50'}`} />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDelete(entry)}
+                              className="p-2 text-destructive hover:text-destructive"
+                              aria-label="Delete entry"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
                         </div>
-                      )}
-                      {entry.gratitude && (
-                        <div>
-                          <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">
-                            Gratitude
-                          </h4>
-                          <p className="text-sm leading-relaxed">{getExcerpt(entry.gratitude, 150)}</p>
+                      </CardHeader>
+                      <CardContent className="pt-0">
+                        <div className="space-y-3">
+                          {entry.setback && (
+                            <div>
+                              <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">
+                                Setback Visualization
+                              </h4>
+                              <p className="text-sm leading-relaxed">{getExcerpt(entry.setback, 150)}</p>
+                            </div>
+                          )}
+                          {entry.protective_step && (
+                            <div>
+                              <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">
+                                Protective Step
+                              </h4>
+                              <p className="text-sm leading-relaxed">{getExcerpt(entry.protective_step, 150)}</p>
+                              <ActionItemControl entry={entry} />
+                            </div>
+                          )}
+                          {entry.gratitude && (
+                            <div>
+                              <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">
+                                Gratitude
+                              </h4>
+                              <p className="text-sm leading-relaxed">{getExcerpt(entry.gratitude, 150)}</p>
+                            </div>
+                          )}
                         </div>
-                      )}
-                    </div>
-                    
-                    {!canEdit(entry) && (
-                      <div className="flex items-center gap-2 mt-4 text-xs text-muted-foreground">
-                        <Clock className="w-3 h-3" />
-                        <span>Editing disabled (entry is more than 24 hours old)</span>
-                      </div>
-                    )}
-                  </CardContent>
-                </Card>
+                        
+                        <EntryAddenda
+                          entry={entry}
+                          onAdded={(updated) => setEntries(prev => prev.map(e => e.id === updated.id ? updated : e))}
+                        />
+
+                        {!canEdit(entry) && (
+                          <div className="flex items-center gap-2 mt-4 text-xs text-muted-foreground">
+                            <Clock className="w-3 h-3" />
+                            <span>{getEditLockReason(getEditPolicy(settings))}</span>
+                          </div>
+                        )}
+                      </CardContent>
+                    </Card>
+                  ))}
+                </section>
               ))}
             </div>
 
@@ -459,8 +706,21 @@ export function AllEntriesView() {
           <Button variant="outline" onClick={() => setCurrentView('last7days')} className="flex-1">
             Last 7 Days
           </Button>
+          <Button variant="outline" onClick={() => setCurrentView('trash')} className="flex-1">
+            <Trash2 className="w-4 h-4 mr-2" />
+            Trash
+          </Button>
         </div>
       </div>
+
+      <EntryHistoryModal
+        entry={historyEntry}
+        onClose={() => setHistoryEntry(null)}
+        onRestored={(restored) => {
+          setEntries(prev => prev.map(e => e.id === restored.id ? restored : e))
+          setHistoryEntry(restored)
+        }}
+      />
     </div>
   )
 }
\ No newline at end of file
@@ -5,6 +5,10 @@ import { usePinContext } from '@/lib/pin-context'
 import { LockScreen } from '@/components/pin/LockScreen'
 import { useAppStore } from '@/lib/store'
 import { db } from '@/lib/database'
+import { migrationUtils, MigrationFailure } from '@/lib/migrations'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { AlertTriangle, Download, RefreshCw } from 'lucide-react'
 
 interface AppGuardProps {
   children: React.ReactNode
@@ -14,10 +18,23 @@ export function AppGuard({ children }: AppGuardProps) {
   const { isLocked, isPinEnabled, isInitialized } = usePinContext()
   const { isFirstLaunch, setSettings, setFirstLaunch } = useAppStore()
   const [isLoading, setIsLoading] = useState(true)
+  const [migrationFailure, setMigrationFailure] = useState<MigrationFailure | null>(null)
 
   useEffect(() => {
     const initializeApp = async () => {
       try {
+        // Open the database first so pending schema upgrades run here
+        try {
+          await db.open()
+        } catch (error) {
+          const failure = migrationUtils.getLastFailure()
+          if (failure) {
+            setMigrationFailure(failure)
+            return
+          }
+          throw error
+        }
+
         // Check if we have existing settings
         const existingSettings = await db.settings.get('main')
         
@@ -42,6 +59,65 @@ export function AppGuard({ children }: AppGuardProps) {
     }
   }, [isInitialized, setSettings, setFirstLaunch])
 
+  const handleDownloadSnapshot = async () => {
+    try {
+      const snapshot = await migrationUtils.getLatestSnapshot()
+      if (!snapshot) return
+
+      const blob = new Blob([JSON.stringify(snapshot, null, 2)], { type: 'application/json' })
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `negative-journal-snapshot-${snapshot.createdAt.split('T')[0]}.json`
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error('Failed to download snapshot:', error)
+    }
+  }
+
+  if (migrationFailure) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <div className="mx-auto mb-4 w-12 h-12 bg-destructive/10 rounded-full flex items-center justify-center">
+              <AlertTriangle className="w-6 h-6 text-destructive" />
+            </div>
+            <CardTitle>Update Couldn&apos;t Finish</CardTitle>
+            <CardDescription>
+              Your journal&apos;s storage could not be upgraded to the latest version.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="bg-muted/50 p-3 rounded-lg">
+              <p className="text-xs text-muted-foreground">
+                {migrationFailure.restored
+                  ? 'Your data has been kept exactly as it was before the update. Nothing was lost.'
+                  : 'A copy of your data was saved before the update. Download it before trying again.'}
+              </p>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Error: {migrationFailure.message}
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1" onClick={handleDownloadSnapshot}>
+                <Download className="w-4 h-4 mr-2" />
+                Download Snapshot
+              </Button>
+              <Button className="flex-1" onClick={() => window.location.reload()}>
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Try Again
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
   if (!isInitialized || isLoading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
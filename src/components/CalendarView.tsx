@@ -0,0 +1,420 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Modal } from '@/components/ui/modal'
+import { ArrowLeft, Calendar, ChevronLeft, ChevronRight, Snowflake, Loader2 } from 'lucide-react'
+import { useAppStore } from '@/lib/store'
+import { dbUtils, Entry } from '@/lib/database'
+import {
+  CalendarDay,
+  CalendarLayout,
+  RunPosition,
+  WEEKDAY_LABELS,
+  addMonths,
+  buildCalendarDays,
+  getHeatLevel,
+  getKeyboardTarget,
+  getMonthWeeks,
+  getYearWeeks
+} from '@/lib/calendar'
+import { addDays } from '@/lib/streaks'
+import { useToast } from '@/components/ui/toast'
+
+const HEAT_CLASSES = ['bg-muted', 'bg-primary/40', 'bg-primary/70', 'bg-primary']
+
+// Bar under a month cell that joins the days of a run
+const RUN_BAR_CLASSES: Record<RunPosition, string> = {
+  none: 'hidden',
+  single: 'left-1/4 right-1/4',
+  start: 'left-1/2 right-0',
+  middle: 'left-0 right-0',
+  end: 'left-0 right-1/2'
+}
+
+const formatLongDate = (dateLocal: string) =>
+  new Date(dateLocal + 'T00:00:00').toLocaleDateString('en-US', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  })
+
+const describeDay = (dateLocal: string, day: CalendarDay | undefined) => {
+  const parts = [formatLongDate(dateLocal)]
+  const count = day?.entryCount || 0
+  parts.push(count === 0 ? 'no entry' : `${count} ${count === 1 ? 'entry' : 'entries'}`)
+  if (day?.frozen) parts.push('streak freeze')
+  return parts.join(', ')
+}
+
+export function CalendarView() {
+  const { setCurrentView, openJournal } = useAppStore()
+  const { addToast } = useToast()
+  const today = dbUtils.getTodayLocal()
+  const [selectedDay, setSelectedDay] = useState(today)
+  const [days, setDays] = useState<Record<string, CalendarDay>>({})
+  const [isLoading, setIsLoading] = useState(true)
+  // Grid that should move focus to the selected day after keyboard navigation
+  const [focusLayout, setFocusLayout] = useState<CalendarLayout | null>(null)
+  const [openDay, setOpenDay] = useState<string | null>(null)
+  const [dayEntries, setDayEntries] = useState<Entry[]>([])
+  const [isLoadingDay, setIsLoadingDay] = useState(false)
+  const monthGridRef = useRef<HTMLDivElement>(null)
+  const yearGridRef = useRef<HTMLDivElement>(null)
+
+  const year = Number(selectedDay.slice(0, 4))
+  const month = Number(selectedDay.slice(5, 7)) - 1
+
+  useEffect(() => {
+    const loadYear = async () => {
+      try {
+        const first = `${year}-01-01`
+        const last = `${year}-12-31`
+        // One extra day on each side so runs crossing the year boundary join up
+        const data = await dbUtils.getCalendarData(addDays(first, -1), addDays(last, 1))
+        setDays(buildCalendarDays(first, last, data.entryDays, data.frozenDays))
+      } catch (error) {
+        console.error('Failed to load calendar:', error)
+        addToast({
+          type: 'error',
+          title: 'Failed to load calendar',
+          description: 'There was an error loading your journaling history.'
+        })
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadYear()
+  }, [year, addToast])
+
+  useEffect(() => {
+    if (!focusLayout) return
+    const grid = focusLayout === 'month' ? monthGridRef.current : yearGridRef.current
+    grid?.querySelector<HTMLButtonElement>(`[data-date="${selectedDay}"]`)?.focus()
+    setFocusLayout(null)
+  }, [focusLayout, selectedDay])
+
+  const handleKeyDown = (layout: CalendarLayout) => (e: React.KeyboardEvent) => {
+    const target = getKeyboardTarget(selectedDay, e.key, layout)
+    if (!target) return
+
+    e.preventDefault()
+    setSelectedDay(target)
+    setFocusLayout(layout)
+  }
+
+  const openDayDetails = async (dateLocal: string) => {
+    setSelectedDay(dateLocal)
+    setOpenDay(dateLocal)
+    setDayEntries([])
+
+    if (!days[dateLocal]?.entryCount) return
+
+    try {
+      setIsLoadingDay(true)
+      setDayEntries(await dbUtils.getEntriesForDate(dateLocal))
+    } catch (error) {
+      console.error('Failed to load entries for day:', error)
+      addToast({
+        type: 'error',
+        title: 'Failed to load entry',
+        description: 'There was an error loading the entry for this day.'
+      })
+    } finally {
+      setIsLoadingDay(false)
+    }
+  }
+
+  const closeDayDetails = () => {
+    setOpenDay(null)
+    setDayEntries([])
+  }
+
+  const daysWritten = Object.values(days).filter(day => day.entryCount > 0).length
+  const openDayInfo = openDay ? days[openDay] : undefined
+
+  const renderYearCell = (dateLocal: string | null, index: number) => {
+    if (!dateLocal) return <div key={index} className="w-3 h-3" aria-hidden="true" />
+
+    const day = days[dateLocal]
+    const isSelected = dateLocal === selectedDay
+    const colour = dateLocal > today
+      ? 'bg-muted/40'
+      : day?.frozen && !day.entryCount
+        ? 'bg-sky-300'
+        : HEAT_CLASSES[getHeatLevel(day)]
+
+    return (
+      <button
+        key={dateLocal}
+        type="button"
+        data-date={dateLocal}
+        tabIndex={isSelected ? 0 : -1}
+        onClick={() => openDayDetails(dateLocal)}
+        aria-label={describeDay(dateLocal, day)}
+        title={describeDay(dateLocal, day)}
+        className={`w-3 h-3 rounded-sm ${colour} ${isSelected ? 'ring-2 ring-ring ring-offset-1' : ''} focus-visible:outline-none`}
+      />
+    )
+  }
+
+  const renderMonthCell = (dateLocal: string | null, index: number) => {
+    if (!dateLocal) return <div key={index} role="gridcell" className="h-12" />
+
+    const day = days[dateLocal]
+    const isSelected = dateLocal === selectedDay
+    const isFuture = dateLocal > today
+    const hasEntry = !!day?.entryCount
+
+    return (
+      <button
+        key={dateLocal}
+        type="button"
+        role="gridcell"
+        data-date={dateLocal}
+        tabIndex={isSelected ? 0 : -1}
+        onClick={() => openDayDetails(dateLocal)}
+        aria-label={describeDay(dateLocal, day)}
+        aria-selected={isSelected}
+        className={`relative h-12 flex flex-col items-center justify-center text-sm focus-visible:outline-none ${isFuture ? 'text-muted-foreground/60' : ''}`}
+      >
+        <span
+          className={`w-8 h-8 flex items-center justify-center rounded-full ${
+            hasEntry ? 'bg-primary text-primary-foreground font-medium' : ''
+          } ${dateLocal === today && !hasEntry ? 'border border-primary' : ''} ${
+            isSelected ? 'ring-2 ring-ring ring-offset-1' : ''
+          }`}
+        >
+          {day?.frozen && !hasEntry ? (
+            <Snowflake className="w-4 h-4 text-sky-600" aria-hidden="true" />
+          ) : (
+            Number(dateLocal.slice(8, 10))
+          )}
+        </span>
+        <span
+          className={`absolute bottom-1 h-1 rounded-full ${day?.frozen && !hasEntry ? 'bg-sky-300' : 'bg-primary/30'} ${RUN_BAR_CLASSES[day?.run || 'none']}`}
+          aria-hidden="true"
+        />
+      </button>
+    )
+  }
+
+  const yearWeeks = getYearWeeks(year)
+  const monthWeeks = getMonthWeeks(year, month)
+  const monthLabel = new Date(year, month, 1).toLocaleDateString('en-US', { month: 'long', year: 'numeric' })
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <div className="flex items-center justify-between p-4 border-b">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="sm" onClick={() => setCurrentView('today')}>
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+            <h1 className="text-xl font-semibold">Calendar</h1>
+          </div>
+        </div>
+        <div className="flex items-center justify-center min-h-[400px]">
+          <div className="text-center">
+            <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+            <p className="text-muted-foreground">Loading calendar...</p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="flex items-center justify-between p-4 border-b">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="sm" onClick={() => setCurrentView('today')}>
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <div>
+            <h1 className="text-xl font-semibold">Calendar</h1>
+            <p className="text-sm text-muted-foreground">
+              {daysWritten} {daysWritten === 1 ? 'day' : 'days'} written in {year}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 py-6 space-y-6">
+        {/* Year heatmap */}
+        <Card>
+          <CardHeader className="pb-3">
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-base">{year}</CardTitle>
+              <div className="flex gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setSelectedDay(addMonths(selectedDay, -12))}
+                  aria-label="Previous year"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setSelectedDay(addMonths(selectedDay, 12))}
+                  aria-label="Next year"
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto pb-2">
+              <div
+                ref={yearGridRef}
+                role="group"
+                aria-label={`Journaling heatmap for ${year}. Use arrow keys to move between days.`}
+                onKeyDown={handleKeyDown('year')}
+                className="flex gap-1 w-max"
+              >
+                {yearWeeks.map((week, weekIndex) => (
+                  <div key={weekIndex} className="flex flex-col gap-1">
+                    {week.map((dateLocal, dayIndex) => renderYearCell(dateLocal, dayIndex))}
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center gap-4 mt-3 text-xs text-muted-foreground">
+              <span className="flex items-center gap-1">
+                Less
+                {HEAT_CLASSES.map(colour => (
+                  <span key={colour} className={`w-3 h-3 rounded-sm ${colour}`} />
+                ))}
+                More
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="w-3 h-3 rounded-sm bg-sky-300" />
+                Streak freeze
+              </span>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Month grid */}
+        <Card>
+          <CardHeader className="pb-3">
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-base">{monthLabel}</CardTitle>
+              <div className="flex gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setSelectedDay(addMonths(selectedDay, -1))}
+                  aria-label="Previous month"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setSelectedDay(addMonths(selectedDay, 1))}
+                  aria-label="Next month"
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div
+              ref={monthGridRef}
+              role="grid"
+              aria-label={`${monthLabel}. Use arrow keys to move between days, Page Up and Page Down to change month.`}
+              onKeyDown={handleKeyDown('month')}
+            >
+              <div role="row" className="grid grid-cols-7 mb-1">
+                {WEEKDAY_LABELS.map(label => (
+                  <div key={label} role="columnheader" className="text-center text-xs text-muted-foreground">
+                    {label}
+                  </div>
+                ))}
+              </div>
+              {monthWeeks.map((week, weekIndex) => (
+                <div key={weekIndex} role="row" className="grid grid-cols-7">
+                  {week.map((dateLocal, dayIndex) => renderMonthCell(dateLocal, dayIndex))}
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground mt-3">
+              Bars join the days of a streak run. Select a day to read what you wrote.
+            </p>
+          </CardContent>
+        </Card>
+
+        {/* Navigation */}
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setCurrentView('today')} className="flex-1">
+            Back to Today
+          </Button>
+          <Button variant="outline" onClick={() => setCurrentView('all')} className="flex-1">
+            View All Entries
+          </Button>
+        </div>
+      </div>
+
+      <Modal
+        isOpen={openDay !== null}
+        onClose={closeDayDetails}
+        title={openDay ? formatLongDate(openDay) : undefined}
+        className="max-w-lg max-h-[85vh] overflow-y-auto"
+      >
+        {isLoadingDay ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading entry...
+          </div>
+        ) : dayEntries.length > 0 ? (
+          <div className="space-y-6">
+            {dayEntries.map(entry => (
+              <div key={entry.id} className="space-y-3">
+                {[
+                  { label: 'Setback Visualization', text: entry.setback },
+                  { label: 'Protective Step', text: entry.protective_step },
+                  { label: 'Gratitude', text: entry.gratitude }
+                ].filter(field => field.text).map(field => (
+                  <div key={field.label}>
+                    <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">
+                      {field.label}
+                    </h4>
+                    <p className="text-sm leading-relaxed whitespace-pre-wrap">{field.text}</p>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-4 text-sm text-muted-foreground">
+            {openDayInfo?.frozen ? (
+              <p className="flex items-center gap-2">
+                <Snowflake className="w-4 h-4 text-sky-600" />
+                {openDay && openDay > today
+                  ? 'Rest day. A streak freeze will cover it.'
+                  : 'A streak freeze covered this day.'}
+              </p>
+            ) : (
+              <p>Nothing written on this day.</p>
+            )}
+            {openDay === today && (
+              <Button onClick={() => openJournal()} className="w-full">
+                <Calendar className="w-4 h-4 mr-2" />
+                Start Today&apos;s Reflection
+              </Button>
+            )}
+          </div>
+        )}
+      </Modal>
+    </div>
+  )
+}
@@ -0,0 +1,281 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Upload, Loader2, AlertTriangle, FileJson } from 'lucide-react'
+import { useAppStore } from '@/lib/store'
+import { db, ExportDocument } from '@/lib/database'
+import { importUtils, ImportMode, ImportPreview } from '@/lib/import'
+import { useToast } from '@/components/ui/toast'
+
+export function DataImport() {
+  const { setSettings, setStreak } = useAppStore()
+  const { addToast } = useToast()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [fileName, setFileName] = useState('')
+  const [backup, setBackup] = useState<ExportDocument | null>(null)
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [errors, setErrors] = useState<string[]>([])
+  const [mode, setMode] = useState<ImportMode>('merge')
+  const [isImporting, setIsImporting] = useState(false)
+  const [importProgress, setImportProgress] = useState(0)
+  const [importStatus, setImportStatus] = useState('')
+
+  const resetImport = () => {
+    setFileName('')
+    setBackup(null)
+    setPreview(null)
+    setErrors([])
+    setMode('merge')
+    if (fileInputRef.current) fileInputRef.current.value = ''
+  }
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    resetImport()
+    setFileName(file.name)
+
+    try {
+      const result = importUtils.parseBackup(await file.text())
+      if (!result.valid) {
+        setErrors(result.errors)
+        return
+      }
+
+      setBackup(result.data)
+      setPreview(await importUtils.previewImport(result.data))
+    } catch (error) {
+      console.error('Failed to read backup:', error)
+      setErrors(['Unable to read the selected file.'])
+    }
+  }
+
+  const handleImport = async () => {
+    if (!backup || isImporting) return
+
+    if (mode === 'replace') {
+      const confirmed = window.confirm(
+        'Replace all journal entries and prompts on this device with the backup? Entries that are not in the backup and any unsaved drafts will be permanently deleted.'
+      )
+      if (!confirmed) return
+    }
+
+    try {
+      setIsImporting(true)
+      setImportProgress(0)
+      setImportStatus('Preparing import...')
+
+      const result = await importUtils.importData(backup, mode, (progress, status) => {
+        setImportProgress(progress)
+        setImportStatus(status)
+      })
+
+      const updatedSettings = await db.settings.get('main')
+      if (updatedSettings) setSettings(updatedSettings)
+      setStreak(result.streak)
+
+      addToast({
+        type: 'success',
+        title: 'Import Complete',
+        description: `Restored ${result.importedEntries} entr${result.importedEntries === 1 ? 'y' : 'ies'}` +
+          (result.skippedEntries > 0 ? `, skipped ${result.skippedEntries} already on this device.` : '.')
+      })
+      resetImport()
+    } catch (error) {
+      console.error('Import error:', error)
+      addToast({
+        type: 'error',
+        title: 'Import Failed',
+        description: 'Unable to import your backup. No changes were saved.'
+      })
+    } finally {
+      setIsImporting(false)
+      setImportProgress(0)
+      setImportStatus('')
+    }
+  }
+
+  const formatDay = (dateLocal: string) => {
+    try {
+      return new Date(dateLocal + 'T00:00:00').toLocaleDateString('en-US', {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric'
+      })
+    } catch {
+      return dateLocal
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <h4 className="font-medium text-sm">Import Data</h4>
+      <p className="text-xs text-muted-foreground">
+        Restore a JSON file created with Export Journal Data. You will see a preview before anything is changed.
+      </p>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={handleFileSelected}
+      />
+
+      {errors.length > 0 && (
+        <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-md space-y-1">
+          <p className="text-sm font-medium text-destructive flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4" />
+            {fileName ? `${fileName} can't be imported` : 'This file can\'t be imported'}
+          </p>
+          <ul className="text-xs text-destructive space-y-0.5 ml-6 list-disc">
+            {errors.map((error, i) => (
+              <li key={i}>{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {preview && (
+        <div className="p-4 bg-muted/50 rounded-lg space-y-4">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <FileJson className="w-4 h-4" />
+            {fileName}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3 text-xs">
+            <div>
+              <p className="text-muted-foreground">Entries</p>
+              <p className="font-medium">{preview.entryCount}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Prompts</p>
+              <p className="font-medium">{preview.promptCount}</p>
+            </div>
+            {preview.revisionCount > 0 && (
+              <div>
+                <p className="text-muted-foreground">Earlier versions</p>
+                <p className="font-medium">{preview.revisionCount}</p>
+              </div>
+            )}
+            {preview.outcomeCount > 0 && (
+              <div>
+                <p className="text-muted-foreground">Outcome reviews</p>
+                <p className="font-medium">{preview.outcomeCount}</p>
+              </div>
+            )}
+            {preview.actionItemCount > 0 && (
+              <div>
+                <p className="text-muted-foreground">Action items</p>
+                <p className="font-medium">{preview.actionItemCount}</p>
+              </div>
+            )}
+            {preview.reviewCount > 0 && (
+              <div>
+                <p className="text-muted-foreground">Saved reviews</p>
+                <p className="font-medium">{preview.reviewCount}</p>
+              </div>
+            )}
+            <div>
+              <p className="text-muted-foreground">Date range</p>
+              <p className="font-medium">
+                {preview.dateRange
+                  ? `${formatDay(preview.dateRange.start)} – ${formatDay(preview.dateRange.end)}`
+                  : 'No entries'}
+              </p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Exported</p>
+              <p className="font-medium">{new Date(preview.exportedAt).toLocaleDateString('en-US')}</p>
+            </div>
+          </div>
+
+          {(preview.idConflicts.length > 0 || preview.dateConflicts.length > 0) && (
+            <div className="text-xs space-y-1 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-yellow-800">
+              {preview.idConflicts.length > 0 && (
+                <p>
+                  {preview.idConflicts.length} entr{preview.idConflicts.length === 1 ? 'y is' : 'ies are'} already on this device.
+                </p>
+              )}
+              {preview.dateConflicts.length > 0 && (
+                <p>
+                  {preview.dateConflicts.length} day{preview.dateConflicts.length === 1 ? ' has' : 's have'} a different entry on this device.
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <Button
+                variant={mode === 'merge' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setMode('merge')}
+                disabled={isImporting}
+              >
+                Merge
+              </Button>
+              <Button
+                variant={mode === 'replace' ? 'destructive' : 'outline'}
+                size="sm"
+                onClick={() => setMode('replace')}
+                disabled={isImporting}
+              >
+                Replace
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {mode === 'merge'
+                ? `Adds ${preview.newEntryCount} new entr${preview.newEntryCount === 1 ? 'y' : 'ies'} and keeps everything already on this device.`
+                : 'Deletes the entries and prompts on this device and restores the backup, including its preferences. Your PIN is kept.'}
+            </p>
+          </div>
+
+          {isImporting && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                {importStatus}
+              </div>
+              <div className="w-full bg-secondary rounded-full h-2">
+                <div
+                  className="bg-primary h-2 rounded-full transition-all duration-300"
+                  style={{ width: `${importProgress}%` }}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={resetImport} disabled={isImporting}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleImport} disabled={isImporting}>
+              {isImporting ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Importing...
+                </>
+              ) : (
+                mode === 'merge' ? 'Merge Backup' : 'Replace With Backup'
+              )}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {!preview && (
+        <Button
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+          className="min-w-32"
+        >
+          <Upload className="w-4 h-4 mr-2" />
+          Choose Backup File
+        </Button>
+      )}
+    </div>
+  )
+}
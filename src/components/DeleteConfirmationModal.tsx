@@ -159,7 +159,7 @@ export function DeleteConfirmationModal({
 
         {/* Accessibility note */}
         <div className="text-xs text-muted-foreground">
-          <p>Press Escape to cancel, or Enter to confirm once you've typed the confirmation phrase.</p>
+          <p>Press Escape to cancel, or Enter to confirm once you&apos;ve typed the confirmation phrase.</p>
         </div>
 
       </div>
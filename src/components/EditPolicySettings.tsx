@@ -0,0 +1,93 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Edit2 } from 'lucide-react'
+import { useAppStore } from '@/lib/store'
+import { db, Settings } from '@/lib/database'
+import { EDIT_POLICY_MODES, EDIT_WINDOW_OPTIONS, formatWindowHours, getEditPolicy } from '@/lib/edit-policy'
+import { useToast } from '@/components/ui/toast'
+
+export function EditPolicySettings() {
+  const { settings, setSettings } = useAppStore()
+  const { addToast } = useToast()
+  const [isSaving, setIsSaving] = useState(false)
+
+  const policy = getEditPolicy(settings)
+  const hasWindow = policy.mode === 'window' || policy.mode === 'addendum'
+
+  const saveSettings = async (changes: Partial<Settings>) => {
+    if (!settings) return
+
+    try {
+      setIsSaving(true)
+      const updatedSettings = { ...settings, ...changes }
+      await db.settings.put(updatedSettings)
+      setSettings(updatedSettings)
+    } catch (error) {
+      console.error('Failed to save edit preferences:', error)
+      addToast({
+        type: 'error',
+        title: 'Save Failed',
+        description: 'Unable to save your editing preferences. Please try again.'
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Edit2 className="w-5 h-5" />
+          Editing Entries
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <h4 className="font-medium text-sm">When Entries Can Be Edited</h4>
+          <div className="grid grid-cols-2 gap-2">
+            {EDIT_POLICY_MODES.map(({ mode, label }) => (
+              <Button
+                key={mode}
+                variant={policy.mode === mode ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => saveSettings({ editPolicy: mode })}
+                disabled={isSaving}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {EDIT_POLICY_MODES.find(({ mode }) => mode === policy.mode)?.description}
+          </p>
+        </div>
+
+        {hasWindow && (
+          <div className="space-y-2">
+            <h4 className="font-medium text-sm">Edit Window</h4>
+            <div className="flex flex-wrap gap-2">
+              {EDIT_WINDOW_OPTIONS.map(hours => (
+                <Button
+                  key={hours}
+                  variant={policy.windowHours === hours ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => saveSettings({ editWindowHours: hours })}
+                  disabled={isSaving}
+                >
+                  {formatWindowHours(hours)}
+                </Button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Counted from when the entry was first written.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
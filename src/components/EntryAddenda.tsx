@@ -0,0 +1,97 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { MessageSquarePlus } from 'lucide-react'
+import { useAppStore } from '@/lib/store'
+import { dbUtils, Entry } from '@/lib/database'
+import { MAX_ADDENDUM_LENGTH, canAddAddendum, getEditPolicy } from '@/lib/edit-policy'
+import { useToast } from '@/components/ui/toast'
+
+interface EntryAddendaProps {
+  entry: Entry
+  onAdded: (entry: Entry) => void
+}
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+
+// Dated follow-up notes under an entry, with a form to add one when the
+// edit policy allows it
+export function EntryAddenda({ entry, onAdded }: EntryAddendaProps) {
+  const { settings } = useAppStore()
+  const { addToast } = useToast()
+  const [isAdding, setIsAdding] = useState(false)
+  const [text, setText] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const addenda = entry.addenda || []
+  const canAdd = canAddAddendum(getEditPolicy(settings))
+
+  if (addenda.length === 0 && !canAdd) return null
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    const result = await dbUtils.addAddendum(entry.id, text)
+    setIsSaving(false)
+
+    if (!result.success || !result.entry) {
+      addToast({
+        type: 'error',
+        title: 'Note Not Saved',
+        description: result.error || 'Unable to save the note.'
+      })
+      return
+    }
+
+    setText('')
+    setIsAdding(false)
+    onAdded(result.entry)
+  }
+
+  return (
+    <div className="mt-4 space-y-3">
+      {addenda.length > 0 && (
+        <div className="border-l-2 border-primary/30 pl-3 space-y-2">
+          {addenda.map(addendum => (
+            <div key={addendum.id}>
+              <p className="text-xs text-muted-foreground">Note added {formatDateTime(addendum.created_at)}</p>
+              <p className="text-sm leading-relaxed whitespace-pre-wrap">{addendum.text}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canAdd && (isAdding ? (
+        <div className="space-y-2">
+          <label htmlFor={`addendum-${entry.id}`} className="sr-only">Follow-up note</label>
+          <textarea
+            id={`addendum-${entry.id}`}
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            maxLength={MAX_ADDENDUM_LENGTH}
+            rows={2}
+            placeholder="How did it turn out?"
+            className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          />
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-muted-foreground">{text.length}/{MAX_ADDENDUM_LENGTH}</span>
+            <div className="flex gap-2">
+              <Button variant="ghost" size="sm" onClick={() => { setIsAdding(false); setText('') }} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleSave} disabled={isSaving || !text.trim()}>
+                {isSaving ? 'Saving...' : 'Save Note'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <Button variant="ghost" size="sm" onClick={() => setIsAdding(true)} className="text-muted-foreground">
+          <MessageSquarePlus className="w-4 h-4 mr-2" />
+          Add follow-up note
+        </Button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,156 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Prompt, PromptCategory } from '@/lib/database'
+import { PROMPT_CATEGORIES, CATEGORY_LABELS } from '@/lib/prompts'
+import {
+  EntryFilters,
+  EditedFilter,
+  DurationBucket,
+  EntrySortOrder,
+  DURATION_LABELS,
+  SORT_LABELS,
+  clearEntryFilters,
+  countActiveFilters
+} from '@/lib/entry-filters'
+
+const SELECT_CLASS =
+  'flex h-9 w-full rounded-md border border-input bg-background px-3 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring'
+
+const EDITED_OPTIONS: { value: EditedFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'edited', label: 'Edited' },
+  { value: 'original', label: 'Original' }
+]
+
+interface EntryFilterPanelProps {
+  filters: EntryFilters
+  prompts: Prompt[]
+  onChange: (filters: EntryFilters) => void
+}
+
+export function EntryFilterPanel({ filters, prompts, onChange }: EntryFilterPanelProps) {
+  const update = (changes: Partial<EntryFilters>) => onChange({ ...filters, ...changes })
+
+  // A prompt and a category can't both apply; picking one clears the other
+  const handlePromptChange = (promptId: string) => {
+    update({ promptId: promptId || undefined, category: promptId ? undefined : filters.category })
+  }
+
+  const handleCategoryChange = (category: string) => {
+    update({ category: (category || undefined) as PromptCategory | undefined, promptId: category ? undefined : filters.promptId })
+  }
+
+  const sortedPrompts = [...prompts].sort((a, b) => a.text.localeCompare(b.text))
+
+  return (
+    <div className="p-4 border rounded-lg space-y-4 bg-muted/30">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div>
+          <label htmlFor="filter-from" className="text-xs text-muted-foreground block mb-1">From</label>
+          <Input
+            id="filter-from"
+            type="date"
+            value={filters.from || ''}
+            max={filters.to}
+            onChange={(e) => update({ from: e.target.value || undefined })}
+            className="h-9"
+          />
+        </div>
+        <div>
+          <label htmlFor="filter-to" className="text-xs text-muted-foreground block mb-1">To</label>
+          <Input
+            id="filter-to"
+            type="date"
+            value={filters.to || ''}
+            min={filters.from}
+            onChange={(e) => update({ to: e.target.value || undefined })}
+            className="h-9"
+          />
+        </div>
+        <div>
+          <label htmlFor="filter-category" className="text-xs text-muted-foreground block mb-1">Category</label>
+          <select
+            id="filter-category"
+            value={filters.category || ''}
+            onChange={(e) => handleCategoryChange(e.target.value)}
+            className={SELECT_CLASS}
+          >
+            <option value="">Any category</option>
+            {PROMPT_CATEGORIES.map(category => (
+              <option key={category} value={category}>{CATEGORY_LABELS[category]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="filter-prompt" className="text-xs text-muted-foreground block mb-1">Prompt</label>
+          <select
+            id="filter-prompt"
+            value={filters.promptId || ''}
+            onChange={(e) => handlePromptChange(e.target.value)}
+            className={SELECT_CLASS}
+          >
+            <option value="">Any prompt</option>
+            {sortedPrompts.map(prompt => (
+              <option key={prompt.id} value={prompt.id}>
+                {prompt.text.length > 60 ? prompt.text.slice(0, 60).trim() + '...' : prompt.text}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="filter-duration" className="text-xs text-muted-foreground block mb-1">Writing time</label>
+          <select
+            id="filter-duration"
+            value={filters.duration || ''}
+            onChange={(e) => update({ duration: (e.target.value || undefined) as DurationBucket | undefined })}
+            className={SELECT_CLASS}
+          >
+            <option value="">Any length</option>
+            {(Object.keys(DURATION_LABELS) as DurationBucket[]).map(bucket => (
+              <option key={bucket} value={bucket}>{DURATION_LABELS[bucket]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="filter-sort" className="text-xs text-muted-foreground block mb-1">Sort by</label>
+          <select
+            id="filter-sort"
+            value={filters.sort}
+            onChange={(e) => update({ sort: e.target.value as EntrySortOrder })}
+            className={SELECT_CLASS}
+          >
+            {(Object.keys(SORT_LABELS) as EntrySortOrder[]).map(sort => (
+              <option key={sort} value={sort}>{SORT_LABELS[sort]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex gap-1" role="group" aria-label="Edited entries">
+          {EDITED_OPTIONS.map(option => (
+            <Button
+              key={option.value}
+              variant={filters.edited === option.value ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => update({ edited: option.value })}
+              aria-pressed={filters.edited === option.value}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange(clearEntryFilters(filters))}
+          disabled={countActiveFilters(filters) === 0}
+        >
+          Clear filters
+        </Button>
+      </div>
+    </div>
+  )
+}
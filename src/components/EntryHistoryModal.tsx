@@ -0,0 +1,157 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Modal } from '@/components/ui/modal'
+import { Loader2, RotateCcw } from 'lucide-react'
+import { useAppStore } from '@/lib/store'
+import { dbUtils, Entry, EntryRevision } from '@/lib/database'
+import { REVISION_FIELDS, RevisionText, diffWords, getRevisionRetention } from '@/lib/revisions'
+import { useToast } from '@/components/ui/toast'
+
+interface EntryHistoryModalProps {
+  entry: Entry | null
+  onClose: () => void
+  onRestored: (entry: Entry) => void
+}
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+
+function FieldDiff({ before, after }: { before: string; after: string }) {
+  return (
+    <p className="text-sm leading-relaxed whitespace-pre-wrap">
+      {diffWords(before, after).map((segment, i) =>
+        segment.type === 'added' ? (
+          <ins key={i} className="bg-primary/20 no-underline rounded-sm">{segment.text}</ins>
+        ) : segment.type === 'removed' ? (
+          <del key={i} className="bg-destructive/10 text-destructive rounded-sm">{segment.text}</del>
+        ) : (
+          <span key={i}>{segment.text}</span>
+        )
+      )}
+    </p>
+  )
+}
+
+// Timeline of an entry's earlier versions. Each version shows what the next
+// edit changed, field by field, and can be put back with one click.
+export function EntryHistoryModal({ entry, onClose, onRestored }: EntryHistoryModalProps) {
+  const { settings, setStreak } = useAppStore()
+  const { addToast } = useToast()
+  const [revisions, setRevisions] = useState<EntryRevision[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!entry) return
+
+    setIsLoading(true)
+    dbUtils.getEntryRevisions(entry.id)
+      .then(setRevisions)
+      .catch(error => {
+        console.error('Failed to load revisions:', error)
+        addToast({
+          type: 'error',
+          title: 'Failed to load history',
+          description: 'There was an error loading earlier versions of this entry.'
+        })
+      })
+      .finally(() => setIsLoading(false))
+  }, [entry, addToast])
+
+  const handleRestore = async (revision: EntryRevision) => {
+    setRestoringId(revision.id)
+    const result = await dbUtils.restoreRevision(revision.id)
+    setRestoringId(null)
+
+    if (!result.success || !result.entry) {
+      addToast({
+        type: 'error',
+        title: 'Restore Failed',
+        description: result.error || 'Unable to restore this version.'
+      })
+      return
+    }
+
+    if (result.streak) setStreak(result.streak)
+    // The parent passes the restored entry back in, which reloads the timeline
+    onRestored(result.entry)
+    addToast({
+      type: 'success',
+      title: 'Version Restored',
+      description: 'The text it replaced is kept in the history.'
+    })
+  }
+
+  const canRestore = entry ? dbUtils.canEditEntry(entry, settings) : false
+
+  return (
+    <Modal
+      isOpen={entry !== null}
+      onClose={onClose}
+      title="Edit History"
+      className="max-w-lg max-h-[85vh] overflow-y-auto"
+    >
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading history...
+        </div>
+      ) : revisions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {getRevisionRetention(settings) === 0
+            ? 'Edit history is turned off in Settings.'
+            : 'No earlier versions of this entry have been saved.'}
+        </p>
+      ) : (
+        <ol className="border-l pl-4 space-y-6">
+          {revisions.map((revision, index) => {
+            // Compare with the version that replaced this one
+            const next: RevisionText = index === 0 ? entry as Entry : revisions[index - 1]
+            const changedFields = REVISION_FIELDS.filter(({ key }) => revision[key] !== next[key])
+
+            return (
+              <li key={revision.id} className="relative space-y-3">
+                <span className="absolute -left-[21px] top-1.5 w-2.5 h-2.5 rounded-full bg-primary/60" aria-hidden="true" />
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <p className="text-sm font-medium">Version from {formatDateTime(revision.saved_at)}</p>
+                    <p className="text-xs text-muted-foreground">Replaced {formatDateTime(revision.replaced_at)}</p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRestore(revision)}
+                    disabled={!canRestore || restoringId !== null}
+                    aria-label={`Restore the version from ${formatDateTime(revision.saved_at)}`}
+                  >
+                    {restoringId === revision.id ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <RotateCcw className="w-4 h-4" />
+                    )}
+                    <span className="ml-2">Restore</span>
+                  </Button>
+                </div>
+                {changedFields.map(({ key, label }) => (
+                  <div key={key}>
+                    <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">
+                      {label}
+                    </h4>
+                    <FieldDiff before={revision[key]} after={next[key]} />
+                  </div>
+                ))}
+              </li>
+            )
+          })}
+        </ol>
+      )}
+      {!canRestore && revisions.length > 0 && (
+        <p className="text-xs text-muted-foreground mt-4">
+          This entry can no longer be edited, so earlier versions can&apos;t be restored.
+        </p>
+      )}
+    </Modal>
+  )
+}
@@ -0,0 +1,189 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { ArrowLeft, Scale } from 'lucide-react'
+import { useAppStore } from '@/lib/store'
+import { dbUtils, Entry, EntryOutcome } from '@/lib/database'
+import { OUTCOME_ANSWERS, OUTCOME_SEVERITIES, OutcomeReport, formatCheckpoint } from '@/lib/outcomes'
+import { useToast } from '@/components/ui/toast'
+
+const percent = (part: number, total: number) => total > 0 ? Math.round((part / total) * 100) : 0
+
+const answerLabel = (answer: EntryOutcome['happened']) =>
+  OUTCOME_ANSWERS.find(a => a.value === answer)?.label || 'Skipped'
+
+export function FearsVsRealityView() {
+  const { setCurrentView } = useAppStore()
+  const { addToast } = useToast()
+  const [report, setReport] = useState<OutcomeReport | null>(null)
+  const [recent, setRecent] = useState<{ outcome: EntryOutcome; entry: Entry }[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    dbUtils.getOutcomeReport()
+      .then(result => {
+        setReport(result.report)
+        setRecent(result.recent)
+      })
+      .catch(error => {
+        console.error('Failed to load outcome report:', error)
+        addToast({
+          type: 'error',
+          title: 'Failed to load report',
+          description: 'There was an error loading your recorded outcomes.'
+        })
+      })
+      .finally(() => setIsLoading(false))
+  }, [addToast])
+
+  const getExcerpt = (text: string, maxLength: number = 120) => {
+    if (text.length <= maxLength) return text
+    return text.substring(0, maxLength).trim() + '...'
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="flex items-center gap-3 p-4 border-b">
+        <Button variant="ghost" size="sm" onClick={() => setCurrentView('today')} aria-label="Back to today">
+          <ArrowLeft className="w-4 h-4" />
+        </Button>
+        <div>
+          <h1 className="text-xl font-semibold">Fears vs Reality</h1>
+          <p className="text-sm text-muted-foreground">
+            What happened to the setbacks you imagined
+          </p>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 py-6 space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center min-h-[300px]">
+            <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : !report || report.reviewed === 0 ? (
+          <Card>
+            <CardContent className="p-12 text-center">
+              <Scale className="w-16 h-16 mx-auto mb-4 text-muted-foreground/50" />
+              <h3 className="text-lg font-medium mb-2">No outcomes yet</h3>
+              <p className="text-muted-foreground">
+                Entries come back for review 30 days, 90 days and a year after you write them.
+                Your answers will show up here.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Overall</CardTitle>
+                <CardDescription>
+                  Based on {report.reviewed} {report.reviewed === 1 ? 'review' : 'reviews'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="grid grid-cols-3 gap-4 text-center">
+                  <div>
+                    <div className="text-2xl font-bold text-primary">{percent(report.didNotHappen, report.reviewed)}%</div>
+                    <div className="text-xs text-muted-foreground">Never Happened</div>
+                  </div>
+                  <div>
+                    <div className="text-2xl font-bold text-primary">{percent(report.happened, report.reviewed)}%</div>
+                    <div className="text-xs text-muted-foreground">Happened</div>
+                  </div>
+                  <div>
+                    <div className="text-2xl font-bold text-primary">{percent(report.stepTaken, report.reviewed)}%</div>
+                    <div className="text-xs text-muted-foreground">Took the Step</div>
+                  </div>
+                </div>
+
+                {report.happened > 0 && (
+                  <div className="space-y-2">
+                    <h4 className="text-sm font-medium">When it happened, it was</h4>
+                    {OUTCOME_SEVERITIES.map(({ value, label }) => (
+                      <div key={value} className="space-y-1">
+                        <div className="flex justify-between text-xs">
+                          <span>{label}</span>
+                          <span className="text-muted-foreground">{report.severity[value]}</span>
+                        </div>
+                        <div className="h-2 rounded-full bg-muted overflow-hidden">
+                          <div
+                            className="h-full bg-primary"
+                            style={{ width: `${percent(report.severity[value], report.happened)}%` }}
+                          />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {report.happenedWithStep.total > 0 && report.happenedWithoutStep.total > 0 && (
+                  <div className="space-y-1">
+                    <h4 className="text-sm font-medium">Did the protective step help?</h4>
+                    <p className="text-sm text-muted-foreground">
+                      The setback happened {percent(report.happenedWithStep.happened, report.happenedWithStep.total)}% of
+                      the time when you took the step, and {percent(report.happenedWithoutStep.happened, report.happenedWithoutStep.total)}%
+                      when you didn&apos;t.
+                    </p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">By Checkpoint</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-3 gap-4 text-center">
+                  {report.byCheckpoint.map(checkpoint => (
+                    <div key={checkpoint.checkpointDays}>
+                      <div className="text-lg font-semibold">
+                        {checkpoint.reviewed > 0 ? `${percent(checkpoint.happened, checkpoint.reviewed)}%` : '—'}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        Happened after {formatCheckpoint(checkpoint.checkpointDays)}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
+            {recent.length > 0 && (
+              <section className="space-y-3">
+                <h2 className="text-sm font-semibold text-muted-foreground">Recent Reviews</h2>
+                {recent.map(({ outcome, entry }) => (
+                  <Card key={outcome.id}>
+                    <CardContent className="p-4 space-y-2">
+                      <p className="text-xs text-muted-foreground">
+                        Written {new Date(entry.dateLocal + 'T00:00:00').toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                        <span className="ml-2">• Reviewed after {formatCheckpoint(outcome.checkpoint_days)}</span>
+                      </p>
+                      <p className="text-sm italic leading-relaxed">{getExcerpt(entry.setback)}</p>
+                      <p className="text-sm">
+                        Happened: <span className="font-medium">{answerLabel(outcome.happened)}</span>
+                        {outcome.severity && (
+                          <span className="text-muted-foreground">
+                            {' '}• {OUTCOME_SEVERITIES.find(s => s.value === outcome.severity)?.label}
+                          </span>
+                        )}
+                        <span className="text-muted-foreground"> • Step taken: {answerLabel(outcome.took_step)}</span>
+                      </p>
+                    </CardContent>
+                  </Card>
+                ))}
+              </section>
+            )}
+          </>
+        )}
+
+        <Button variant="outline" onClick={() => setCurrentView('today')} className="w-full">
+          Back to Today
+        </Button>
+      </div>
+    </div>
+  )
+}
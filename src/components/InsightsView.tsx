@@ -0,0 +1,254 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { ArrowLeft, BarChart3, Lock } from 'lucide-react'
+import { useAppStore } from '@/lib/store'
+import { dbUtils } from '@/lib/database'
+import { CATEGORY_LABELS } from '@/lib/prompts'
+import { WEEKDAY_LABELS } from '@/lib/calendar'
+import { INSIGHT_FIELDS, InsightField, Insights } from '@/lib/insights'
+import { WordCount } from '@/lib/reviews'
+import { useToast } from '@/components/ui/toast'
+
+// Insights need a few entries before the patterns mean anything
+const MIN_ENTRIES_FOR_INSIGHTS = 3
+
+const formatHour = (hour: number) =>
+  hour === 0 ? '12am' : hour < 12 ? `${hour}am` : hour === 12 ? '12pm' : `${hour - 12}pm`
+
+function WordCloud({ words }: { words: WordCount[] }) {
+  if (words.length === 0) return <p className="text-sm text-muted-foreground">Not enough text yet.</p>
+
+  const max = words[0].count
+  const min = words[words.length - 1].count
+  // Font size from 0.75rem to 1.75rem by relative frequency
+  const sizeFor = (count: number) => 0.75 + (max === min ? 0.5 : ((count - min) / (max - min)))
+
+  return (
+    <div className="flex flex-wrap items-baseline gap-x-3 gap-y-1">
+      {[...words].sort((a, b) => a.word.localeCompare(b.word)).map(({ word, count }) => (
+        <span
+          key={word}
+          style={{ fontSize: `${sizeFor(count)}rem` }}
+          className={count === max ? 'text-primary font-semibold' : 'text-foreground/80'}
+          title={`${word}: ${count}`}
+        >
+          {word}
+        </span>
+      ))}
+    </div>
+  )
+}
+
+function BarChart({ values, labels, describe }: { values: number[]; labels: string[]; describe: (index: number) => string }) {
+  const max = Math.max(1, ...values)
+
+  return (
+    <div>
+      <div className="h-24 flex items-end gap-1" aria-hidden="true">
+        {values.map((value, index) => (
+          <div key={index} className="flex-1 h-full flex items-end">
+            <div
+              className={`w-full rounded-sm ${value === max ? 'bg-primary' : 'bg-primary/40'}`}
+              style={{ height: `${(value / max) * 100}%` }}
+              title={describe(index)}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-1 mt-1 text-[10px] text-muted-foreground">
+        {labels.map((label, index) => (
+          <span key={index} className="flex-1 text-center">{label}</span>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export function InsightsView() {
+  const { setCurrentView } = useAppStore()
+  const { addToast } = useToast()
+  const [insights, setInsights] = useState<Insights | null>(null)
+  const [cloudField, setCloudField] = useState<InsightField>('gratitude')
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    dbUtils.getInsights()
+      .then(setInsights)
+      .catch(error => {
+        console.error('Failed to compute insights:', error)
+        addToast({
+          type: 'error',
+          title: 'Failed to load insights',
+          description: 'There was an error reading your entries.'
+        })
+      })
+      .finally(() => setIsLoading(false))
+  }, [addToast])
+
+  const peakHour = insights ? insights.hourCounts.indexOf(Math.max(...insights.hourCounts)) : 0
+  const peakWeekday = insights ? insights.weekdayCounts.indexOf(Math.max(...insights.weekdayCounts)) : 0
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="flex items-center gap-3 p-4 border-b">
+        <Button variant="ghost" size="sm" onClick={() => setCurrentView('today')} aria-label="Back to today">
+          <ArrowLeft className="w-4 h-4" />
+        </Button>
+        <div>
+          <h1 className="text-xl font-semibold">Insights</h1>
+          <p className="text-sm text-muted-foreground flex items-center gap-1">
+            <Lock className="w-3 h-3" />
+            Computed on this device. Nothing is sent anywhere.
+          </p>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 py-6 space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center min-h-[300px]">
+            <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : !insights || insights.entryCount < MIN_ENTRIES_FOR_INSIGHTS ? (
+          <Card>
+            <CardContent className="p-12 text-center">
+              <BarChart3 className="w-16 h-16 mx-auto mb-4 text-muted-foreground/50" />
+              <h3 className="text-lg font-medium mb-2">Not enough entries yet</h3>
+              <p className="text-muted-foreground">
+                Insights appear once you have written at least {MIN_ENTRIES_FOR_INSIGHTS} entries.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">What You&apos;re Grateful For</CardTitle>
+                <CardDescription>Subjects that come up in more than one entry</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {insights.gratitudeSubjects.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No subject has come up twice yet.</p>
+                ) : (
+                  <ol className="space-y-2">
+                    {insights.gratitudeSubjects.map(({ word, count }) => (
+                      <li key={word} className="flex items-center gap-3 text-sm">
+                        <span className="w-28 truncate">{word}</span>
+                        <div className="flex-1 h-2 rounded-full bg-muted overflow-hidden">
+                          <div
+                            className="h-full bg-primary"
+                            style={{ width: `${(count / insights.gratitudeSubjects[0].count) * 100}%` }}
+                          />
+                        </div>
+                        <span className="text-xs text-muted-foreground w-16 text-right">
+                          {count} {count === 1 ? 'entry' : 'entries'}
+                        </span>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Word Cloud</CardTitle>
+                <div className="flex flex-wrap gap-2 pt-2" role="group" aria-label="Field">
+                  {INSIGHT_FIELDS.map(({ key, label }) => (
+                    <Button
+                      key={key}
+                      variant={cloudField === key ? 'default' : 'outline'}
+                      size="sm"
+                      onClick={() => setCloudField(key)}
+                      aria-pressed={cloudField === key}
+                    >
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <WordCloud words={insights.termFrequency[cloudField]} />
+                <details>
+                  <summary className="text-xs text-muted-foreground cursor-pointer">Term frequency</summary>
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {insights.termFrequency[cloudField].map(({ word, count }) => (
+                      <Badge key={word} variant="secondary" className="text-xs font-normal">
+                        {word} <span className="ml-1 text-muted-foreground">×{count}</span>
+                      </Badge>
+                    ))}
+                  </div>
+                </details>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">When You Write</CardTitle>
+                <CardDescription>
+                  Most often around {formatHour(peakHour)}, and on {WEEKDAY_LABELS[peakWeekday]}s
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <BarChart
+                  values={insights.hourCounts}
+                  labels={insights.hourCounts.map((_, hour) => hour % 6 === 0 ? formatHour(hour) : '')}
+                  describe={hour => `${formatHour(hour)}: ${insights.hourCounts[hour]} entries`}
+                />
+                <BarChart
+                  values={insights.weekdayCounts}
+                  labels={WEEKDAY_LABELS}
+                  describe={day => `${WEEKDAY_LABELS[day]}: ${insights.weekdayCounts[day]} entries`}
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Entry Length</CardTitle>
+                <CardDescription>
+                  {insights.averageLength} characters per entry on average, across {insights.entryCount} entries
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="grid grid-cols-3 gap-4 text-center">
+                  {INSIGHT_FIELDS.map(({ key, label }) => (
+                    <div key={key}>
+                      <div className="text-2xl font-bold text-primary">{insights.averageFieldLength[key]}</div>
+                      <div className="text-xs text-muted-foreground">{label}</div>
+                    </div>
+                  ))}
+                </div>
+
+                {insights.categoryLengths.length > 0 && (
+                  <div className="space-y-2">
+                    <h4 className="text-sm font-medium">Prompt categories and reflection length</h4>
+                    {insights.categoryLengths.map(({ category, entryCount, averageLength, difference }) => (
+                      <div key={category} className="flex items-center justify-between text-sm">
+                        <span>
+                          {CATEGORY_LABELS[category]}
+                          <span className="text-xs text-muted-foreground ml-2">{entryCount} entries</span>
+                        </span>
+                        <span className={difference > 0 ? 'text-primary font-medium' : 'text-muted-foreground'}>
+                          {averageLength} chars ({difference > 0 ? '+' : ''}{difference}%)
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+
+        <Button variant="outline" onClick={() => setCurrentView('today')} className="w-full">
+          Back to Today
+        </Button>
+      </div>
+    </div>
+  )
+}
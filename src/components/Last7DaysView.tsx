@@ -3,17 +3,24 @@
 import { useState, useEffect } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import { ArrowLeft, Calendar, Edit2, Trash2, Clock } from 'lucide-react'
+import { ArrowLeft, Calendar, Edit2, History, Trash2, Clock, ClipboardList } from 'lucide-react'
 import { useAppStore } from '@/lib/store'
 import { dbUtils, db, Entry } from '@/lib/database'
+import { groupEntriesByDay } from '@/lib/entry-filters'
+import { getEditLockReason, getEditPolicy } from '@/lib/edit-policy'
+import { EntryHistoryModal } from '@/components/EntryHistoryModal'
+import { EntryAddenda } from '@/components/EntryAddenda'
+import { ActionItemControl } from '@/components/ActionItemControl'
 import { useToast } from '@/components/ui/toast'
 
 export function Last7DaysView() {
-  const { setCurrentView } = useAppStore()
+  const { settings, setCurrentView, openJournal, openPromptHistory, setStreak } = useAppStore()
   const { addToast } = useToast()
   const [entries, setEntries] = useState<Entry[]>([])
   const [isLoading, setIsLoading] = useState(true)
+  const [historyEntry, setHistoryEntry] = useState<Entry | null>(null)
   const [selectedEntry, setSelectedEntry] = useState<Entry | null>(null)
+  const [promptTexts, setPromptTexts] = useState<Record<string, string>>({})
 
   useEffect(() => {
     const loadRecentEntries = async () => {
@@ -36,6 +43,12 @@ export function Last7DaysView() {
     loadRecentEntries()
   }, [addToast])
 
+  useEffect(() => {
+    db.prompts.toArray()
+      .then(prompts => setPromptTexts(Object.fromEntries(prompts.map(p => [p.id, p.text]))))
+      .catch(error => console.warn('Failed to load prompts:', error))
+  }, [])
+
   const formatDate = (dateLocal: string) => {
     try {
       const date = new Date(dateLocal + 'T00:00:00')
@@ -61,44 +74,42 @@ export function Last7DaysView() {
     }
   }
 
-  const canEdit = (entry: Entry) => dbUtils.canEditEntry(entry)
+  const formatTime = (createdAt: string) =>
+    new Date(createdAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })
+
+  const canEdit = (entry: Entry) => dbUtils.canEditEntry(entry, settings)
 
   const handleEdit = (entry: Entry) => {
     if (!canEdit(entry)) {
-      const createdAt = new Date(entry.created_at)
-      const hoursAgo = Math.floor((Date.now() - createdAt.getTime()) / (1000 * 60 * 60))
       addToast({
         type: 'error',
         title: 'Cannot edit entry',
-        description: `Entries can only be edited within 24 hours. This entry was created ${hoursAgo} hours ago.`
+        description: getEditLockReason(getEditPolicy(settings))
       })
       return
     }
     
     // Navigate to journal view with entry to edit
-    setCurrentView('journal')
+    openJournal(entry.id)
   }
 
+  // Deleting moves the entry to the trash, where it can be restored later
   const handleDelete = async (entry: Entry) => {
-    if (!confirm('Are you sure you want to delete this entry? This action cannot be undone.')) {
-      return
-    }
-
     try {
-      await db.entries.delete(entry.id)
+      setStreak(await dbUtils.trashEntry(entry.id))
       setEntries(prev => prev.filter(e => e.id !== entry.id))
       
       // Show undo toast
       const undoToast = addToast({
         type: 'success',
-        title: 'Entry deleted',
-        description: 'Click to undo within 5 seconds',
+        title: 'Moved to Trash',
+        description: 'You can restore it from the Trash.',
         duration: 5000,
         action: {
           label: 'Undo',
           onClick: async () => {
             try {
-              await db.entries.put(entry)
+              setStreak(await dbUtils.restoreEntry(entry.id))
               setEntries(prev => {
                 const newEntries = [...prev, entry]
                 return newEntries.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
@@ -181,6 +192,10 @@ export function Last7DaysView() {
             <p className="text-sm text-muted-foreground">{entries.length} entries found</p>
           </div>
         </div>
+        <Button variant="outline" size="sm" onClick={() => setCurrentView('review')}>
+          <ClipboardList className="w-4 h-4 mr-2" />
+          Weekly Review
+        </Button>
       </div>
 
       <div className="container mx-auto px-4 py-6">
@@ -190,88 +205,123 @@ export function Last7DaysView() {
               <Calendar className="w-16 h-16 mx-auto mb-4 text-muted-foreground/50" />
               <h3 className="text-lg font-medium mb-2">No recent entries</h3>
               <p className="text-muted-foreground mb-6">
-                You haven't created any journal entries in the last 7 days.
+                You haven&apos;t created any journal entries in the last 7 days.
               </p>
-              <Button onClick={() => setCurrentView('journal')}>
+              <Button onClick={() => openJournal()}>
                 <Calendar className="w-4 h-4 mr-2" />
                 Start Your First Entry
               </Button>
             </CardContent>
           </Card>
         ) : (
-          <div className="space-y-4">
-            {entries.map((entry) => (
-              <Card key={entry.id} className="transition-shadow hover:shadow-md">
-                <CardHeader className="pb-3">
-                  <div className="flex items-start justify-between">
-                    <div>
-                      <CardTitle className="text-base">{formatDate(entry.dateLocal)}</CardTitle>
-                      <CardDescription className="text-xs">
-                        {getHoursAgo(entry.created_at)}
-                        {entry.edited_at && entry.edited_at !== entry.created_at && (
-                          <span className="ml-2 text-muted-foreground">• Edited</span>
-                        )}
-                      </CardDescription>
-                    </div>
-                    <div className="flex items-center gap-2">
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => handleEdit(entry)}
-                        disabled={!canEdit(entry)}
-                        className="p-2"
-                        aria-label={canEdit(entry) ? 'Edit entry' : 'Cannot edit (>24h old)'}
-                      >
-                        <Edit2 className={`w-4 h-4 ${canEdit(entry) ? '' : 'text-muted-foreground/50'}`} />
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => handleDelete(entry)}
-                        className="p-2 text-destructive hover:text-destructive"
-                        aria-label="Delete entry"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </Button>
-                    </div>
-                  </div>
-                </CardHeader>
-                <CardContent className="pt-0">
-                  <div className="space-y-3">
-                    {entry.setback && (
-                      <div>
-                        <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">
-                          Setback Visualization
-                        </h4>
-                        <p className="text-sm leading-relaxed">{getExcerpt(entry.setback, 150)}</p>
+          <div className="space-y-8">
+            {groupEntriesByDay(entries).map((group, groupIndex) => (
+              <section key={`${group.dateLocal}-${groupIndex}`} className="space-y-4">
+                <h2 className="text-sm font-medium text-muted-foreground">
+                  {formatDate(group.dateLocal)}
+                  {group.entries.length > 1 && ` • ${group.entries.length} entries`}
+                </h2>
+                {group.entries.map((entry) => (
+                  <Card key={entry.id} className="transition-shadow hover:shadow-md">
+                    <CardHeader className="pb-3">
+                      <div className="flex items-start justify-between">
+                        <div>
+                          <CardTitle className="text-base">{formatTime(entry.created_at)}</CardTitle>
+                          <CardDescription className="text-xs">
+                            {getHoursAgo(entry.created_at)}
+                            {entry.edited_at && entry.edited_at !== entry.created_at && (
+                              <span className="ml-2 text-muted-foreground">• Edited</span>
+                            )}
+                          </CardDescription>
+                          {promptTexts[entry.prompt_id] && (
+                            <button
+                              type="button"
+                              onClick={() => openPromptHistory(entry.prompt_id)}
+                              className="block text-left text-xs text-muted-foreground italic mt-1 hover:text-foreground hover:underline"
+                              title="See all your answers to this prompt"
+                            >
+                              {promptTexts[entry.prompt_id]}
+                            </button>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {entry.edited_at && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setHistoryEntry(entry)}
+                              className="p-2"
+                              aria-label="View edit history"
+                            >
+                              <History className="w-4 h-4" />
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleEdit(entry)}
+                            disabled={!canEdit(entry)}
+                            className="p-2"
+                            aria-label={canEdit(entry) ? 'Edit entry' : 'Editing is locked for this entry'}
+                          >
+                            <Edit2 className={`w-4 h-4 ${canEdit(entry) ? '' : 'text-muted-foreground/50'}`} />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(entry)}
+                            className="p-2 text-destructive hover:text-destructive"
+                            aria-label="Delete entry"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
                       </div>
-                    )}
-                    {entry.protective_step && (
-                      <div>
-                        <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">
-                          Protective Step
-                        </h4>
-                        <p className="text-sm leading-relaxed">{getExcerpt(entry.protective_step, 150)}</p>
-                      </div>
-                    )}
-                    {entry.gratitude && (
-                      <div>
-                        <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">
-                          Gratitude
-                        </h4>
-                        <p className="text-sm leading-relaxed">{getExcerpt(entry.gratitude, 150)}</p>
+                    </CardHeader>
+                    <CardContent className="pt-0">
+                      <div className="space-y-3">
+                        {entry.setback && (
+                          <div>
+                            <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">
+                              Setback Visualization
+                            </h4>
+                            <p className="text-sm leading-relaxed">{getExcerpt(entry.setback, 150)}</p>
+                          </div>
+                        )}
+                        {entry.protective_step && (
+                          <div>
+                            <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">
+                              Protective Step
+                            </h4>
+                            <p className="text-sm leading-relaxed">{getExcerpt(entry.protective_step, 150)}</p>
+                            <ActionItemControl entry={entry} />
+                          </div>
+                        )}
+                        {entry.gratitude && (
+                          <div>
+                            <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">
+                              Gratitude
+                            </h4>
+                            <p className="text-sm leading-relaxed">{getExcerpt(entry.gratitude, 150)}</p>
+                          </div>
+                        )}
                       </div>
-                    )}
-                  </div>
-                  
-                  {!canEdit(entry) && (
-                    <div className="flex items-center gap-2 mt-4 text-xs text-muted-foreground">
-                      <Clock className="w-3 h-3" />
-                      <span>Editing disabled (entry is more than 24 hours old)</span>
-                    </div>
-                  )}
-                </CardContent>
-              </Card>
+                      
+                      <EntryAddenda
+                        entry={entry}
+                        onAdded={(updated) => setEntries(prev => prev.map(e => e.id === updated.id ? updated : e))}
+                      />
+
+                      {!canEdit(entry) && (
+                        <div className="flex items-center gap-2 mt-4 text-xs text-muted-foreground">
+                          <Clock className="w-3 h-3" />
+                          <span>{getEditLockReason(getEditPolicy(settings))}</span>
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                ))}
+              </section>
             ))}
           </div>
         )}
@@ -286,6 +336,15 @@ export function Last7DaysView() {
           </Button>
         </div>
       </div>
+
+      <EntryHistoryModal
+        entry={historyEntry}
+        onClose={() => setHistoryEntry(null)}
+        onRestored={(restored) => {
+          setEntries(prev => prev.map(e => e.id === restored.id ? restored : e))
+          setHistoryEntry(restored)
+        }}
+      />
     </div>
   )
 }
\ No newline at end of file
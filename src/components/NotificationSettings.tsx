@@ -199,7 +199,7 @@ export function NotificationSettings({ settings, onSettingsUpdate }: Notificatio
             <div>
               <CardTitle className="text-lg text-yellow-800">Notifications Not Available</CardTitle>
               <CardDescription className="text-yellow-700">
-                Your browser doesn't support notifications
+                Your browser doesn&apos;t support notifications
               </CardDescription>
             </div>
           </div>
@@ -221,7 +221,7 @@ export function NotificationSettings({ settings, onSettingsUpdate }: Notificatio
             {getPermissionIcon()}
             <div>
               <CardTitle className="text-lg">Daily Reminders</CardTitle>
-              <CardDescription>Get notified when it's time to reflect</CardDescription>
+              <CardDescription>Get notified when it&apos;s time to reflect</CardDescription>
             </div>
           </div>
           {getPermissionBadge()}
@@ -342,7 +342,7 @@ export function NotificationSettings({ settings, onSettingsUpdate }: Notificatio
           <p className="mb-2"><strong>About Daily Reminders:</strong></p>
           <ul className="space-y-1 list-disc list-inside">
             <li>Notifications only work when the app is open in your browser</li>
-            <li>If notifications fail, you'll see an in-app reminder instead</li>
+            <li>If notifications fail, you&apos;ll see an in-app reminder instead</li>
             <li>You can change or disable reminders anytime</li>
             <li>Settings are saved locally on your device</li>
           </ul>
@@ -0,0 +1,105 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { ChevronDown, ChevronUp, History } from 'lucide-react'
+import { useAppStore } from '@/lib/store'
+import { usePinContext } from '@/lib/pin-context'
+import { dbUtils, Entry } from '@/lib/database'
+import { DEFAULT_ENTRY_FILTERS } from '@/lib/entry-filters'
+import { describeTimeAgo, isOnThisDayEnabled } from '@/lib/on-this-day'
+
+const getExcerpt = (text: string, maxLength: number = 120) =>
+  text.length <= maxLength ? text : text.substring(0, maxLength).trim() + '...'
+
+// Entries from this date in earlier months and years. Decrypted text is
+// only held while the journal is unlocked.
+export function OnThisDayCard() {
+  const { settings, openEntries } = useAppStore()
+  const { isLocked } = usePinContext()
+  const [entries, setEntries] = useState<Entry[]>([])
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  const enabled = isOnThisDayEnabled(settings)
+
+  useEffect(() => {
+    if (!enabled || isLocked) {
+      setEntries([])
+      return
+    }
+
+    dbUtils.getOnThisDayEntries()
+      .then(setEntries)
+      .catch(error => console.warn('Failed to load on this day entries:', error))
+  }, [enabled, isLocked])
+
+  if (!enabled || isLocked || entries.length === 0) return null
+
+  const today = dbUtils.getTodayLocal()
+
+  // Open All Entries on that day without touching the saved filters
+  const handleShowDay = (dateLocal: string) => {
+    openEntries({ ...DEFAULT_ENTRY_FILTERS, from: dateLocal, to: dateLocal })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <History className="w-4 h-4" />
+          On This Day
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {entries.map(entry => {
+          const isExpanded = expandedId === entry.id
+          return (
+            <div key={entry.id} className="space-y-2 border-l-2 border-primary/30 pl-3">
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-xs font-medium text-muted-foreground">
+                  {describeTimeAgo(entry.dateLocal, today)}
+                  <span className="font-normal ml-2">
+                    {new Date(entry.dateLocal + 'T00:00:00').toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                  </span>
+                </p>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                  className="p-2"
+                  aria-expanded={isExpanded}
+                  aria-label={isExpanded ? 'Show less' : 'Read the full entry'}
+                >
+                  {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                </Button>
+              </div>
+
+              {isExpanded ? (
+                <div className="space-y-3">
+                  {[
+                    { label: 'Setback Visualization', text: entry.setback },
+                    { label: 'Protective Step', text: entry.protective_step },
+                    { label: 'Gratitude', text: entry.gratitude }
+                  ].filter(field => field.text).map(field => (
+                    <div key={field.label}>
+                      <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">
+                        {field.label}
+                      </h4>
+                      <p className="text-sm leading-relaxed whitespace-pre-wrap">{field.text}</p>
+                    </div>
+                  ))}
+                  <Button variant="outline" size="sm" onClick={() => handleShowDay(entry.dateLocal)}>
+                    Show in All Entries
+                  </Button>
+                </div>
+              ) : (
+                <p className="text-sm italic leading-relaxed">{getExcerpt(entry.setback || entry.gratitude)}</p>
+              )}
+            </div>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,69 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { History } from 'lucide-react'
+import { useAppStore } from '@/lib/store'
+import { db } from '@/lib/database'
+import { isOnThisDayEnabled } from '@/lib/on-this-day'
+import { useToast } from '@/components/ui/toast'
+
+export function OnThisDaySettings() {
+  const { settings, setSettings } = useAppStore()
+  const { addToast } = useToast()
+  const [isSaving, setIsSaving] = useState(false)
+
+  const enabled = isOnThisDayEnabled(settings)
+
+  const handleToggle = async () => {
+    if (!settings) return
+
+    try {
+      setIsSaving(true)
+      const updatedSettings = { ...settings, showOnThisDay: !enabled }
+      await db.settings.put(updatedSettings)
+      setSettings(updatedSettings)
+    } catch (error) {
+      console.error('Failed to save on this day preference:', error)
+      addToast({
+        type: 'error',
+        title: 'Save Failed',
+        description: 'Unable to save your preference. Please try again.'
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="w-5 h-5" />
+          On This Day
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h4 className="font-medium text-sm">Show Past Entries</h4>
+            <p className="text-xs text-muted-foreground">
+              Bring back entries written on today&apos;s date in earlier months and years. Entries stay hidden while the journal is locked.
+            </p>
+          </div>
+          <Button
+            variant={enabled ? 'default' : 'outline'}
+            size="sm"
+            onClick={handleToggle}
+            disabled={isSaving}
+            aria-pressed={enabled}
+            className="flex-shrink-0"
+          >
+            {enabled ? 'On' : 'Off'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,156 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Scale } from 'lucide-react'
+import { useAppStore } from '@/lib/store'
+import { dbUtils, Entry, OutcomeAnswer, OutcomeSeverity } from '@/lib/database'
+import { OUTCOME_ANSWERS, OUTCOME_SEVERITIES, formatCheckpoint } from '@/lib/outcomes'
+import { useToast } from '@/components/ui/toast'
+
+function AnswerButtons<T extends string>({ options, value, onChange, label }: {
+  options: { value: T; label: string }[]
+  value: T | null
+  onChange: (value: T) => void
+  label: string
+}) {
+  return (
+    <div className="flex flex-wrap gap-2" role="group" aria-label={label}>
+      {options.map(option => (
+        <Button
+          key={option.value}
+          variant={value === option.value ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => onChange(option.value)}
+          aria-pressed={value === option.value}
+        >
+          {option.label}
+        </Button>
+      ))}
+    </div>
+  )
+}
+
+// Brings back a past entry at 30, 90 and 365 days and asks what really
+// happened to the setback it imagined
+export function OutcomeReviewCard() {
+  const { setCurrentView } = useAppStore()
+  const { addToast } = useToast()
+  const [review, setReview] = useState<{ entry: Entry; checkpointDays: number } | null>(null)
+  const [happened, setHappened] = useState<OutcomeAnswer | null>(null)
+  const [severity, setSeverity] = useState<OutcomeSeverity | null>(null)
+  const [tookStep, setTookStep] = useState<OutcomeAnswer | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const loadReview = useCallback(async () => {
+    try {
+      setReview(await dbUtils.getDueOutcomeReview())
+      setHappened(null)
+      setSeverity(null)
+      setTookStep(null)
+    } catch (error) {
+      // Most likely the journal is locked; the review waits for the next visit
+      console.warn('Failed to load outcome review:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadReview()
+  }, [loadReview])
+
+  if (!review) return null
+
+  const { entry, checkpointDays } = review
+  const needsSeverity = happened === 'yes' || happened === 'partly'
+  const isComplete = happened !== null && tookStep !== null && (!needsSeverity || severity !== null)
+
+  const saveReview = async (skip: boolean) => {
+    try {
+      setIsSaving(true)
+      await dbUtils.saveOutcome({
+        entry_id: entry.id,
+        checkpoint_days: checkpointDays,
+        happened: skip ? null : happened,
+        severity: !skip && needsSeverity && severity ? severity : undefined,
+        took_step: skip ? null : tookStep,
+      })
+      if (!skip) {
+        addToast({
+          type: 'success',
+          title: 'Outcome Recorded',
+          description: 'It now counts toward your fears vs reality report.'
+        })
+      }
+      await loadReview()
+    } catch (error) {
+      console.error('Failed to save outcome:', error)
+      addToast({
+        type: 'error',
+        title: 'Save Failed',
+        description: 'Unable to save your answers. Please try again.'
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const writtenOn = new Date(entry.dateLocal + 'T00:00:00').toLocaleDateString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric'
+  })
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Scale className="w-4 h-4" />
+          Looking Back
+        </CardTitle>
+        <CardDescription>
+          {formatCheckpoint(checkpointDays)} ago, on {writtenOn}, you imagined:
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <blockquote className="border-l-2 border-primary/30 pl-3 text-sm italic leading-relaxed">
+          {entry.setback}
+        </blockquote>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Did this happen?</h4>
+          <AnswerButtons options={OUTCOME_ANSWERS} value={happened} onChange={setHappened} label="Did this happen?" />
+        </div>
+
+        {needsSeverity && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">How bad was it really?</h4>
+            <AnswerButtons options={OUTCOME_SEVERITIES} value={severity} onChange={setSeverity} label="How bad was it really?" />
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Did you take the protective step?</h4>
+          {entry.protective_step && (
+            <p className="text-xs text-muted-foreground">{entry.protective_step}</p>
+          )}
+          <AnswerButtons options={OUTCOME_ANSWERS} value={tookStep} onChange={setTookStep} label="Did you take the protective step?" />
+        </div>
+
+        <div className="flex items-center justify-between gap-2 pt-2">
+          <Button variant="ghost" size="sm" onClick={() => setCurrentView('outcomes')}>
+            Fears vs Reality
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => saveReview(true)} disabled={isSaving}>
+              Skip
+            </Button>
+            <Button size="sm" onClick={() => saveReview(false)} disabled={isSaving || !isComplete}>
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
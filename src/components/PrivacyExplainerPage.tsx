@@ -66,7 +66,7 @@ export function PrivacyExplainerPage({ showBackButton = true, onBack }: PrivacyE
               </div>
               <CardTitle className="text-2xl">Your Privacy Matters</CardTitle>
               <p className="text-muted-foreground">
-                Your journal is completely private and secure. Here's exactly how your data is handled.
+                Your journal is completely private and secure. Here&apos;s exactly how your data is handled.
               </p>
             </CardHeader>
           </Card>
@@ -86,7 +86,7 @@ export function PrivacyExplainerPage({ showBackButton = true, onBack }: PrivacyE
                   <div>
                     <h4 className="font-medium text-sm">IndexedDB Storage</h4>
                     <p className="text-sm text-muted-foreground">
-                      All your journal entries, settings, and streaks are stored in your browser's IndexedDB. 
+                      All your journal entries, settings, and streaks are stored in your browser&apos;s IndexedDB. 
                       This is a secure, local database that only your device can access.
                     </p>
                   </div>
@@ -204,7 +204,7 @@ export function PrivacyExplainerPage({ showBackButton = true, onBack }: PrivacyE
           {/* What We Don't Collect */}
           <Card>
             <CardHeader>
-              <CardTitle>What We Don't Collect</CardTitle>
+              <CardTitle>What We Don&apos;t Collect</CardTitle>
             </CardHeader>
             <CardContent>
               <div className="grid gap-3 text-sm">
@@ -1,70 +1,147 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef, useCallback } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
-import { CheckCircle, Clock, ArrowLeft, Save, Flame } from 'lucide-react'
+import { CheckCircle, Clock, ArrowLeft, Save, Flame, Pause, Play, Lock } from 'lucide-react'
 import { useAppStore } from '@/lib/store'
-import { dbUtils, db } from '@/lib/database'
+import { dbUtils, db, NEW_DRAFT_ID } from '@/lib/database'
 import { promptUtils } from '@/lib/prompts'
+import { getEditLockReason, getEditPolicy } from '@/lib/edit-policy'
 import { useCompletionAnimation } from '@/components/CompletionAnimation'
 import { useToast } from '@/components/ui/toast'
 import { telemetryService } from '@/lib/telemetry'
+import { WRITING_TARGET_SECONDS, formatDuration, getTimerPreferences, playSessionEndCue } from '@/lib/writing-time'
+import { toDateLocal } from '@/lib/streaks'
 
-interface TimerProps {
-  onTimeout?: () => void
-  duration?: number
-}
+// Time spent writing in this session. The clock stops while the tab is hidden
+// or the window loses focus, and picks up again when the user comes back.
+// A manual pause holds until the user resumes.
+function useWritingTimer() {
+  const accumulatedMsRef = useRef(0)
+  const activeSinceRef = useRef<number | null>(Date.now())
+  const manualPauseRef = useRef(false)
+  const [isPaused, setIsPaused] = useState(false)
+  const [isManuallyPaused, setIsManuallyPaused] = useState(false)
+  const [, setTick] = useState(0)
 
-function Timer({ onTimeout, duration = 300 }: TimerProps) {
-  const [timeLeft, setTimeLeft] = useState(duration)
-  const [isActive, setIsActive] = useState(true)
+  const stopClock = useCallback(() => {
+    if (activeSinceRef.current === null) return
+    accumulatedMsRef.current += Date.now() - activeSinceRef.current
+    activeSinceRef.current = null
+    setIsPaused(true)
+  }, [])
+
+  const startClock = useCallback(() => {
+    if (activeSinceRef.current !== null || manualPauseRef.current) return
+    if (document.visibilityState !== 'visible') return
+    activeSinceRef.current = Date.now()
+    setIsPaused(false)
+  }, [])
 
   useEffect(() => {
-    let interval: NodeJS.Timeout | null = null
-    
-    if (isActive && timeLeft > 0) {
-      interval = setInterval(() => {
-        setTimeLeft(time => {
-          if (time <= 1) {
-            setIsActive(false)
-            onTimeout?.()
-            return 0
-          }
-          return time - 1
-        })
-      }, 1000)
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') stopClock()
+      else if (document.hasFocus()) startClock()
     }
 
+    window.addEventListener('blur', stopClock)
+    window.addEventListener('focus', startClock)
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    const interval = setInterval(() => setTick(tick => tick + 1), 1000)
+
     return () => {
-      if (interval) clearInterval(interval)
+      window.removeEventListener('blur', stopClock)
+      window.removeEventListener('focus', startClock)
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+      clearInterval(interval)
     }
-  }, [isActive, timeLeft, onTimeout])
+  }, [stopClock, startClock])
+
+  const togglePause = useCallback(() => {
+    manualPauseRef.current = !manualPauseRef.current
+    setIsManuallyPaused(manualPauseRef.current)
+    if (manualPauseRef.current) stopClock()
+    else startClock()
+  }, [stopClock, startClock])
+
+  const getElapsedSeconds = useCallback(() => {
+    const activeMs = activeSinceRef.current !== null ? Date.now() - activeSinceRef.current : 0
+    return Math.floor((accumulatedMsRef.current + activeMs) / 1000)
+  }, [])
 
+  // Carry over time from an earlier session, e.g. a restored draft
+  const addElapsedSeconds = useCallback((seconds: number) => {
+    accumulatedMsRef.current += seconds * 1000
+  }, [])
+
+  return { elapsedSeconds: getElapsedSeconds(), isPaused, isManuallyPaused, togglePause, getElapsedSeconds, addElapsedSeconds }
+}
+
+// Drafts are written this long after the last keystroke
+const DRAFT_SAVE_DELAY_MS = 1000
+
+// "at 9:15 PM", or "on Oct 18 at 11:55 PM" for a draft from an earlier day
+const formatDraftTime = (iso: string, today: string) => {
+  const date = new Date(iso)
+  const time = date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })
+  return toDateLocal(date) === today
+    ? `at ${time}`
+    : `on ${date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} at ${time}`
+}
+
+interface TimerProps {
+  elapsedSeconds: number
+  isPaused: boolean
+  isManuallyPaused: boolean
+  onTogglePause: () => void
+  duration?: number
+}
+
+function Timer({ elapsedSeconds, isPaused, isManuallyPaused, onTogglePause, duration = WRITING_TARGET_SECONDS }: TimerProps) {
+  const timeLeft = Math.max(0, duration - elapsedSeconds)
   const minutes = Math.floor(timeLeft / 60)
   const seconds = timeLeft % 60
   const percentage = ((duration - timeLeft) / duration) * 100
+  const isComplete = timeLeft === 0
 
   return (
-    <div className="flex items-center gap-2 text-sm text-muted-foreground">
-      <Clock className="w-4 h-4" />
-      <span>{minutes}:{seconds.toString().padStart(2, '0')}</span>
+    <div className={`flex items-center gap-2 text-sm ${isComplete ? 'text-primary' : 'text-muted-foreground'}`}>
+      {isComplete ? <CheckCircle className="w-4 h-4" /> : isPaused ? <Pause className="w-4 h-4" /> : <Clock className="w-4 h-4" />}
+      <span role="timer" aria-live="off">{minutes}:{seconds.toString().padStart(2, '0')}</span>
       <div className="w-16 h-1 bg-muted rounded-full overflow-hidden">
         <div 
-          className="h-full bg-primary transition-all duration-1000 ease-linear"
+          className={`h-full bg-primary transition-all duration-1000 ease-linear ${isComplete ? 'animate-pulse' : ''}`}
           style={{ width: `${percentage}%` }}
         />
       </div>
+      {isComplete ? (
+        <span className="text-xs" aria-live="polite">Time&apos;s up</span>
+      ) : (
+        <>
+          {isPaused && <span className="text-xs">Paused</span>}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onTogglePause}
+            className="h-6 w-6 p-0"
+            aria-label={isManuallyPaused ? 'Resume timer' : 'Pause timer'}
+          >
+            {isManuallyPaused ? <Play className="w-3 h-3" /> : <Pause className="w-3 h-3" />}
+          </Button>
+        </>
+      )}
     </div>
   )
 }
 
 export function PromptEntry() {
-  const { settings, todayEntry, setTodayEntry, setCurrentView, streak, setStreak } = useAppStore()
+  const { settings, todayEntry, setTodayEntry, activeEntryId, setCurrentView, openPromptHistory, streak, setStreak } = useAppStore()
   const { addToast } = useToast()
   const { isShowing, showAnimation, CompletionAnimation } = useCompletionAnimation()
   const [prompt, setPrompt] = useState<string>('')
+  const [promptId, setPromptId] = useState<string>('')
   const [formData, setFormData] = useState({
     setback: '',
     protective_step: '',
@@ -74,6 +151,104 @@ export function PromptEntry() {
   const [isSaving, setIsSaving] = useState(false)
   const [errors, setErrors] = useState<Record<string, string>>({})
   const [streakInfo, setStreakInfo] = useState<{ isFirstToday: boolean, newStreak?: number } | null>(null)
+  const { elapsedSeconds, isPaused, isManuallyPaused, togglePause, getElapsedSeconds, addElapsedSeconds } = useWritingTimer()
+  // Seconds of this session already added to the saved entry
+  const countedSecondsRef = useRef(0)
+  const hasCuedRef = useRef(false)
+  const timerPreferences = getTimerPreferences(settings)
+
+  // Autosave starts once any saved draft has been checked, so the empty form
+  // can't overwrite it
+  const draftCheckedRef = useRef(false)
+  const draftTimerRef = useRef<NodeJS.Timeout | null>(null)
+  const draftSaveRef = useRef<Promise<void>>(Promise.resolve())
+  // Day the open draft was started. It keeps its key after midnight so a
+  // restored draft is updated rather than copied.
+  const draftDateRef = useRef<string | null>(null)
+  const formDataRef = useRef(formData)
+  const todayEntryRef = useRef(todayEntry)
+  formDataRef.current = formData
+  todayEntryRef.current = todayEntry
+
+  // The form loads once per entry. Settings are read through a ref so saving a
+  // preference (or writing time) doesn't reload the entry over unsaved text.
+  const settingsRef = useRef(settings)
+  settingsRef.current = settings
+  const settingsLoaded = !!settings
+
+  // Writing time the entry will have if saved now
+  const reflectedSeconds = (todayEntry?.duration_seconds || 0) + elapsedSeconds - countedSecondsRef.current
+  const softLockSecondsLeft = Math.max(0, timerPreferences.minimumSeconds - reflectedSeconds)
+
+  useEffect(() => {
+    if (hasCuedRef.current || elapsedSeconds < timerPreferences.durationSeconds) return
+    hasCuedRef.current = true
+
+    if (timerPreferences.soundEnabled) playSessionEndCue()
+    addToast({
+      type: 'info',
+      title: 'Session Complete',
+      description: 'Finish your thought and save when you\'re ready.',
+      duration: 5000
+    })
+  }, [elapsedSeconds, timerPreferences.durationSeconds, timerPreferences.soundEnabled, addToast])
+
+  const saveDraftNow = useCallback(() => {
+    if (draftTimerRef.current) {
+      clearTimeout(draftTimerRef.current)
+      draftTimerRef.current = null
+    }
+
+    const data = formDataRef.current
+    const entry = todayEntryRef.current
+    const draftDate = draftDateRef.current ??= dbUtils.getTodayLocal()
+    const unchanged = entry
+      ? data.setback === entry.setback && data.protective_step === entry.protective_step && data.gratitude === entry.gratitude
+      : !data.setback && !data.protective_step && !data.gratitude
+
+    const save = async () => {
+      try {
+        if (unchanged) {
+          await dbUtils.deleteDraft(draftDate, entry?.id || NEW_DRAFT_ID)
+          return
+        }
+        await dbUtils.saveDraft({
+          dateLocal: draftDate,
+          entry_id: entry?.id || NEW_DRAFT_ID,
+          ...data,
+          duration_seconds: getElapsedSeconds() - countedSecondsRef.current,
+          updated_at: new Date().toISOString()
+        })
+      } catch (error) {
+        console.warn('Failed to save draft:', error)
+      }
+    }
+
+    draftSaveRef.current = draftSaveRef.current.then(save)
+    return draftSaveRef.current
+  }, [getElapsedSeconds])
+
+  useEffect(() => {
+    if (!draftCheckedRef.current) return
+    if (draftTimerRef.current) clearTimeout(draftTimerRef.current)
+    draftTimerRef.current = setTimeout(saveDraftNow, DRAFT_SAVE_DELAY_MS)
+  }, [formData, saveDraftNow])
+
+  // Write a pending draft straight away when the window loses focus (the
+  // session may lock right after), when the page is closed, or on leaving
+  useEffect(() => {
+    const flushDraft = () => {
+      if (draftTimerRef.current) saveDraftNow()
+    }
+
+    window.addEventListener('blur', flushDraft)
+    window.addEventListener('pagehide', flushDraft)
+    return () => {
+      window.removeEventListener('blur', flushDraft)
+      window.removeEventListener('pagehide', flushDraft)
+      flushDraft()
+    }
+  }, [saveDraftNow])
 
   useEffect(() => {
     const loadTodayPrompt = async () => {
@@ -83,22 +258,55 @@ export function PromptEntry() {
         // Initialize seed prompts if needed
         await promptUtils.initializeSeedPrompts()
         
-        // Get current prompt (considering any swaps)
-        const installDate = settings?.installAt || new Date().toISOString()
-        const todayPrompt = await promptUtils.getCurrentPrompt(installDate)
-        setPrompt(todayPrompt.text)
-
-        // Check if there's already an entry for today
+        // Load the entry being edited, if any. A trashed entry can't be edited.
         const today = dbUtils.getTodayLocal()
-        const existingEntry = await db.entries.where('dateLocal').equals(today).first()
-        
+        const storedEntry = activeEntryId ? await db.entries.get(activeEntryId) : undefined
+        const existingEntry = storedEntry && !storedEntry.deleted_at ? await dbUtils.decryptEntry(storedEntry) : null
+
+        // An entry keeps the prompt it was written for. A new entry gets a
+        // prompt that none of today's entries has used yet.
+        const installDate = settingsRef.current?.installAt || new Date().toISOString()
+        let entryPrompt
+        if (existingEntry) {
+          entryPrompt = await db.prompts.get(existingEntry.prompt_id)
+        } else {
+          const todayEntries = await db.entries.where('dateLocal').equals(today).filter(e => !e.deleted_at).toArray()
+          entryPrompt = await promptUtils.getPromptForNewEntry(installDate, todayEntries.map(e => e.prompt_id))
+        }
+        const shownPrompt = entryPrompt || await promptUtils.getCurrentPrompt(installDate)
+        setPrompt(shownPrompt.text)
+        setPromptId(existingEntry?.prompt_id || shownPrompt.id)
+
+        setTodayEntry(existingEntry)
         if (existingEntry) {
           setFormData({
             setback: existingEntry.setback,
             protective_step: existingEntry.protective_step,
             gratitude: existingEntry.gratitude
           })
-          setTodayEntry(existingEntry)
+        }
+
+        // Restore the latest draft left for this entry (or for a new entry),
+        // even one from an earlier day. Drafts of other entries are left for
+        // TodayCard to offer.
+        if (!draftCheckedRef.current) {
+          const draft = await dbUtils.getLatestDraft(existingEntry?.id || NEW_DRAFT_ID)
+          if (draft) {
+            draftDateRef.current = draft.dateLocal
+            setFormData({
+              setback: draft.setback,
+              protective_step: draft.protective_step,
+              gratitude: draft.gratitude
+            })
+            addElapsedSeconds(draft.duration_seconds || 0)
+            addToast({
+              type: 'info',
+              title: 'Draft Restored',
+              description: `Picked up where you left off ${formatDraftTime(draft.updated_at, today)}.`,
+              duration: 4000
+            })
+          }
+          draftCheckedRef.current = true
         }
       } catch (error) {
         console.error('Failed to load prompt:', error)
@@ -109,7 +317,7 @@ export function PromptEntry() {
     }
 
     loadTodayPrompt()
-  }, [settings, setTodayEntry])
+  }, [settingsLoaded, activeEntryId, setTodayEntry, addElapsedSeconds, addToast])
 
   const validateForm = () => {
     const newErrors: Record<string, string> = {}
@@ -137,19 +345,30 @@ export function PromptEntry() {
   }
 
   const handleSave = async () => {
-    if (!validateForm()) return
+    if (!validateForm() || softLockSecondsLeft > 0) return
+
+    // The edit window may have closed while the entry was open
+    if (todayEntry && !dbUtils.canEditEntry(todayEntry, settings)) {
+      addToast({
+        type: 'error',
+        title: 'Cannot edit entry',
+        description: getEditLockReason(getEditPolicy(settings))
+      })
+      return
+    }
 
     try {
       setIsSaving(true)
       const today = dbUtils.getTodayLocal()
       const now = new Date().toISOString()
 
-      // Get current prompt for the entry (considering any swaps)
-      const installDate = settings?.installAt || now
-      const todayPrompt = await promptUtils.getCurrentPrompt(installDate)
-
       let entry
-      let streakResult
+      let streakData
+      let isFirstToday = false
+
+      // Writing time adds up across every session spent on the entry
+      const sessionSeconds = getElapsedSeconds()
+      const newSeconds = sessionSeconds - countedSecondsRef.current
       
       if (todayEntry) {
         // Update existing entry
@@ -158,43 +377,48 @@ export function PromptEntry() {
           setback: formData.setback.trim(),
           protective_step: formData.protective_step.trim(),
           gratitude: formData.gratitude.trim(),
-          edited_at: now
+          edited_at: now,
+          duration_seconds: (todayEntry.duration_seconds || 0) + newSeconds
         }
-        await db.entries.put(entry)
-        
-        // Still check streak info for existing entries to show proper toast
-        streakResult = await dbUtils.updateStreak(today)
+        streakData = await dbUtils.putEntry(entry)
         setStreakInfo({ isFirstToday: false })
       } else {
         // Create new entry
         entry = {
           id: `entry-${Date.now()}`,
           dateLocal: today,
-          prompt_id: todayPrompt.id,
+          prompt_id: promptId,
           setback: formData.setback.trim(),
           protective_step: formData.protective_step.trim(),
           gratitude: formData.gratitude.trim(),
-          created_at: now
+          created_at: now,
+          duration_seconds: newSeconds
         }
-        await db.entries.add(entry)
-        
-        // Update streak for new entries and get result
-        streakResult = await dbUtils.updateStreak(today)
+        streakData = await dbUtils.addEntry(entry)
+        isFirstToday = await dbUtils.isFirstEntryForDate(today)
         setStreakInfo({ 
-          isFirstToday: streakResult.isFirstToday, 
-          newStreak: streakResult.streakData.current_streak 
+          isFirstToday, 
+          newStreak: streakData.current_streak 
         })
-        
-        // Update streak in store
-        if (streakResult.updated) {
-          setStreak(streakResult.streakData)
-        }
       }
 
+      // Streaks are recomputed from entries on every save
+      setStreak(streakData)
+      countedSecondsRef.current = sessionSeconds
+
+      // The entry is saved, so the draft is no longer needed
+      if (draftTimerRef.current) {
+        clearTimeout(draftTimerRef.current)
+        draftTimerRef.current = null
+      }
+      await draftSaveRef.current
+      await dbUtils.deleteDraft(draftDateRef.current || today, todayEntry?.id || NEW_DRAFT_ID)
+      draftDateRef.current = null
+
       setTodayEntry(entry)
       
       // Send telemetry for daily completion if this is a new entry for today
-      if (streakResult?.isFirstToday) {
+      if (isFirstToday) {
         try {
           await telemetryService.sendDailyCompletionEvent()
         } catch (error) {
@@ -205,7 +429,7 @@ export function PromptEntry() {
       
       // Show success animation with appropriate message
       const successMessage = streakInfo?.isFirstToday 
-        ? `Entry saved! ${streakResult?.streakData.current_streak === 1 ? 'Streak started!' : `${streakResult?.streakData.current_streak} day streak!`}`
+        ? `Entry saved! ${streakData.current_streak === 1 ? 'Streak started!' : `${streakData.current_streak} day streak!`}`
         : todayEntry 
         ? 'Entry updated!'
         : 'Entry saved!'
@@ -213,17 +437,17 @@ export function PromptEntry() {
       showAnimation()
       
       // Show appropriate toast
-      if (streakResult?.isFirstToday && streakResult.updated) {
+      if (isFirstToday) {
         addToast({
           type: 'success',
-          title: streakResult.streakData.current_streak === 1 ? 'Streak Started!' : 'Streak Continued!',
-          description: `${streakResult.streakData.current_streak} day${streakResult.streakData.current_streak !== 1 ? 's' : ''} and counting!`,
+          title: streakData.current_streak === 1 ? 'Streak Started!' : 'Streak Continued!',
+          description: `${streakData.current_streak} day${streakData.current_streak !== 1 ? 's' : ''} and counting!`,
           duration: 4000
         })
       } else if (!todayEntry) {
         addToast({
           type: 'info',
-          title: 'Entry Already Recorded',
+          title: 'Entry Added',
           description: 'Multiple entries on the same day don\'t affect your streak.',
           duration: 3000
         })
@@ -267,7 +491,7 @@ export function PromptEntry() {
               <div className="mx-auto mb-4 w-16 h-16 bg-muted rounded-full flex items-center justify-center">
                 <Clock className="w-8 h-8 text-muted-foreground animate-spin" />
               </div>
-              <p className="text-sm text-muted-foreground">Loading today's prompt...</p>
+              <p className="text-sm text-muted-foreground">Loading today&apos;s prompt...</p>
             </div>
           </CardContent>
         </Card>
@@ -289,8 +513,14 @@ export function PromptEntry() {
             <ArrowLeft className="w-5 h-5" />
           </Button>
           <div>
-            <h1 className="text-lg font-semibold">Today's Reflection</h1>
-            <Timer duration={300} />
+            <h1 className="text-lg font-semibold">{todayEntry ? 'Edit Reflection' : 'Today\'s Reflection'}</h1>
+            <Timer
+              elapsedSeconds={elapsedSeconds}
+              isPaused={isPaused}
+              isManuallyPaused={isManuallyPaused}
+              onTogglePause={togglePause}
+              duration={timerPreferences.durationSeconds}
+            />
           </div>
         </div>
       </div>
@@ -302,6 +532,15 @@ export function PromptEntry() {
             <CardDescription className="text-sm leading-relaxed">
               {prompt}
             </CardDescription>
+            {todayEntry && promptId && (
+              <button
+                type="button"
+                onClick={() => openPromptHistory(promptId)}
+                className="text-xs text-primary hover:underline text-left"
+              >
+                Compare with your other answers to this prompt
+              </button>
+            )}
           </CardHeader>
 
           <CardContent className="space-y-6">
@@ -378,7 +617,7 @@ export function PromptEntry() {
 
             <Button
               onClick={handleSave}
-              disabled={!isFormValid || isSaving}
+              disabled={!isFormValid || isSaving || softLockSecondsLeft > 0}
               className="w-full"
               size="lg"
             >
@@ -394,6 +633,12 @@ export function PromptEntry() {
                 </>
               )}
             </Button>
+            {softLockSecondsLeft > 0 && (
+              <p className="flex items-center justify-center gap-2 text-xs text-muted-foreground">
+                <Lock className="w-3 h-3" />
+                Keep reflecting. Saving unlocks in {formatDuration(softLockSecondsLeft)}.
+              </p>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -0,0 +1,129 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Target } from 'lucide-react'
+import { useAppStore } from '@/lib/store'
+import { db, PromptCategory, Settings } from '@/lib/database'
+import { promptUtils, PROMPT_CATEGORIES, CATEGORY_LABELS } from '@/lib/prompts'
+import { useToast } from '@/components/ui/toast'
+
+const WEIGHT_OPTIONS = [
+  { value: 0, label: 'Off' },
+  { value: 1, label: 'Normal' },
+  { value: 2, label: 'More' }
+]
+
+export function PromptFocusSettings() {
+  const { settings, setSettings } = useAppStore()
+  const { addToast } = useToast()
+  const [isSaving, setIsSaving] = useState(false)
+
+  const focusCategory = promptUtils.getActiveFocus(settings)
+  const weights = settings?.promptCategoryWeights || {}
+
+  const saveSettings = async (changes: Partial<Settings>) => {
+    if (!settings) return
+
+    try {
+      setIsSaving(true)
+      const updatedSettings = { ...settings, ...changes }
+      await db.settings.put(updatedSettings)
+      setSettings(updatedSettings)
+    } catch (error) {
+      console.error('Failed to save prompt preferences:', error)
+      addToast({
+        type: 'error',
+        title: 'Save Failed',
+        description: 'Unable to save your prompt preferences. Please try again.'
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleFocusChange = (category: PromptCategory | null) => {
+    saveSettings({
+      promptFocus: category
+        ? { category, weekStart: promptUtils.getWeekStart(promptUtils.getTodayString()) }
+        : undefined
+    })
+  }
+
+  const handleWeightChange = (category: PromptCategory, weight: number) => {
+    saveSettings({ promptCategoryWeights: { ...weights, [category]: weight } })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Target className="w-5 h-5" />
+          Focus &amp; Categories
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          <div>
+            <h4 className="font-medium text-sm">Weekly Focus</h4>
+            <p className="text-xs text-muted-foreground">
+              Spend this week on one theme. The focus ends on Sunday and applies from your next prompt.
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant={focusCategory ? 'outline' : 'default'}
+              size="sm"
+              onClick={() => handleFocusChange(null)}
+              disabled={isSaving}
+            >
+              No focus
+            </Button>
+            {PROMPT_CATEGORIES.map(category => (
+              <Button
+                key={category}
+                variant={focusCategory === category ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => handleFocusChange(category)}
+                disabled={isSaving}
+              >
+                {CATEGORY_LABELS[category]}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <div>
+            <h4 className="font-medium text-sm">Category Mix</h4>
+            <p className="text-xs text-muted-foreground">
+              Turn categories off, or see them twice as often in each rotation.
+            </p>
+          </div>
+          <div className="space-y-2">
+            {PROMPT_CATEGORIES.map(category => (
+              <div key={category} className="flex items-center justify-between gap-3">
+                <span className="text-sm">{CATEGORY_LABELS[category]}</span>
+                <div className="flex gap-1">
+                  {WEIGHT_OPTIONS.map(option => (
+                    <Button
+                      key={option.value}
+                      variant={(weights[category] ?? 1) === option.value ? 'default' : 'outline'}
+                      size="sm"
+                      onClick={() => handleWeightChange(category, option.value)}
+                      disabled={isSaving}
+                      className="h-7 px-2 text-xs"
+                    >
+                      {option.label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,267 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { ArrowLeft, Columns, History } from 'lucide-react'
+import { useAppStore } from '@/lib/store'
+import { db, dbUtils, Entry, Prompt } from '@/lib/database'
+import { CATEGORY_LABELS } from '@/lib/prompts'
+import { INSIGHT_FIELDS } from '@/lib/insights'
+import { diffWords } from '@/lib/revisions'
+import { compareAnswers, summarizePromptHistory } from '@/lib/prompt-history'
+import { useToast } from '@/components/ui/toast'
+
+const formatDate = (dateLocal: string) =>
+  new Date(dateLocal + 'T00:00:00').toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+
+const formatChange = (change: number) => (change > 0 ? '+' : '') + change
+
+const getExcerpt = (text: string, maxLength: number = 100) =>
+  text.length <= maxLength ? text : text.substring(0, maxLength).trim() + '...'
+
+function SubjectList({ label, words, variant }: { label: string; words: string[]; variant: 'default' | 'secondary' | 'outline' }) {
+  return (
+    <div>
+      <h4 className="text-xs font-medium text-muted-foreground mb-1">{label}</h4>
+      {words.length === 0 ? (
+        <p className="text-xs text-muted-foreground">None</p>
+      ) : (
+        <div className="flex flex-wrap gap-1">
+          {words.map(word => (
+            <Badge key={word} variant={variant} className="text-xs font-normal">{word}</Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Every answer to one prompt in the order it was written, with two of them
+// side by side. Opened from the prompt on the today screen or an entry.
+export function PromptHistoryView() {
+  const { activePromptId, setCurrentView } = useAppStore()
+  const { addToast } = useToast()
+  const [prompt, setPrompt] = useState<Prompt | null>(null)
+  const [entries, setEntries] = useState<Entry[]>([])
+  const [leftId, setLeftId] = useState<string | null>(null)
+  const [rightId, setRightId] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    if (!activePromptId) {
+      setIsLoading(false)
+      return
+    }
+
+    const loadHistory = async () => {
+      try {
+        const [storedPrompt, answers] = await Promise.all([
+          db.prompts.get(activePromptId),
+          dbUtils.getEntriesForPrompt(activePromptId)
+        ])
+        setPrompt(storedPrompt || null)
+        setEntries(answers)
+        // Start with the first answer against the latest
+        setLeftId(answers.length > 1 ? answers[0].id : null)
+        setRightId(answers.length > 1 ? answers[answers.length - 1].id : null)
+      } catch (error) {
+        console.error('Failed to load prompt history:', error)
+        addToast({
+          type: 'error',
+          title: 'Failed to load answers',
+          description: 'There was an error reading your past answers.'
+        })
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadHistory()
+  }, [activePromptId, addToast])
+
+  const summary = summarizePromptHistory(entries)
+
+  // The comparison always reads from the earlier answer to the later one
+  const chosen = entries.filter(entry => entry.id === leftId || entry.id === rightId)
+  const [earlier, later] = chosen.length === 2 ? chosen : [null, null]
+  const comparison = earlier && later ? compareAnswers(earlier, later) : null
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="flex items-center gap-3 p-4 border-b">
+        <Button variant="ghost" size="sm" onClick={() => setCurrentView('today')} aria-label="Back to today">
+          <ArrowLeft className="w-4 h-4" />
+        </Button>
+        <div>
+          <h1 className="text-xl font-semibold">Past Answers</h1>
+          <p className="text-sm text-muted-foreground">How your answers to one prompt have changed</p>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 py-6 space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center min-h-[300px]">
+            <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : (
+          <>
+            {prompt && (
+              <div className="p-4 bg-primary/5 rounded-lg border-l-4 border-primary space-y-2">
+                {prompt.category && (
+                  <Badge variant="secondary" className="text-xs">{CATEGORY_LABELS[prompt.category]}</Badge>
+                )}
+                <p className="font-medium text-sm leading-relaxed">{prompt.text}</p>
+              </div>
+            )}
+
+            {entries.length === 0 ? (
+              <Card>
+                <CardContent className="p-12 text-center">
+                  <History className="w-16 h-16 mx-auto mb-4 text-muted-foreground/50" />
+                  <h3 className="text-lg font-medium mb-2">No answers yet</h3>
+                  <p className="text-muted-foreground">
+                    Your answers to this prompt will collect here each time it comes around.
+                  </p>
+                </CardContent>
+              </Card>
+            ) : (
+              <>
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-base">Over Time</CardTitle>
+                    <CardDescription>
+                      {summary.answerCount} {summary.answerCount === 1 ? 'answer' : 'answers'}
+                      {summary.firstDate && summary.lastDate && summary.answerCount > 1 &&
+                        `, ${formatDate(summary.firstDate)} to ${formatDate(summary.lastDate)}`}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-center">
+                      <div>
+                        <div className="text-2xl font-bold text-primary">{summary.averageLength}</div>
+                        <div className="text-xs text-muted-foreground">Characters per answer</div>
+                      </div>
+                      <div>
+                        <div className="text-2xl font-bold text-primary">{formatChange(summary.lengthChange)}</div>
+                        <div className="text-xs text-muted-foreground">Length, first to latest</div>
+                      </div>
+                      <div>
+                        <div className="text-2xl font-bold text-primary">
+                          {summary.newSubjectCount}/{summary.repeatedSubjectCount}
+                        </div>
+                        <div className="text-xs text-muted-foreground">New vs repeated gratitude words</div>
+                      </div>
+                      <div>
+                        <div className="text-2xl font-bold text-primary">{summary.stepChangeRate}%</div>
+                        <div className="text-xs text-muted-foreground">
+                          Protective step changed ({summary.stepChanges} of {Math.max(0, summary.answerCount - 1)})
+                        </div>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                {earlier && later && comparison && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="text-base flex items-center gap-2">
+                        <Columns className="w-4 h-4" />
+                        Side by Side
+                      </CardTitle>
+                      <CardDescription>
+                        {formatDate(earlier.dateLocal)} compared with {formatDate(later.dateLocal)}
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-6">
+                      {INSIGHT_FIELDS.map(({ key, label }) => (
+                        <div key={key} className="space-y-2">
+                          <div className="flex items-center justify-between">
+                            <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">{label}</h4>
+                            <span className="text-xs text-muted-foreground">
+                              {formatChange(comparison.lengthChange[key])} chars
+                              {key === 'protective_step' && (comparison.stepChanged ? ' • Different step' : ' • Similar step')}
+                            </span>
+                          </div>
+                          <div className="grid md:grid-cols-2 gap-3">
+                            <p className="text-sm leading-relaxed whitespace-pre-wrap p-3 bg-muted/30 rounded-lg">
+                              {earlier[key] || <span className="text-muted-foreground">Empty</span>}
+                            </p>
+                            <p className="text-sm leading-relaxed whitespace-pre-wrap p-3 bg-muted/30 rounded-lg">
+                              {diffWords(earlier[key], later[key]).map((segment, i) =>
+                                segment.type === 'added' ? (
+                                  <ins key={i} className="bg-primary/20 no-underline rounded-sm">{segment.text}</ins>
+                                ) : segment.type === 'same' ? (
+                                  <span key={i}>{segment.text}</span>
+                                ) : null
+                              )}
+                            </p>
+                          </div>
+                        </div>
+                      ))}
+
+                      <div className="grid sm:grid-cols-3 gap-4">
+                        <SubjectList label="New gratitude" words={comparison.newSubjects} variant="default" />
+                        <SubjectList label="Repeated" words={comparison.repeatedSubjects} variant="secondary" />
+                        <SubjectList label="No longer mentioned" words={comparison.droppedSubjects} variant="outline" />
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-base">All Answers</CardTitle>
+                    {entries.length > 1 && (
+                      <CardDescription>Choose two answers to compare side by side</CardDescription>
+                    )}
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {entries.map(entry => (
+                      <div key={entry.id} className="flex items-start justify-between gap-3 border-l-2 border-primary/30 pl-3">
+                        <div className="min-w-0">
+                          <p className="text-xs font-medium text-muted-foreground">{formatDate(entry.dateLocal)}</p>
+                          <p className="text-sm leading-relaxed">{getExcerpt(entry.setback || entry.gratitude)}</p>
+                        </div>
+                        {entries.length > 1 && (
+                          <div className="flex items-center gap-1 flex-shrink-0">
+                            <Button
+                              variant={leftId === entry.id ? 'default' : 'outline'}
+                              size="sm"
+                              onClick={() => setLeftId(entry.id)}
+                              disabled={rightId === entry.id}
+                              aria-pressed={leftId === entry.id}
+                              aria-label={`Compare ${formatDate(entry.dateLocal)} as the first answer`}
+                            >
+                              A
+                            </Button>
+                            <Button
+                              variant={rightId === entry.id ? 'default' : 'outline'}
+                              size="sm"
+                              onClick={() => setRightId(entry.id)}
+                              disabled={leftId === entry.id}
+                              aria-pressed={rightId === entry.id}
+                              aria-label={`Compare ${formatDate(entry.dateLocal)} as the second answer`}
+                            >
+                              B
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              </>
+            )}
+          </>
+        )}
+
+        <Button variant="outline" onClick={() => setCurrentView('today')} className="w-full">
+          Back to Today
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,306 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { BookOpen, Plus, Edit2, Archive, ArchiveRestore, Trash2, Loader2 } from 'lucide-react'
+import { db, Prompt } from '@/lib/database'
+import { promptUtils, PromptInput, MAX_PROMPT_LENGTH, PROMPT_CATEGORIES, CATEGORY_LABELS } from '@/lib/prompts'
+import { useToast } from '@/components/ui/toast'
+
+const EMPTY_FORM: PromptInput = { text: '', gratitude_prompt: '', category: undefined }
+
+export function PromptLibrary() {
+  const { addToast } = useToast()
+  const [prompts, setPrompts] = useState<Prompt[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [showArchived, setShowArchived] = useState(false)
+  // null = form closed, 'new' = creating, otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState<PromptInput>(EMPTY_FORM)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const loadPrompts = useCallback(async () => {
+    try {
+      const allPrompts = await db.prompts.toArray()
+      setPrompts(allPrompts.sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id)))
+    } catch (error) {
+      console.error('Failed to load prompts:', error)
+      addToast({
+        type: 'error',
+        title: 'Failed to load prompts',
+        description: 'There was an error loading your prompt library.'
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [addToast])
+
+  useEffect(() => {
+    loadPrompts()
+  }, [loadPrompts])
+
+  const openForm = (prompt?: Prompt) => {
+    setEditingId(prompt ? prompt.id : 'new')
+    setForm(prompt ? { text: prompt.text, gratitude_prompt: prompt.gratitude_prompt || '', category: prompt.category } : EMPTY_FORM)
+  }
+
+  const closeForm = () => {
+    setEditingId(null)
+    setForm(EMPTY_FORM)
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    const result = editingId === 'new'
+      ? await promptUtils.createPrompt(form)
+      : await promptUtils.updatePrompt(editingId as string, form)
+    setIsSaving(false)
+
+    if (!result.success) {
+      addToast({
+        type: 'error',
+        title: 'Prompt Not Saved',
+        description: result.error || 'Please try again.'
+      })
+      return
+    }
+
+    addToast({
+      type: 'success',
+      title: editingId === 'new' ? 'Prompt Added' : 'Prompt Updated',
+      description: editingId === 'new' ? 'It is now part of your daily rotation.' : 'Your changes have been saved.'
+    })
+    closeForm()
+    loadPrompts()
+  }
+
+  const handleArchive = async (prompt: Prompt, archived: boolean) => {
+    const result = await promptUtils.setPromptArchived(prompt.id, archived)
+    if (!result.success) {
+      addToast({
+        type: 'error',
+        title: archived ? 'Couldn\'t Archive Prompt' : 'Couldn\'t Restore Prompt',
+        description: result.error || 'Please try again.'
+      })
+      return
+    }
+
+    addToast({
+      type: 'info',
+      title: archived ? 'Prompt Archived' : 'Prompt Restored',
+      description: archived ? 'It won\'t be picked as a daily prompt.' : 'It is back in your daily rotation.'
+    })
+    loadPrompts()
+  }
+
+  const handleDelete = async (prompt: Prompt) => {
+    if (!window.confirm('Delete this prompt? This cannot be undone.')) return
+
+    const result = await promptUtils.deletePrompt(prompt.id)
+    if (!result.success) {
+      addToast({
+        type: 'error',
+        title: 'Couldn\'t Delete Prompt',
+        description: result.error || 'Please try again.'
+      })
+      return
+    }
+
+    addToast({
+      type: 'info',
+      title: 'Prompt Deleted',
+      description: 'The prompt has been removed from your library.'
+    })
+    loadPrompts()
+  }
+
+  const visiblePrompts = prompts.filter(p => p.archived === showArchived)
+  const activeCount = prompts.filter(p => !p.archived).length
+  const archivedCount = prompts.length - activeCount
+
+  const renderForm = () => (
+    <div className="space-y-3 p-4 bg-muted/50 rounded-lg">
+      <div>
+        <label htmlFor="prompt-text" className="text-xs text-muted-foreground block mb-2">
+          Visualization prompt
+        </label>
+        <textarea
+          id="prompt-text"
+          value={form.text}
+          onChange={(e) => setForm({ ...form, text: e.target.value })}
+          maxLength={MAX_PROMPT_LENGTH}
+          rows={2}
+          placeholder="Imagine..."
+          className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+        />
+      </div>
+      <div>
+        <label htmlFor="prompt-gratitude" className="text-xs text-muted-foreground block mb-2">
+          Gratitude prompt (optional)
+        </label>
+        <Input
+          id="prompt-gratitude"
+          value={form.gratitude_prompt || ''}
+          onChange={(e) => setForm({ ...form, gratitude_prompt: e.target.value })}
+          maxLength={MAX_PROMPT_LENGTH}
+          placeholder="What are you grateful for about...?"
+        />
+      </div>
+      <div>
+        <p className="text-xs text-muted-foreground mb-2">Category (optional)</p>
+        <div className="flex flex-wrap gap-2">
+          {PROMPT_CATEGORIES.map(category => (
+            <Button
+              key={category}
+              type="button"
+              variant={form.category === category ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setForm({ ...form, category: form.category === category ? undefined : category })}
+              aria-pressed={form.category === category}
+            >
+              {CATEGORY_LABELS[category]}
+            </Button>
+          ))}
+        </div>
+      </div>
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={closeForm} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSave} disabled={isSaving || !form.text.trim()}>
+          {isSaving ? (
+            <>
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            editingId === 'new' ? 'Add Prompt' : 'Save Changes'
+          )}
+        </Button>
+      </div>
+    </div>
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BookOpen className="w-5 h-5" />
+          Prompt Library
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Your daily prompt is picked from every active prompt: built-in, your own, or from an enabled pack. Archive prompts you don&apos;t want to see.
+        </p>
+
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex gap-2">
+            <Button
+              variant={showArchived ? 'outline' : 'default'}
+              size="sm"
+              onClick={() => setShowArchived(false)}
+            >
+              Active ({activeCount})
+            </Button>
+            <Button
+              variant={showArchived ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setShowArchived(true)}
+            >
+              Archived ({archivedCount})
+            </Button>
+          </div>
+          {editingId === null && (
+            <Button variant="outline" size="sm" onClick={() => openForm()}>
+              <Plus className="w-4 h-4 mr-2" />
+              New Prompt
+            </Button>
+          )}
+        </div>
+
+        {editingId === 'new' && renderForm()}
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading prompts...
+          </div>
+        ) : visiblePrompts.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            {showArchived ? 'No archived prompts.' : 'No active prompts.'}
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {visiblePrompts.map(prompt => (
+              <li key={prompt.id} className="p-3 border rounded-lg space-y-2">
+                {editingId === prompt.id ? renderForm() : (
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="space-y-1 min-w-0">
+                      <p className="text-sm">{prompt.text}</p>
+                      {prompt.gratitude_prompt && (
+                        <p className="text-xs text-muted-foreground">{prompt.gratitude_prompt}</p>
+                      )}
+                      <div className="flex flex-wrap gap-1">
+                        <Badge variant="secondary" className="text-xs">
+                          {prompt.source === 'user' ? 'Yours' : prompt.source === 'pack' ? 'Pack' : 'Built-in'}
+                        </Badge>
+                        {prompt.pack_disabled && (
+                          <Badge variant="outline" className="text-xs">
+                            Pack off
+                          </Badge>
+                        )}
+                        {prompt.category && (
+                          <Badge variant="outline" className="text-xs">
+                            {CATEGORY_LABELS[prompt.category]}
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      {prompt.source === 'user' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => openForm(prompt)}
+                          disabled={editingId !== null}
+                          className="p-2"
+                          aria-label="Edit prompt"
+                        >
+                          <Edit2 className="w-4 h-4" />
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleArchive(prompt, !prompt.archived)}
+                        className="p-2"
+                        aria-label={prompt.archived ? 'Restore prompt' : 'Archive prompt'}
+                      >
+                        {prompt.archived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                      </Button>
+                      {prompt.source === 'user' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(prompt)}
+                          className="p-2 text-destructive hover:text-destructive"
+                          aria-label="Delete prompt"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
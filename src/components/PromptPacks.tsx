@@ -0,0 +1,315 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Package, Upload, Download, AlertTriangle, Loader2 } from 'lucide-react'
+import { promptPackUtils, PromptPackFile, PromptPackPreview, PromptPackSummary } from '@/lib/prompt-packs'
+import { useToast } from '@/components/ui/toast'
+
+interface PromptPacksProps {
+  onPromptsChanged: () => void
+}
+
+export function PromptPacks({ onPromptsChanged }: PromptPacksProps) {
+  const { addToast } = useToast()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [packs, setPacks] = useState<PromptPackSummary[]>([])
+  const [fileName, setFileName] = useState('')
+  const [pendingPack, setPendingPack] = useState<PromptPackFile | null>(null)
+  const [preview, setPreview] = useState<PromptPackPreview | null>(null)
+  const [errors, setErrors] = useState<string[]>([])
+  const [isImporting, setIsImporting] = useState(false)
+  const [exportName, setExportName] = useState('')
+  const [exportAuthor, setExportAuthor] = useState('')
+  const [exportLocale, setExportLocale] = useState(() =>
+    typeof navigator !== 'undefined' ? navigator.language : ''
+  )
+  const [isExporting, setIsExporting] = useState(false)
+
+  const loadPacks = useCallback(async () => {
+    try {
+      setPacks(await promptPackUtils.getPacks())
+    } catch (error) {
+      console.error('Failed to load prompt packs:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadPacks()
+  }, [loadPacks])
+
+  const resetImport = () => {
+    setFileName('')
+    setPendingPack(null)
+    setPreview(null)
+    setErrors([])
+    if (fileInputRef.current) fileInputRef.current.value = ''
+  }
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    resetImport()
+    setFileName(file.name)
+
+    try {
+      const result = promptPackUtils.parsePack(await file.text())
+      if (!result.valid) {
+        setErrors(result.errors)
+        return
+      }
+
+      setPendingPack(result.pack)
+      setPreview(await promptPackUtils.previewPack(result.pack))
+    } catch (error) {
+      console.error('Failed to read prompt pack:', error)
+      setErrors(['Unable to read the selected file.'])
+    }
+  }
+
+  const handleImport = async () => {
+    if (!pendingPack || isImporting) return
+
+    try {
+      setIsImporting(true)
+      const result = await promptPackUtils.importPack(pendingPack)
+      addToast({
+        type: 'success',
+        title: 'Pack Imported',
+        description: `Added ${result.addedPrompts} prompt${result.addedPrompts === 1 ? '' : 's'} from ${result.pack.name}` +
+          (result.skippedPrompts > 0 ? `, skipped ${result.skippedPrompts} you already have.` : '.')
+      })
+      resetImport()
+      loadPacks()
+      onPromptsChanged()
+    } catch (error) {
+      console.error('Prompt pack import error:', error)
+      addToast({
+        type: 'error',
+        title: 'Import Failed',
+        description: 'Unable to import the prompt pack. No changes were saved.'
+      })
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const handleTogglePack = async (pack: PromptPackSummary) => {
+    const result = await promptPackUtils.setPackEnabled(pack.id, !pack.enabled)
+    if (!result.success) {
+      addToast({
+        type: 'error',
+        title: 'Couldn\'t Update Pack',
+        description: result.error || 'Please try again.'
+      })
+      return
+    }
+
+    addToast({
+      type: 'info',
+      title: pack.enabled ? 'Pack Disabled' : 'Pack Enabled',
+      description: pack.enabled
+        ? `Prompts from ${pack.name} won't be picked. Past entries keep their prompts.`
+        : `Prompts from ${pack.name} are back in your daily rotation.`
+    })
+    loadPacks()
+    onPromptsChanged()
+  }
+
+  const handleExport = async () => {
+    if (!exportName.trim() || isExporting) return
+
+    try {
+      setIsExporting(true)
+      const result = await promptPackUtils.exportUserPrompts({
+        name: exportName,
+        author: exportAuthor,
+        locale: exportLocale
+      })
+
+      if (result.promptCount === 0) {
+        addToast({
+          type: 'error',
+          title: 'Nothing to Export',
+          description: 'Write a few prompts of your own in the Prompt Library first.'
+        })
+        return
+      }
+
+      const blob = new Blob([result.json], { type: 'application/json' })
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = promptPackUtils.generatePackFilename(exportName)
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      URL.revokeObjectURL(url)
+
+      addToast({
+        type: 'success',
+        title: 'Pack Exported',
+        description: `Exported ${result.promptCount} prompt${result.promptCount === 1 ? '' : 's'}.`
+      })
+    } catch (error) {
+      console.error('Prompt pack export error:', error)
+      addToast({
+        type: 'error',
+        title: 'Export Failed',
+        description: 'Unable to export your prompts. Please try again.'
+      })
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Package className="w-5 h-5" />
+          Prompt Packs
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Installed Packs */}
+        {packs.length > 0 && (
+          <ul className="space-y-2">
+            {packs.map(pack => (
+              <li key={pack.id} className="flex items-center justify-between gap-3 p-3 border rounded-lg">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium">{pack.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {[pack.author, pack.locale, `${pack.promptCount} prompt${pack.promptCount === 1 ? '' : 's'}`]
+                      .filter(Boolean)
+                      .join(' • ')}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  {!pack.enabled && <Badge variant="secondary" className="text-xs">Off</Badge>}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleTogglePack(pack)}
+                  >
+                    {pack.enabled ? 'Disable' : 'Enable'}
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {/* Import */}
+        <div className="space-y-3">
+          <h4 className="font-medium text-sm">Import a Pack</h4>
+          <p className="text-xs text-muted-foreground">
+            Add prompts from a .json prompt pack. Prompts you already have are skipped.
+          </p>
+
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleFileSelected}
+          />
+
+          {errors.length > 0 && (
+            <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-md space-y-1">
+              <p className="text-sm font-medium text-destructive flex items-center gap-2">
+                <AlertTriangle className="w-4 h-4" />
+                {fileName ? `${fileName} can't be imported` : 'This file can\'t be imported'}
+              </p>
+              <ul className="text-xs text-destructive space-y-0.5 ml-6 list-disc">
+                {errors.map((error, i) => (
+                  <li key={i}>{error}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {preview ? (
+            <div className="p-4 bg-muted/50 rounded-lg space-y-3">
+              <div>
+                <p className="text-sm font-medium">{preview.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {[preview.author, preview.locale].filter(Boolean).join(' • ') || fileName}
+                </p>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {preview.newPromptCount} new prompt{preview.newPromptCount === 1 ? '' : 's'}
+                {preview.duplicateCount > 0 && `, ${preview.duplicateCount} already in your library`}
+                {preview.existingPack && '. Adds to the pack you imported before.'}
+              </p>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={resetImport} disabled={isImporting}>
+                  Cancel
+                </Button>
+                <Button size="sm" onClick={handleImport} disabled={isImporting || preview.newPromptCount === 0}>
+                  {isImporting ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Importing...
+                    </>
+                  ) : (
+                    'Import Pack'
+                  )}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="w-4 h-4 mr-2" />
+              Choose Pack File
+            </Button>
+          )}
+        </div>
+
+        {/* Export */}
+        <div className="space-y-3">
+          <h4 className="font-medium text-sm">Share Your Prompts</h4>
+          <p className="text-xs text-muted-foreground">
+            Save your own active prompts as a pack that others can import.
+          </p>
+          <div className="grid gap-2 sm:grid-cols-3">
+            <Input
+              value={exportName}
+              onChange={(e) => setExportName(e.target.value)}
+              placeholder="Pack name"
+              aria-label="Pack name"
+            />
+            <Input
+              value={exportAuthor}
+              onChange={(e) => setExportAuthor(e.target.value)}
+              placeholder="Author (optional)"
+              aria-label="Author"
+            />
+            <Input
+              value={exportLocale}
+              onChange={(e) => setExportLocale(e.target.value)}
+              placeholder="Locale, e.g. en-US"
+              aria-label="Locale"
+            />
+          </div>
+          <Button
+            variant="outline"
+            onClick={handleExport}
+            disabled={!exportName.trim() || isExporting}
+          >
+            {isExporting ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="w-4 h-4 mr-2" />
+            )}
+            Export My Prompts
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
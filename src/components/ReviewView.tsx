@@ -0,0 +1,304 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { ArrowLeft, ChevronLeft, ChevronRight, ClipboardList, Save } from 'lucide-react'
+import { useAppStore } from '@/lib/store'
+import { dbUtils, SavedReview } from '@/lib/database'
+import { CATEGORY_LABELS } from '@/lib/prompts'
+import {
+  ReviewDigest,
+  ReviewPeriod,
+  ReviewRange,
+  WordCount,
+  formatReviewRange,
+  getReviewRange,
+  reviewId,
+  shiftReviewRange
+} from '@/lib/reviews'
+import { useToast } from '@/components/ui/toast'
+
+const MAX_REFLECTION_LENGTH = 2000
+
+function WordList({ words, emptyText }: { words: WordCount[]; emptyText: string }) {
+  if (words.length === 0) return <p className="text-xs text-muted-foreground">{emptyText}</p>
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {words.map(({ word, count }) => (
+        <Badge key={word} variant="secondary" className="text-xs font-normal">
+          {word} <span className="ml-1 text-muted-foreground">×{count}</span>
+        </Badge>
+      ))}
+    </div>
+  )
+}
+
+// Weekly and monthly digest of the journal, computed on the device, with a
+// reflection the user can write and save for the period
+export function ReviewView() {
+  const { setCurrentView } = useAppStore()
+  const { addToast } = useToast()
+  const today = dbUtils.getTodayLocal()
+  const [range, setRange] = useState<ReviewRange>(() => getReviewRange('week', today))
+  const [digest, setDigest] = useState<ReviewDigest | null>(null)
+  const [savedReview, setSavedReview] = useState<SavedReview | undefined>(undefined)
+  const [reflection, setReflection] = useState('')
+  const [savedList, setSavedList] = useState<Pick<SavedReview, 'id' | 'period' | 'start' | 'end' | 'updated_at'>[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    const loadReview = async () => {
+      try {
+        setIsLoading(true)
+        const [nextDigest, saved, list] = await Promise.all([
+          dbUtils.getReviewDigest(range),
+          dbUtils.getSavedReview(range),
+          dbUtils.getSavedReviewList()
+        ])
+        setDigest(nextDigest)
+        setSavedReview(saved)
+        setReflection(saved?.reflection || '')
+        setSavedList(list)
+      } catch (error) {
+        console.error('Failed to load review:', error)
+        addToast({
+          type: 'error',
+          title: 'Failed to load review',
+          description: 'There was an error building this review.'
+        })
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadReview()
+  }, [range, addToast])
+
+  const handlePeriodChange = (period: ReviewPeriod) => {
+    if (period !== range.period) setRange(getReviewRange(period, today))
+  }
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true)
+      const saved = await dbUtils.saveReview(range, reflection)
+      setSavedReview(saved)
+      setSavedList(await dbUtils.getSavedReviewList())
+      addToast({
+        type: 'success',
+        title: 'Review Saved',
+        description: 'Your reflection is saved with this review.'
+      })
+    } catch (error) {
+      console.error('Failed to save review:', error)
+      addToast({
+        type: 'error',
+        title: 'Save Failed',
+        description: 'Unable to save your review. Please try again.'
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const periodLabel = range.period === 'week' ? 'week' : 'month'
+  const isCurrent = range.end >= today
+  const hasChanges = reflection.trim() !== (savedReview?.reflection || '')
+  const streakChange = digest ? digest.streakAfter - digest.streakBefore : 0
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="flex items-center gap-3 p-4 border-b">
+        <Button variant="ghost" size="sm" onClick={() => setCurrentView('today')} aria-label="Back to today">
+          <ArrowLeft className="w-4 h-4" />
+        </Button>
+        <div>
+          <h1 className="text-xl font-semibold">Review</h1>
+          <p className="text-sm text-muted-foreground">Built on this device from your entries</p>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 py-6 space-y-6">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex gap-2" role="group" aria-label="Review period">
+            {(['week', 'month'] as ReviewPeriod[]).map(period => (
+              <Button
+                key={period}
+                variant={range.period === period ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => handlePeriodChange(period)}
+                aria-pressed={range.period === period}
+              >
+                {period === 'week' ? 'Weekly' : 'Monthly'}
+              </Button>
+            ))}
+          </div>
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="sm" onClick={() => setRange(shiftReviewRange(range, -1))} aria-label={`Previous ${periodLabel}`}>
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <span className="text-sm font-medium min-w-[10rem] text-center">{formatReviewRange(range)}</span>
+            <Button variant="ghost" size="sm" onClick={() => setRange(shiftReviewRange(range, 1))} disabled={isCurrent} aria-label={`Next ${periodLabel}`}>
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+
+        {isLoading || !digest ? (
+          <div className="flex items-center justify-center min-h-[300px]">
+            <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">At a Glance</CardTitle>
+                {isCurrent && <CardDescription>This {periodLabel} so far</CardDescription>}
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-3 gap-4 text-center">
+                  <div>
+                    <div className="text-2xl font-bold text-primary">{digest.daysWritten}/{digest.possibleDays}</div>
+                    <div className="text-xs text-muted-foreground">Days Written</div>
+                  </div>
+                  <div>
+                    <div className="text-2xl font-bold text-primary">{digest.promptsCovered}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {digest.promptsCovered === 1 ? 'Prompt' : 'Prompts'} Covered
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-2xl font-bold text-primary">
+                      {digest.streakAfter}
+                      {streakChange !== 0 && (
+                        <span className="text-sm font-normal text-muted-foreground ml-1">
+                          ({streakChange > 0 ? '+' : ''}{streakChange})
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-xs text-muted-foreground">Streak, from {digest.streakBefore}</div>
+                  </div>
+                </div>
+                {digest.entryCount > digest.daysWritten && (
+                  <p className="text-xs text-muted-foreground text-center mt-3">
+                    {digest.entryCount} entries in total
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Themes</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {digest.categories.length > 0 && (
+                  <div className="space-y-2">
+                    <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Prompt Focus</h4>
+                    <div className="flex flex-wrap gap-2">
+                      {digest.categories.map(({ category, count }) => (
+                        <Badge key={category} variant="outline" className="text-xs">
+                          {CATEGORY_LABELS[category]} ×{count}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Recurring in Setbacks</h4>
+                  <WordList words={digest.setbackWords} emptyText="No words came up more than once." />
+                </div>
+                <div className="space-y-2">
+                  <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Recurring in Gratitude</h4>
+                  <WordList words={digest.gratitudeWords} emptyText="No words came up more than once." />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Protective Steps</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-3 gap-4 text-center">
+                  <div>
+                    <div className="text-2xl font-bold text-primary">{digest.stepsWritten}</div>
+                    <div className="text-xs text-muted-foreground">Planned</div>
+                  </div>
+                  <div>
+                    <div className="text-2xl font-bold text-primary">{digest.actionsCompleted}</div>
+                    <div className="text-xs text-muted-foreground">Actions Done</div>
+                  </div>
+                  <div>
+                    <div className="text-2xl font-bold text-primary">{digest.actionsOpen}</div>
+                    <div className="text-xs text-muted-foreground">Still Open</div>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                  <ClipboardList className="w-4 h-4" />
+                  Your Reflection
+                </CardTitle>
+                <CardDescription>
+                  {savedReview
+                    ? `Saved ${new Date(savedReview.updated_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`
+                    : `What stood out this ${periodLabel}?`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <label htmlFor="review-reflection" className="sr-only">Reflection</label>
+                <textarea
+                  id="review-reflection"
+                  value={reflection}
+                  onChange={(e) => setReflection(e.target.value)}
+                  maxLength={MAX_REFLECTION_LENGTH}
+                  rows={5}
+                  placeholder="Which fears kept coming back? What helped?"
+                  className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                />
+                <div className="flex items-center justify-between">
+                  <span className="text-xs text-muted-foreground">{reflection.length}/{MAX_REFLECTION_LENGTH}</span>
+                  <Button size="sm" onClick={handleSave} disabled={isSaving || (!!savedReview && !hasChanges)}>
+                    <Save className="w-4 h-4 mr-2" />
+                    {isSaving ? 'Saving...' : 'Save Review'}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+
+        {savedList.length > 0 && (
+          <section className="space-y-2">
+            <h2 className="text-sm font-semibold text-muted-foreground">Saved Reviews</h2>
+            <div className="flex flex-wrap gap-2">
+              {savedList.map(saved => (
+                <Button
+                  key={saved.id}
+                  variant={saved.id === reviewId(range) ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setRange({ period: saved.period, start: saved.start, end: saved.end })}
+                >
+                  {formatReviewRange(saved)}
+                </Button>
+              ))}
+            </div>
+          </section>
+        )}
+
+        <Button variant="outline" onClick={() => setCurrentView('today')} className="w-full">
+          Back to Today
+        </Button>
+      </div>
+    </div>
+  )
+}
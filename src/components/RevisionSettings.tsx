@@ -0,0 +1,83 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { History } from 'lucide-react'
+import { useAppStore } from '@/lib/store'
+import { db, dbUtils } from '@/lib/database'
+import { REVISION_RETENTION_OPTIONS, getRevisionRetention } from '@/lib/revisions'
+import { useToast } from '@/components/ui/toast'
+
+const formatRetention = (retention: number | null) =>
+  retention === null ? 'All' : retention === 0 ? 'Off' : `Last ${retention}`
+
+export function RevisionSettings() {
+  const { settings, setSettings } = useAppStore()
+  const { addToast } = useToast()
+  const [isSaving, setIsSaving] = useState(false)
+
+  const retention = getRevisionRetention(settings)
+
+  const handleRetentionChange = async (next: number | null) => {
+    if (!settings || next === retention) return
+
+    // A lower limit deletes the versions beyond it straight away
+    const isLower = next !== null && (retention === null || next < retention)
+    if (isLower && !window.confirm(next === 0
+      ? 'Turn off edit history? Every saved earlier version of your entries will be deleted.'
+      : `Keep only the last ${next} versions of each entry? Older versions will be deleted.`)) {
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      const updatedSettings = { ...settings, revisionRetention: next }
+      await db.settings.put(updatedSettings)
+      await dbUtils.pruneRevisions(next)
+      setSettings(updatedSettings)
+    } catch (error) {
+      console.error('Failed to save edit history preferences:', error)
+      addToast({
+        type: 'error',
+        title: 'Save Failed',
+        description: 'Unable to save your edit history preferences. Please try again.'
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="w-5 h-5" />
+          Edit History
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div>
+          <h4 className="font-medium text-sm">Earlier Versions to Keep</h4>
+          <p className="text-xs text-muted-foreground">
+            When you edit an entry, the previous wording is saved so you can compare or restore it.
+            Versions are encrypted like your entries and included in backups.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {REVISION_RETENTION_OPTIONS.map(option => (
+            <Button
+              key={String(option)}
+              variant={retention === option ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => handleRetentionChange(option)}
+              disabled={isSaving}
+            >
+              {formatRetention(option)}
+            </Button>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -5,7 +5,7 @@ import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
 import { Modal } from '@/components/ui/modal'
-import { Shield, Lock, Settings, AlertTriangle, Check, Trash2 } from 'lucide-react'
+import { Shield, Lock, Settings, AlertTriangle, Check, Trash2, KeyRound } from 'lucide-react'
 import { usePinContext } from '@/lib/pin-context'
 import { PinSetup } from '@/components/pin/PinSetup'
 import { PinEntry } from '@/components/pin/PinEntry'
@@ -16,6 +16,8 @@ export function SecuritySettings() {
     isPinEnabled, 
     setupPin, 
     disablePin, 
+    changePin,
+    verifyPin,
     updateLockTimeout, 
     lockTimeoutMinutes,
     resetWithWipe
@@ -25,6 +27,8 @@ export function SecuritySettings() {
   const [showPinSetup, setShowPinSetup] = useState(false)
   const [showDisableModal, setShowDisableModal] = useState(false)
   const [showResetModal, setShowResetModal] = useState(false)
+  const [showChangeModal, setShowChangeModal] = useState(false)
+  const [pendingCurrentPin, setPendingCurrentPin] = useState<string | null>(null)
   const [isDisabling, setIsDisabling] = useState(false)
   const [isResetting, setIsResetting] = useState(false)
   const [timeoutInput, setTimeoutInput] = useState(lockTimeoutMinutes.toString())
@@ -53,6 +57,28 @@ export function SecuritySettings() {
     return result
   }
 
+  const handleVerifyCurrentPin = async (pin: string) => {
+    const result = await verifyPin(pin)
+    if (result.success) {
+      // Keep the verified PIN only until the new one is confirmed
+      setPendingCurrentPin(pin)
+      setShowChangeModal(false)
+    }
+    return result
+  }
+
+  const handleChangePin = async (newPin: string) => {
+    if (!pendingCurrentPin) {
+      return { success: false, error: 'Please verify your current PIN first' }
+    }
+
+    const result = await changePin(pendingCurrentPin, newPin)
+    if (result.success) {
+      setPendingCurrentPin(null)
+    }
+    return result
+  }
+
   const handleTimeoutChange = async () => {
     const minutes = parseInt(timeoutInput, 10)
     if (isNaN(minutes) || minutes < 1 || minutes > 120) {
@@ -128,7 +154,7 @@ export function SecuritySettings() {
             Session Lock
           </CardTitle>
           <CardDescription>
-            Protect your journal with a 4-digit PIN that locks automatically
+            Protect your journal with a 4-digit PIN that locks automatically and encrypts your entries on this device
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
@@ -140,7 +166,7 @@ export function SecuritySettings() {
                 <h4 className="font-medium text-sm">PIN Protection</h4>
                 <p className="text-xs text-muted-foreground">
                   {isPinEnabled 
-                    ? 'Your journal is protected with a 4-digit PIN'
+                    ? 'Your journal is protected with a 4-digit PIN and entries are encrypted'
                     : 'Set up a PIN to secure your journal'
                   }
                 </p>
@@ -159,14 +185,24 @@ export function SecuritySettings() {
             
             <div className="flex gap-2">
               {isPinEnabled ? (
-                <Button 
-                  variant="outline" 
-                  size="sm"
-                  onClick={() => setShowDisableModal(true)}
-                >
-                  <Lock className="w-4 h-4 mr-2" />
-                  Disable PIN
-                </Button>
+                <>
+                  <Button 
+                    variant="outline" 
+                    size="sm"
+                    onClick={() => setShowChangeModal(true)}
+                  >
+                    <KeyRound className="w-4 h-4 mr-2" />
+                    Change PIN
+                  </Button>
+                  <Button 
+                    variant="outline" 
+                    size="sm"
+                    onClick={() => setShowDisableModal(true)}
+                  >
+                    <Lock className="w-4 h-4 mr-2" />
+                    Disable PIN
+                  </Button>
+                </>
               ) : (
                 <Button 
                   onClick={() => setShowPinSetup(true)}
@@ -263,6 +299,29 @@ export function SecuritySettings() {
         </div>
       )}
 
+      {/* Change PIN: verify current PIN, then choose a new one */}
+      <Modal 
+        isOpen={showChangeModal} 
+        onClose={() => setShowChangeModal(false)}
+        title="Change PIN"
+        className="max-w-md"
+      >
+        <PinEntry
+          onVerify={handleVerifyCurrentPin}
+          title="Enter Current PIN"
+          description="Confirm your identity before choosing a new PIN"
+        />
+      </Modal>
+
+      {pendingCurrentPin && (
+        <div className="fixed inset-0 z-50 bg-background">
+          <PinSetup 
+            onSetup={handleChangePin}
+            onCancel={() => setPendingCurrentPin(null)}
+          />
+        </div>
+      )}
+
       {/* Disable PIN Modal */}
       <Modal 
         isOpen={showDisableModal} 
@@ -277,8 +336,8 @@ export function SecuritySettings() {
           
           <div className="bg-muted/50 p-3 rounded-lg">
             <p className="text-xs text-muted-foreground">
-              After disabling PIN protection, your journal will no longer be secured 
-              and anyone with access to your device can read your entries.
+              After disabling PIN protection, your entries will be decrypted and stored 
+              unprotected, and anyone with access to your device can read them.
             </p>
           </div>
           
@@ -3,7 +3,7 @@
 import { useState, useEffect } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { ArrowLeft, Bell, Database, Shield, Palette, Download, Trash2, Eye, Loader2, Lock } from 'lucide-react'
+import { ArrowLeft, Bell, Database, Shield, Palette, Download, Trash2, Eye, Loader2, Lock, BookOpen, PenLine } from 'lucide-react'
 import { useAppStore } from '@/lib/store'
 import { NotificationSettings } from '@/components/NotificationSettings'
 import { scheduleNotification, clearScheduledNotification } from '@/lib/notifications'
@@ -12,18 +12,27 @@ import { useToast } from '@/components/ui/toast'
 import { DeleteConfirmationModal } from '@/components/DeleteConfirmationModal'
 import { PrivacyExplainerPage } from '@/components/PrivacyExplainerPage'
 import { SecuritySettings } from '@/components/SecuritySettings'
+import { DataImport } from '@/components/DataImport'
+import { PromptLibrary } from '@/components/PromptLibrary'
+import { PromptFocusSettings } from '@/components/PromptFocusSettings'
+import { PromptPacks } from '@/components/PromptPacks'
+import { TimerSettings } from '@/components/TimerSettings'
+import { RevisionSettings } from '@/components/RevisionSettings'
+import { EditPolicySettings } from '@/components/EditPolicySettings'
+import { OnThisDaySettings } from '@/components/OnThisDaySettings'
 import { telemetryService } from '@/lib/telemetry'
 
 export function SettingsPage() {
   const { settings, setCurrentView, setSettings } = useAppStore()
   const { addToast } = useToast()
-  const [activeSection, setActiveSection] = useState<'notifications' | 'security' | 'data' | 'privacy' | 'appearance'>('notifications')
+  const [activeSection, setActiveSection] = useState<'notifications' | 'journaling' | 'prompts' | 'security' | 'data' | 'privacy' | 'appearance'>('notifications')
   const [showDeleteModal, setShowDeleteModal] = useState(false)
   const [isDeleting, setIsDeleting] = useState(false)
   const [isExporting, setIsExporting] = useState(false)
   const [exportProgress, setExportProgress] = useState(0)
   const [exportStatus, setExportStatus] = useState('')
   const [showPrivacyExplainer, setShowPrivacyExplainer] = useState(false)
+  const [promptLibraryKey, setPromptLibraryKey] = useState(0)
   const [telemetryOptIn, setTelemetryOptIn] = useState(false)
   const [telemetryLoading, setTelemetryLoading] = useState(false)
   const [queueStatus, setQueueStatus] = useState({ queueLength: 0, isProcessing: false, events: [] as any[] })
@@ -222,6 +231,25 @@ export function SettingsPage() {
           </div>
         )
       
+      case 'journaling':
+        return (
+          <div className="space-y-6">
+            <TimerSettings />
+            <EditPolicySettings />
+            <RevisionSettings />
+            <OnThisDaySettings />
+          </div>
+        )
+
+      case 'prompts':
+        return (
+          <div className="space-y-6">
+            <PromptFocusSettings />
+            <PromptLibrary key={promptLibraryKey} />
+            <PromptPacks onPromptsChanged={() => setPromptLibraryKey(key => key + 1)} />
+          </div>
+        )
+      
       case 'security':
         return (
           <div className="space-y-6">
@@ -285,6 +313,11 @@ export function SettingsPage() {
                 
                 <div className="border-t pt-6" />
                 
+                {/* Import Data */}
+                <DataImport />
+                
+                <div className="border-t pt-6" />
+                
                 {/* Reset Streak Data */}
                 <div className="space-y-3">
                   <h4 className="font-medium text-sm">Reset Streak Data</h4>
@@ -485,6 +518,8 @@ export function SettingsPage() {
           <div className="flex gap-2 mb-6 overflow-x-auto">
             {[
               { id: 'notifications', label: 'Notifications', icon: Bell },
+              { id: 'journaling', label: 'Journaling', icon: PenLine },
+              { id: 'prompts', label: 'Prompts', icon: BookOpen },
               { id: 'security', label: 'Security', icon: Lock },
               { id: 'data', label: 'Data', icon: Database },
               { id: 'privacy', label: 'Privacy', icon: Shield },
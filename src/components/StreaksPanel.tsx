@@ -1,11 +1,13 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
-import { Flame, Calendar, Target, RotateCcw, AlertTriangle } from 'lucide-react'
-import { dbUtils, StreakSummary } from '@/lib/database'
+import { Input } from '@/components/ui/input'
+import { Flame, Calendar, Target, RotateCcw, AlertTriangle, Snowflake, X } from 'lucide-react'
+import { dbUtils, StreakFreeze, StreakSummary } from '@/lib/database'
+import { addDays, FREEZE_EARN_INTERVAL, MAX_FREEZE_TOKENS } from '@/lib/streaks'
 import { useToast } from '@/components/ui/toast'
 
 interface StreaksPanelProps {
@@ -18,6 +20,16 @@ export function StreaksPanel({ streak, hasEntryToday, onStreakUpdate }: StreaksP
   const { addToast } = useToast()
   const [isResetting, setIsResetting] = useState(false)
   const [showResetConfirm, setShowResetConfirm] = useState(false)
+  const [freezes, setFreezes] = useState<StreakFreeze[]>([])
+  const [restDay, setRestDay] = useState('')
+  const [isScheduling, setIsScheduling] = useState(false)
+
+  // The ledger changes whenever the streak is recomputed
+  useEffect(() => {
+    dbUtils.getStreakFreezes()
+      .then(setFreezes)
+      .catch(error => console.warn('Failed to load streak freezes:', error))
+  }, [streak])
 
   if (!streak) {
     return (
@@ -70,6 +82,77 @@ export function StreaksPanel({ streak, hasEntryToday, onStreakUpdate }: StreaksP
     }
   }
 
+  const handleScheduleRestDay = async () => {
+    if (!restDay) return
+
+    try {
+      setIsScheduling(true)
+      const result = await dbUtils.scheduleRestDay(restDay)
+
+      if (result.success && result.streak) {
+        onStreakUpdate(result.streak)
+        addToast({
+          type: 'success',
+          title: 'Rest Day Scheduled',
+          description: `${formatDay(restDay)} won't break your streak.`
+        })
+        setRestDay('')
+      } else {
+        addToast({
+          type: 'error',
+          title: 'Couldn\'t Schedule Rest Day',
+          description: result.error || 'Please try again.'
+        })
+      }
+    } catch (error) {
+      console.error('Schedule rest day error:', error)
+      addToast({
+        type: 'error',
+        title: 'Couldn\'t Schedule Rest Day',
+        description: 'An unexpected error occurred. Please try again.'
+      })
+    } finally {
+      setIsScheduling(false)
+    }
+  }
+
+  const handleCancelRestDay = async (dateLocal: string) => {
+    try {
+      onStreakUpdate(await dbUtils.cancelRestDay(dateLocal))
+      addToast({
+        type: 'info',
+        title: 'Rest Day Cancelled',
+        description: 'The freeze has been returned.'
+      })
+    } catch (error) {
+      console.error('Cancel rest day error:', error)
+      addToast({
+        type: 'error',
+        title: 'Couldn\'t Cancel Rest Day',
+        description: 'Please try again.'
+      })
+    }
+  }
+
+  const formatDay = (dateLocal: string) => {
+    try {
+      return new Date(dateLocal + 'T00:00:00').toLocaleDateString('en-US', {
+        weekday: 'short',
+        month: 'short',
+        day: 'numeric'
+      })
+    } catch {
+      return dateLocal
+    }
+  }
+
+  const today = dbUtils.getTodayLocal()
+  const freezesAvailable = streak.freezes_available || 0
+  const upcomingRestDays = freezes
+    .filter(f => f.type === 'used' && f.dateLocal > today)
+    .sort((a, b) => a.dateLocal.localeCompare(b.dateLocal))
+  const lastFrozenDay = freezes.find(f => f.type === 'used' && f.dateLocal <= today)
+
   const formatStartDate = (dateString: string) => {
     try {
       return dbUtils.getStreakStartDate(dateString)
@@ -177,7 +260,7 @@ export function StreaksPanel({ streak, hasEntryToday, onStreakUpdate }: StreaksP
           <div className="flex items-center justify-between p-3 bg-muted/30 rounded-lg">
             <div className="flex items-center gap-2">
               <div className={`w-2 h-2 rounded-full ${hasEntryToday ? 'bg-green-500' : 'bg-muted-foreground/50'}`} />
-              <span className="text-sm font-medium">Today's Entry</span>
+              <span className="text-sm font-medium">Today&apos;s Entry</span>
             </div>
             <Badge 
               variant={hasEntryToday ? 'default' : 'secondary'}
@@ -188,6 +271,70 @@ export function StreaksPanel({ streak, hasEntryToday, onStreakUpdate }: StreaksP
           </div>
         </div>
 
+        {/* Streak Freezes */}
+        <div className="space-y-3 p-3 bg-sky-50/60 border border-sky-100 rounded-lg">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Snowflake className="w-4 h-4 text-sky-600" />
+              <span className="text-sm font-medium">Streak Freezes</span>
+            </div>
+            <Badge variant="secondary" className="bg-sky-100 text-sky-800 border-sky-200">
+              {freezesAvailable} / {MAX_FREEZE_TOKENS}
+            </Badge>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Earn one for every {FREEZE_EARN_INTERVAL} days in a row. Missed days are covered automatically when you have a freeze for each one, or you can plan a rest day ahead.
+          </p>
+
+          {lastFrozenDay && (
+            <p className="text-xs text-sky-800">
+              Last freeze used on {formatDay(lastFrozenDay.dateLocal)}
+              {lastFrozenDay.reason === 'scheduled' ? ' (rest day)' : ''}
+            </p>
+          )}
+
+          {upcomingRestDays.length > 0 && (
+            <ul className="space-y-1">
+              {upcomingRestDays.map(freeze => (
+                <li key={freeze.id} className="flex items-center justify-between text-xs">
+                  <span>Rest day: {formatDay(freeze.dateLocal)}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleCancelRestDay(freeze.dateLocal)}
+                    className="h-6 px-2 text-muted-foreground"
+                    aria-label={`Cancel rest day on ${formatDay(freeze.dateLocal)}`}
+                  >
+                    <X className="w-3 h-3" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {freezesAvailable > 0 && (
+            <div className="flex gap-2">
+              <Input
+                type="date"
+                value={restDay}
+                min={addDays(today, 1)}
+                onChange={(e) => setRestDay(e.target.value)}
+                className="h-8 text-xs"
+                aria-label="Rest day"
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleScheduleRestDay}
+                disabled={!restDay || isScheduling}
+                className="whitespace-nowrap"
+              >
+                {isScheduling ? 'Saving...' : 'Plan Rest Day'}
+              </Button>
+            </div>
+          )}
+        </div>
+
         {/* Motivational Message */}
         <div className="text-center p-4 bg-gradient-to-r from-primary/5 to-purple-500/5 rounded-lg border border-primary/10">
           {streak.current_streak === 0 ? (
@@ -200,7 +347,7 @@ export function StreaksPanel({ streak, hasEntryToday, onStreakUpdate }: StreaksP
             </p>
           ) : streak.current_streak < 21 ? (
             <p className="text-sm text-muted-foreground">
-              ⚡ Amazing progress! You're developing a strong habit.
+              ⚡ Amazing progress! You&apos;re developing a strong habit.
             </p>
           ) : streak.current_streak < 66 ? (
             <p className="text-sm text-muted-foreground">
@@ -208,7 +355,7 @@ export function StreaksPanel({ streak, hasEntryToday, onStreakUpdate }: StreaksP
             </p>
           ) : (
             <p className="text-sm text-muted-foreground">
-              🏆 You're a master of consistency! Your dedication inspires others.
+              🏆 You&apos;re a master of consistency! Your dedication inspires others.
             </p>
           )}
         </div>
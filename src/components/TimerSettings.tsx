@@ -0,0 +1,137 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Timer, Volume2 } from 'lucide-react'
+import { useAppStore } from '@/lib/store'
+import { db, Settings } from '@/lib/database'
+import {
+  TIMER_DURATION_OPTIONS,
+  TIMER_MINIMUM_OPTIONS,
+  getTimerPreferences,
+  playSessionEndCue
+} from '@/lib/writing-time'
+import { useToast } from '@/components/ui/toast'
+
+const formatMinutes = (seconds: number) => `${seconds / 60} min`
+
+export function TimerSettings() {
+  const { settings, setSettings } = useAppStore()
+  const { addToast } = useToast()
+  const [isSaving, setIsSaving] = useState(false)
+
+  const preferences = getTimerPreferences(settings)
+
+  const saveSettings = async (changes: Partial<Settings>) => {
+    if (!settings) return
+
+    try {
+      setIsSaving(true)
+      const updatedSettings = { ...settings, ...changes }
+      await db.settings.put(updatedSettings)
+      setSettings(updatedSettings)
+    } catch (error) {
+      console.error('Failed to save timer preferences:', error)
+      addToast({
+        type: 'error',
+        title: 'Save Failed',
+        description: 'Unable to save your timer preferences. Please try again.'
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  // Keep the soft lock within the session
+  const handleDurationChange = (seconds: number) => {
+    const minimumSeconds = preferences.minimumSeconds > seconds
+      ? Math.max(...TIMER_MINIMUM_OPTIONS.filter(option => option <= seconds))
+      : preferences.minimumSeconds
+    saveSettings({ timerDurationSeconds: seconds, timerMinimumSeconds: minimumSeconds })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Timer className="w-5 h-5" />
+          Reflection Timer
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          <div>
+            <h4 className="font-medium text-sm">Session Length</h4>
+            <p className="text-xs text-muted-foreground">
+              How long the timer runs while you write. Writing time stats compare against it.
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {TIMER_DURATION_OPTIONS.map(seconds => (
+              <Button
+                key={seconds}
+                variant={preferences.durationSeconds === seconds ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => handleDurationChange(seconds)}
+                disabled={isSaving}
+              >
+                {formatMinutes(seconds)}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h4 className="font-medium text-sm">End-of-Session Sound</h4>
+            <p className="text-xs text-muted-foreground">
+              Play a soft chime when the timer finishes.
+            </p>
+          </div>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={playSessionEndCue}
+              aria-label="Preview sound"
+            >
+              <Volume2 className="w-4 h-4" />
+            </Button>
+            <Button
+              variant={preferences.soundEnabled ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => saveSettings({ timerSoundEnabled: !preferences.soundEnabled })}
+              disabled={isSaving}
+              aria-pressed={preferences.soundEnabled}
+            >
+              {preferences.soundEnabled ? 'On' : 'Off'}
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <div>
+            <h4 className="font-medium text-sm">Minimum Reflection Time</h4>
+            <p className="text-xs text-muted-foreground">
+              Soft lock: the Save button stays disabled until you&apos;ve spent this long on the entry.
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {TIMER_MINIMUM_OPTIONS.map(seconds => (
+              <Button
+                key={seconds}
+                variant={preferences.minimumSeconds === seconds ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => saveSettings({ timerMinimumSeconds: seconds })}
+                disabled={isSaving || seconds > preferences.durationSeconds}
+              >
+                {seconds === 0 ? 'Off' : formatMinutes(seconds)}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -2,21 +2,37 @@
 
 import { useState, useEffect } from 'react'
 import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import { Calendar, Settings, BookOpen, RefreshCw, Sparkles } from 'lucide-react'
+import { Calendar, Settings, BookOpen, RefreshCw, Sparkles, Plus, Edit2 } from 'lucide-react'
 import { useAppStore } from '@/lib/store'
 import { shouldShowInAppReminder } from '@/lib/notifications'
-import { dbUtils, db, Prompt } from '@/lib/database'
-import { promptUtils } from '@/lib/prompts'
+import { dbUtils, db, Prompt, Entry, Draft, NEW_DRAFT_ID } from '@/lib/database'
+import { promptUtils, CATEGORY_LABELS } from '@/lib/prompts'
+import { getEditHoursLeft, getEditPolicy } from '@/lib/edit-policy'
 import { useToast } from '@/components/ui/toast'
 import { StreaksPanel } from '@/components/StreaksPanel'
+import { WritingTimeCard } from '@/components/WritingTimeCard'
+import { OutcomeReviewCard } from '@/components/OutcomeReviewCard'
+import { ActionsSummaryCard } from '@/components/ActionsSummaryCard'
+import { OnThisDayCard } from '@/components/OnThisDayCard'
+import { toDateLocal } from '@/lib/streaks'
+
+// "9:15 PM", or "Oct 18, 11:55 PM" for a draft from an earlier day
+const formatDraftTime = (iso: string, today: string) => {
+  const date = new Date(iso)
+  const time = date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })
+  return toDateLocal(date) === today
+    ? time
+    : `${date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}, ${time}`
+}
 
 export function TodayCard() {
-  const { settings, streak, setCurrentView, setStreak } = useAppStore()
+  const { settings, streak, setCurrentView, openJournal, openPromptHistory, setStreak } = useAppStore()
   const { addToast } = useToast()
   const [showReminder, setShowReminder] = useState(false)
   const [todayDate, setTodayDate] = useState('')
-  const [todayEntry, setTodayEntryLocal] = useState<any>(null)
+  const [todayEntries, setTodayEntries] = useState<Entry[]>([])
   const [totalEntries, setTotalEntries] = useState(0)
   const [todayPrompt, setTodayPrompt] = useState<Prompt | null>(null)
   const [isLoadingPrompt, setIsLoadingPrompt] = useState(true)
@@ -24,6 +40,7 @@ export function TodayCard() {
   const [canSwap, setCanSwap] = useState(true)
   const [storageError, setStorageError] = useState<string | null>(null)
   const [hasEntryToday, setHasEntryToday] = useState(false)
+  const [drafts, setDrafts] = useState<Pick<Draft, 'dateLocal' | 'entry_id' | 'updated_at'>[]>([])
 
   useEffect(() => {
     const loadTodayData = async () => {
@@ -79,9 +96,13 @@ export function TodayCard() {
         // Load today's entry if exists (may fail if storage unavailable)
         try {
           const todayLocal = dbUtils.getTodayLocal()
-          const entry = await db.entries.where('dateLocal').equals(todayLocal).first()
-          setTodayEntryLocal(entry || null)
-          setHasEntryToday(!!entry)
+          const entries = await dbUtils.getEntriesForDate(todayLocal)
+          setTodayEntries(entries)
+          setHasEntryToday(entries.length > 0)
+          setDrafts(await dbUtils.getDraftStatuses())
+
+          // Clear out entries that have been in the trash past the retention period
+          await dbUtils.purgeExpiredTrash()
 
           // Load and validate streak data
           const validationResult = await dbUtils.validateAndRecoverStreakData()
@@ -96,13 +117,23 @@ export function TodayCard() {
             })
           }
 
+          const consumed = validationResult.consumedFreezes
+          if (consumed.length > 0) {
+            addToast({
+              type: 'info',
+              title: consumed.length === 1 ? 'Streak Freeze Used' : `${consumed.length} Streak Freezes Used`,
+              description: `Your ${validationResult.streak.current_streak} day streak is safe. ${validationResult.streak.freezes_available || 0} freeze${validationResult.streak.freezes_available === 1 ? '' : 's'} left.`,
+              duration: 6000
+            })
+          }
+
           // Load total entries count
-          const total = await db.entries.count()
+          const total = await db.entries.filter(e => !e.deleted_at).count()
           setTotalEntries(total)
         } catch (error) {
           console.warn('Failed to load entries, likely due to storage issues')
           // Set defaults for session-only mode
-          setTodayEntryLocal(null)
+          setTodayEntries([])
           setHasEntryToday(false)
           setStreak({ id: 'main', start_date: new Date().toISOString(), current_streak: 0, longest_streak: 0 })
           setTotalEntries(0)
@@ -122,8 +153,11 @@ export function TodayCard() {
     loadTodayData()
   }, [settings, setStreak, addToast])
 
-  const handleStartJournal = () => {
-    setCurrentView('journal')
+  const editPolicy = getEditPolicy(settings)
+  const formatEditHoursLeft = (entry: Entry) => {
+    const hoursLeft = getEditHoursLeft(entry, editPolicy)
+    if (hoursLeft === null) return 'Can edit'
+    return `Can edit for ${hoursLeft} more ${hoursLeft === 1 ? 'hour' : 'hours'}`
   }
 
   const handleSwapPrompt = async () => {
@@ -160,6 +194,24 @@ export function TodayCard() {
     }
   }
 
+  const handleDiscardDraft = async (draft: Pick<Draft, 'dateLocal' | 'entry_id'>) => {
+    if (!window.confirm('Discard this unsaved draft? This cannot be undone.')) return
+
+    try {
+      await dbUtils.deleteDraft(draft.dateLocal, draft.entry_id)
+      setDrafts(drafts.filter(d => d.dateLocal !== draft.dateLocal || d.entry_id !== draft.entry_id))
+    } catch (error) {
+      console.error('Failed to discard draft:', error)
+      addToast({
+        type: 'error',
+        title: 'Discard failed',
+        description: 'Unable to discard the draft. Please try again.'
+      })
+    }
+  }
+
+  const focusCategory = promptUtils.getActiveFocus(settings)
+
   const formatCueTime = (time: string) => {
     const [hours, minutes] = time.split(':')
     const hour = parseInt(hours, 10)
@@ -196,7 +248,7 @@ export function TodayCard() {
                 <div>
                   <p className="font-medium text-sm">Daily Reminder</p>
                   <p className="text-xs text-muted-foreground">
-                    It's time for your reflection at {formatCueTime(settings.dailyCueTime)}
+                    It&apos;s time for your reflection at {formatCueTime(settings.dailyCueTime)}
                   </p>
                 </div>
               </div>
@@ -213,7 +265,7 @@ export function TodayCard() {
                 <div>
                   <p className="font-medium text-sm text-yellow-800">Storage Warning</p>
                   <p className="text-xs text-yellow-700 mt-1">
-                    {storageError}. Your progress won't be saved permanently, but you can still use the app.
+                    {storageError}. Your progress won&apos;t be saved permanently, but you can still use the app.
                   </p>
                 </div>
               </div>
@@ -230,7 +282,7 @@ export function TodayCard() {
                   <Sparkles className="w-6 h-6 text-primary" />
                 </div>
                 <div>
-                  <CardTitle className="text-lg">Today's Prompt</CardTitle>
+                  <CardTitle className="text-lg">Today&apos;s Prompt</CardTitle>
                   <CardDescription className="text-sm">Your daily negative visualization practice</CardDescription>
                 </div>
               </div>
@@ -261,8 +313,29 @@ export function TodayCard() {
               </div>
             ) : todayPrompt ? (
               <div className="space-y-4">
+                {(todayPrompt.category || focusCategory) && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    {todayPrompt.category && (
+                      <Badge variant="secondary" className="text-xs">
+                        {CATEGORY_LABELS[todayPrompt.category]}
+                      </Badge>
+                    )}
+                    {focusCategory && (
+                      <span className="text-xs text-muted-foreground">
+                        This week: {CATEGORY_LABELS[focusCategory].toLowerCase()}
+                      </span>
+                    )}
+                  </div>
+                )}
                 <div className="p-4 bg-primary/5 rounded-lg border-l-4 border-primary">
                   <p className="font-medium text-sm leading-relaxed">{todayPrompt.text}</p>
+                  <button
+                    type="button"
+                    onClick={() => openPromptHistory(todayPrompt.id)}
+                    className="text-xs text-primary hover:underline mt-2"
+                  >
+                    See your past answers to this prompt
+                  </button>
                 </div>
                 {todayPrompt.gratitude_prompt && (
                   <div className="p-3 bg-muted/30 rounded-lg">
@@ -307,63 +380,88 @@ export function TodayCard() {
               <h3 className="font-medium text-sm mb-2">What is negative visualization?</h3>
               <p className="text-xs text-muted-foreground leading-relaxed">
                 A Stoic practice where you imagine potential challenges or losses to build gratitude 
-                for what you have and prepare mentally for life's uncertainties.
+                for what you have and prepare mentally for life&apos;s uncertainties.
               </p>
             </div>
 
             <div className="space-y-3">
-              {/* Show today's entry if it exists */}
-              {todayEntry && (
-                <Card className="bg-primary/5 border-primary/20 mb-4">
+              {/* Today's entries, oldest first */}
+              {todayEntries.map((entry, index) => (
+                <Card key={entry.id} className="bg-primary/5 border-primary/20 mb-4">
                   <CardHeader className="pb-3">
-                    <CardTitle className="text-base flex items-center justify-between">
-                      Today's Entry
-                      {dbUtils.canEditEntry(todayEntry) && (
-                        <span className="text-xs font-normal text-muted-foreground">
-                          Can edit for {Math.ceil(24 - (Date.now() - new Date(todayEntry.created_at).getTime()) / (1000 * 60 * 60))} more hours
+                    <CardTitle className="text-base flex items-center justify-between gap-2">
+                      {todayEntries.length > 1 ? `Today's Entry ${index + 1}` : 'Today\'s Entry'}
+                      {dbUtils.canEditEntry(entry, settings) && (
+                        <span className="flex items-center gap-2 text-xs font-normal text-muted-foreground">
+                          {formatEditHoursLeft(entry)}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => openJournal(entry.id)}
+                            className="p-2"
+                            aria-label={`Edit today's entry ${index + 1}`}
+                          >
+                            <Edit2 className="w-4 h-4" />
+                          </Button>
                         </span>
                       )}
                     </CardTitle>
                   </CardHeader>
                   <CardContent className="pt-0">
                     <div className="space-y-3 text-sm">
-                      {todayEntry.setback && (
+                      {entry.setback && (
                         <div>
                           <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">
                             Setback Visualization
                           </h4>
-                          <p className="leading-relaxed">{todayEntry.setback.length > 150 ? todayEntry.setback.substring(0, 150) + '...' : todayEntry.setback}</p>
+                          <p className="leading-relaxed">{entry.setback.length > 150 ? entry.setback.substring(0, 150) + '...' : entry.setback}</p>
                         </div>
                       )}
-                      {todayEntry.protective_step && (
+                      {entry.protective_step && (
                         <div>
                           <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">
                             Protective Step
                           </h4>
-                          <p className="leading-relaxed">{todayEntry.protective_step.length > 150 ? todayEntry.protective_step.substring(0, 150) + '...' : todayEntry.protective_step}</p>
+                          <p className="leading-relaxed">{entry.protective_step.length > 150 ? entry.protective_step.substring(0, 150) + '...' : entry.protective_step}</p>
                         </div>
                       )}
-                      {todayEntry.gratitude && (
+                      {entry.gratitude && (
                         <div>
                           <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">
                             Gratitude
                           </h4>
-                          <p className="leading-relaxed">{todayEntry.gratitude.length > 150 ? todayEntry.gratitude.substring(0, 150) + '...' : todayEntry.gratitude}</p>
+                          <p className="leading-relaxed">{entry.gratitude.length > 150 ? entry.gratitude.substring(0, 150) + '...' : entry.gratitude}</p>
                         </div>
                       )}
                     </div>
                   </CardContent>
                 </Card>
-              )}
+              ))}
+
+              {drafts.map(draft => (
+                <div key={`${draft.dateLocal}-${draft.entry_id}`} className="flex items-center justify-between gap-3 p-3 rounded-lg bg-muted/50 text-sm">
+                  <span className="text-muted-foreground">
+                    Unsaved {draft.entry_id === NEW_DRAFT_ID ? 'draft' : 'edit'} from {formatDraftTime(draft.updated_at, dbUtils.getTodayLocal())}
+                  </span>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <Button variant="ghost" size="sm" onClick={() => handleDiscardDraft(draft)}>
+                      Discard
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => openJournal(draft.entry_id === NEW_DRAFT_ID ? null : draft.entry_id)}>
+                      Resume Draft
+                    </Button>
+                  </div>
+                </div>
+              ))}
 
               <Button 
-                onClick={handleStartJournal} 
+                onClick={() => openJournal()} 
                 className="w-full" 
                 size="lg"
-                aria-label={todayEntry ? 'Edit today\'s reflection entry' : 'Start today\'s reflection entry'}
+                aria-label={todayEntries.length > 0 ? 'Write another reflection entry today' : 'Start today\'s reflection entry'}
               >
-                <Calendar className="w-4 h-4 mr-2" />
-                {todayEntry ? 'Edit Today\'s Reflection' : 'Start Today\'s Reflection'}
+                {todayEntries.length > 0 ? <Plus className="w-4 h-4 mr-2" /> : <Calendar className="w-4 h-4 mr-2" />}
+                {todayEntries.length > 0 ? 'New Entry' : 'Start Today\'s Reflection'}
               </Button>
 
               <div className="flex gap-2">
@@ -375,6 +473,14 @@ export function TodayCard() {
                 >
                   Past 7 Days
                 </Button>
+                <Button 
+                  variant="outline" 
+                  className="flex-1"
+                  onClick={() => setCurrentView('calendar')}
+                  aria-label="View your journaling calendar"
+                >
+                  Calendar
+                </Button>
                 <Button 
                   variant="outline" 
                   className="flex-1"
@@ -388,6 +494,15 @@ export function TodayCard() {
           </CardContent>
         </Card>
 
+        {/* On This Day */}
+        <OnThisDayCard />
+
+        {/* Open action items */}
+        <ActionsSummaryCard />
+
+        {/* Past setbacks due for an outcome review */}
+        <OutcomeReviewCard />
+
         {/* Streaks Panel */}
         <StreaksPanel 
           streak={streak}
@@ -414,8 +529,38 @@ export function TodayCard() {
           </CardContent>
         </Card>
 
+        <WritingTimeCard />
+
         {/* Quick Actions */}
         <div className="text-center pt-4">
+          <Button 
+            variant="ghost" 
+            size="sm"
+            onClick={() => setCurrentView('insights')}
+          >
+            Insights
+          </Button>
+          <Button 
+            variant="ghost" 
+            size="sm"
+            onClick={() => setCurrentView('review')}
+          >
+            Review
+          </Button>
+          <Button 
+            variant="ghost" 
+            size="sm"
+            onClick={() => setCurrentView('actions')}
+          >
+            Actions
+          </Button>
+          <Button 
+            variant="ghost" 
+            size="sm"
+            onClick={() => setCurrentView('outcomes')}
+          >
+            Fears vs Reality
+          </Button>
           <Button 
             variant="ghost" 
             size="sm"
@@ -0,0 +1,272 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { ArrowLeft, RotateCcw, Trash2 } from 'lucide-react'
+import { useAppStore } from '@/lib/store'
+import { db, dbUtils, Entry, DEFAULT_TRASH_RETENTION_DAYS, TRASH_RETENTION_OPTIONS } from '@/lib/database'
+import { useToast } from '@/components/ui/toast'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function TrashView() {
+  const { settings, setSettings, setCurrentView, setStreak } = useAppStore()
+  const { addToast } = useToast()
+  const [entries, setEntries] = useState<Entry[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isWorking, setIsWorking] = useState(false)
+
+  const retentionDays = settings?.trashRetentionDays || DEFAULT_TRASH_RETENTION_DAYS
+
+  useEffect(() => {
+    const loadTrash = async () => {
+      try {
+        setIsLoading(true)
+        // Anything past the retention period goes before the list is shown
+        if (await dbUtils.purgeExpiredTrash() > 0) {
+          setStreak(await dbUtils.rebuildStreakSummary())
+        }
+        setEntries(await dbUtils.getTrashedEntries())
+      } catch (error) {
+        console.error('Failed to load trash:', error)
+        addToast({
+          type: 'error',
+          title: 'Failed to load trash',
+          description: 'There was an error loading your deleted entries.'
+        })
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadTrash()
+  }, [retentionDays, setStreak, addToast])
+
+  const formatDate = (dateLocal: string) => {
+    try {
+      return new Date(dateLocal + 'T00:00:00').toLocaleDateString('en-US', {
+        weekday: 'long',
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric'
+      })
+    } catch {
+      return dateLocal
+    }
+  }
+
+  const getDaysLeft = (deletedAt: string) =>
+    Math.max(0, Math.ceil((new Date(deletedAt).getTime() + retentionDays * DAY_MS - Date.now()) / DAY_MS))
+
+  const getExcerpt = (text: string, maxLength: number = 150) => {
+    if (text.length <= maxLength) return text
+    return text.substring(0, maxLength).trim() + '...'
+  }
+
+  const handleRestore = async (entry: Entry) => {
+    try {
+      setIsWorking(true)
+      setStreak(await dbUtils.restoreEntry(entry.id))
+      setEntries(prev => prev.filter(e => e.id !== entry.id))
+      addToast({
+        type: 'success',
+        title: 'Entry restored',
+        description: 'The entry is back in your journal.'
+      })
+    } catch (error) {
+      console.error('Failed to restore entry:', error)
+      addToast({
+        type: 'error',
+        title: 'Failed to restore entry',
+        description: 'Could not restore the deleted entry.'
+      })
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleDeleteForever = async (entry: Entry) => {
+    if (!confirm('Delete this entry permanently? This action cannot be undone.')) {
+      return
+    }
+
+    try {
+      setIsWorking(true)
+      setStreak(await dbUtils.deleteEntry(entry.id))
+      setEntries(prev => prev.filter(e => e.id !== entry.id))
+    } catch (error) {
+      console.error('Failed to delete entry:', error)
+      addToast({
+        type: 'error',
+        title: 'Failed to delete entry',
+        description: 'There was an error deleting the entry. Please try again.'
+      })
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleEmptyTrash = async () => {
+    if (!confirm(`Permanently delete ${entries.length} ${entries.length === 1 ? 'entry' : 'entries'} in the trash? This action cannot be undone.`)) {
+      return
+    }
+
+    try {
+      setIsWorking(true)
+      const deleted = await dbUtils.emptyTrash()
+      setStreak(await dbUtils.rebuildStreakSummary())
+      setEntries([])
+      addToast({
+        type: 'success',
+        title: 'Trash emptied',
+        description: `${deleted} ${deleted === 1 ? 'entry was' : 'entries were'} permanently deleted.`
+      })
+    } catch (error) {
+      console.error('Failed to empty trash:', error)
+      addToast({
+        type: 'error',
+        title: 'Failed to empty trash',
+        description: 'There was an error emptying the trash. Please try again.'
+      })
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleRetentionChange = async (days: number) => {
+    if (!settings) return
+
+    try {
+      const updatedSettings = { ...settings, trashRetentionDays: days }
+      await db.settings.put(updatedSettings)
+      setSettings(updatedSettings)
+    } catch (error) {
+      console.error('Failed to save trash preferences:', error)
+      addToast({
+        type: 'error',
+        title: 'Save Failed',
+        description: 'Unable to save your trash preferences. Please try again.'
+      })
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="flex items-center justify-between p-4 border-b">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="sm" onClick={() => setCurrentView('all')} aria-label="Back to all entries">
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <div>
+            <h1 className="text-xl font-semibold">Trash</h1>
+            <p className="text-sm text-muted-foreground">
+              {entries.length} deleted {entries.length === 1 ? 'entry' : 'entries'}
+            </p>
+          </div>
+        </div>
+        {entries.length > 0 && (
+          <Button variant="outline" size="sm" onClick={handleEmptyTrash} disabled={isWorking} className="text-destructive hover:text-destructive">
+            <Trash2 className="w-4 h-4 mr-2" />
+            Empty Trash
+          </Button>
+        )}
+      </div>
+
+      <div className="container mx-auto px-4 py-6 space-y-6">
+        <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+          <span>Deleted entries are removed for good after</span>
+          {TRASH_RETENTION_OPTIONS.map(days => (
+            <Button
+              key={days}
+              variant={retentionDays === days ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => handleRetentionChange(days)}
+            >
+              {days} days
+            </Button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center min-h-[300px]">
+            <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : entries.length === 0 ? (
+          <Card>
+            <CardContent className="p-12 text-center">
+              <Trash2 className="w-16 h-16 mx-auto mb-4 text-muted-foreground/50" />
+              <h3 className="text-lg font-medium mb-2">Trash is empty</h3>
+              <p className="text-muted-foreground">
+                Entries you delete stay here for {retentionDays} days before they&apos;re removed.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {entries.map(entry => (
+              <Card key={entry.id}>
+                <CardHeader className="pb-3">
+                  <div className="flex items-start justify-between gap-3">
+                    <div>
+                      <CardTitle className="text-base">{formatDate(entry.dateLocal)}</CardTitle>
+                      <CardDescription className="text-xs">
+                        Deleted {new Date(entry.deleted_at as string).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                        <span className="ml-2">• Removed in {getDaysLeft(entry.deleted_at as string)} days</span>
+                      </CardDescription>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRestore(entry)}
+                        disabled={isWorking}
+                      >
+                        <RotateCcw className="w-4 h-4 mr-2" />
+                        Restore
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDeleteForever(entry)}
+                        disabled={isWorking}
+                        className="p-2 text-destructive hover:text-destructive"
+                        aria-label="Delete permanently"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="pt-0 space-y-3">
+                  {[
+                    { label: 'Setback Visualization', text: entry.setback },
+                    { label: 'Protective Step', text: entry.protective_step },
+                    { label: 'Gratitude', text: entry.gratitude }
+                  ].filter(field => field.text).map(field => (
+                    <div key={field.label}>
+                      <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">
+                        {field.label}
+                      </h4>
+                      <p className="text-sm leading-relaxed">{getExcerpt(field.text)}</p>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setCurrentView('today')} className="flex-1">
+            Back to Today
+          </Button>
+          <Button variant="outline" onClick={() => setCurrentView('all')} className="flex-1">
+            View All Entries
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
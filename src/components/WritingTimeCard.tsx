@@ -0,0 +1,92 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Timer, TrendingUp, TrendingDown, Minus } from 'lucide-react'
+import { useAppStore } from '@/lib/store'
+import { dbUtils } from '@/lib/database'
+import { WritingTimeStats, formatDuration, getTimerPreferences } from '@/lib/writing-time'
+
+// Trend changes smaller than this many seconds count as steady
+const STEADY_TREND_SECONDS = 15
+
+export function WritingTimeCard() {
+  const { settings } = useAppStore()
+  const [stats, setStats] = useState<WritingTimeStats | null>(null)
+  const targetSeconds = getTimerPreferences(settings).durationSeconds
+
+  useEffect(() => {
+    dbUtils.getWritingTimeStats(targetSeconds)
+      .then(setStats)
+      .catch(error => console.warn('Failed to load writing time stats:', error))
+  }, [targetSeconds])
+
+  if (!stats || stats.timedEntries === 0) return null
+
+  const targetLabel = formatDuration(targetSeconds)
+  const metTargetPercent = Math.round((stats.metTargetCount / stats.timedEntries) * 100)
+  const chartMax = Math.max(targetSeconds, ...stats.weeks.map(week => week.averageSeconds))
+  const trend = stats.trendSeconds
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Timer className="w-4 h-4" />
+          Writing Time
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4 text-center">
+          <div>
+            <div className="text-2xl font-bold text-primary">{formatDuration(stats.averageSeconds)}</div>
+            <div className="text-xs text-muted-foreground">Average per Entry</div>
+          </div>
+          <div>
+            <div className="text-2xl font-bold text-primary">{metTargetPercent}%</div>
+            <div className="text-xs text-muted-foreground">Reached {targetLabel}</div>
+          </div>
+        </div>
+
+        {/* Weekly averages against the target */}
+        <div>
+          <div className="relative h-20 flex items-end gap-1" aria-hidden="true">
+            <div
+              className="absolute left-0 right-0 border-t border-dashed border-muted-foreground/40"
+              style={{ bottom: `${(targetSeconds / chartMax) * 100}%` }}
+            />
+            {stats.weeks.map(week => (
+              <div key={week.weekStart} className="flex-1 h-full flex items-end">
+                <div
+                  className={`w-full rounded-sm ${week.averageSeconds >= targetSeconds ? 'bg-primary' : 'bg-primary/40'}`}
+                  style={{ height: `${(week.averageSeconds / chartMax) * 100}%` }}
+                  title={`Week of ${week.weekStart}: ${week.entryCount > 0 ? formatDuration(week.averageSeconds) : 'no timed entries'}`}
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground mt-2">
+            Weekly average over the last {stats.weeks.length} weeks. The dashed line is the {targetLabel} target.
+          </p>
+        </div>
+
+        {trend !== null && (
+          <p className="text-sm flex items-center gap-2">
+            {trend >= STEADY_TREND_SECONDS ? (
+              <TrendingUp className="w-4 h-4 text-primary" />
+            ) : trend <= -STEADY_TREND_SECONDS ? (
+              <TrendingDown className="w-4 h-4 text-muted-foreground" />
+            ) : (
+              <Minus className="w-4 h-4 text-muted-foreground" />
+            )}
+            {trend >= STEADY_TREND_SECONDS
+              ? `Writing ${formatDuration(trend)} longer than the 4 weeks before`
+              : trend <= -STEADY_TREND_SECONDS
+                ? `Writing ${formatDuration(-trend)} less than the 4 weeks before`
+                : 'Writing time is steady'}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
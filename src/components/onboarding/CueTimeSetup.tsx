@@ -103,7 +103,7 @@ export default function CueTimeSetup({ onContinue }: CueTimeSetupProps) {
           </div>
 
           <div className="text-xs text-muted-foreground text-center space-y-1">
-            <p>We'll send you a notification at this time each day.</p>
+            <p>We&apos;ll send you a notification at this time each day.</p>
             <p>You can change this later in settings.</p>
           </div>
         </CardContent>
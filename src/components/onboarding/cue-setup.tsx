@@ -111,7 +111,7 @@ export function CueSetup({ onComplete, onBack }: CueSetupProps) {
                 {permissionGranted === false && (
                   <div className="bg-muted/50 p-3 rounded-lg">
                     <p className="text-xs text-destructive text-center">
-                      Notification permission denied. You can still use the app, but won't receive daily reminders.
+                      Notification permission denied. You can still use the app, but won&apos;t receive daily reminders.
                     </p>
                   </div>
                 )}
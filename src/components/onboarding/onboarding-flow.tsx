@@ -2,20 +2,20 @@
 
 import { useState } from 'react'
 import { PrivacyExplainer } from './privacy-explainer'
-import { PinSetup } from './pin-setup'
+import { PinSetup, OnboardingPinData } from './pin-setup'
 import { CueSetup } from './cue-setup'
 import { TelemetryConsentModal } from '@/components/TelemetryConsentModal'
 import { db, dbUtils } from '@/lib/database'
 import { promptUtils } from '@/lib/prompts'
 import { useAppStore } from '@/lib/store'
-import { cryptoUtils } from '@/lib/crypto'
+import { cryptoUtils, sessionUtils } from '@/lib/crypto'
 import { telemetryService } from '@/lib/telemetry'
 
 type OnboardingStep = 'privacy' | 'pin' | 'cue' | 'telemetry' | 'complete'
 
 export function OnboardingFlow() {
   const [currentStep, setCurrentStep] = useState<OnboardingStep>('privacy')
-  const [pinData, setPinData] = useState<{ salt: string; iterations: number; hash: string } | null>(null)
+  const [pinData, setPinData] = useState<OnboardingPinData | null>(null)
   
   const { setSettings, setFirstLaunch, setCurrentView } = useAppStore()
 
@@ -31,6 +31,10 @@ export function OnboardingFlow() {
           pinSalt: pinData.salt,
           pinIterations: pinData.iterations,
           pinHash: pinData.hash,
+          dataKeyWrapped: pinData.wrappedKey.wrappedKey,
+          dataKeySalt: pinData.wrappedKey.salt,
+          dataKeyIv: pinData.wrappedKey.iv,
+          dataKeyIterations: pinData.wrappedKey.iterations,
         }),
         ...(cueTime && { dailyCueTime: cueTime }),
         telemetryOptIn,
@@ -38,6 +42,11 @@ export function OnboardingFlow() {
 
       await db.settings.put(updatedSettings)
 
+      // Keep the new entry data key for this session so the user isn't asked for the PIN right away
+      if (pinData) {
+        sessionUtils.setDataKey(pinData.dataKey)
+      }
+
       // Initialize seed prompts and streak
       await promptUtils.initializeSeedPrompts()
       await dbUtils.initializeStreakSummary()
@@ -5,10 +5,15 @@ import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
 import { Lock, Shield } from 'lucide-react'
-import { cryptoUtils } from '@/lib/crypto'
+import { cryptoUtils, PinHashData, WrappedKeyData } from '@/lib/crypto'
+
+export interface OnboardingPinData extends PinHashData {
+  dataKey: CryptoKey
+  wrappedKey: WrappedKeyData
+}
 
 interface PinSetupProps {
-  onNext: (pinData?: { salt: string; iterations: number; hash: string }) => void
+  onNext: (pinData?: OnboardingPinData) => void
   onBack: () => void
 }
 
@@ -40,7 +45,9 @@ export function PinSetup({ onNext, onBack }: PinSetupProps) {
 
     try {
       const pinData = await cryptoUtils.hashPin(pin)
-      onNext(pinData)
+      const dataKey = await cryptoUtils.generateDataKey()
+      const wrappedKey = await cryptoUtils.wrapDataKey(dataKey, pin)
+      onNext({ ...pinData, dataKey, wrappedKey })
     } catch (err) {
       setError('Failed to set up PIN. Please try again.')
     } finally {
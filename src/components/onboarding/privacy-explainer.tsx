@@ -72,7 +72,7 @@ export function PrivacyExplainer({ onNext }: PrivacyExplainerProps) {
               <div>
                 <p className="font-medium text-sm">Delete Everything</p>
                 <p className="text-xs text-muted-foreground">
-                  Clear all data with one tap. It's completely gone.
+                  Clear all data with one tap. It&apos;s completely gone.
                 </p>
               </div>
             </div>
@@ -80,7 +80,7 @@ export function PrivacyExplainer({ onNext }: PrivacyExplainerProps) {
 
           <div className="bg-muted/50 p-3 rounded-lg">
             <p className="text-xs text-muted-foreground text-center">
-              Optional: Set up a 4-digit PIN to lock your journal when you're away
+              Optional: Set up a 4-digit PIN to lock your journal when you&apos;re away
             </p>
           </div>
 
@@ -116,7 +116,7 @@ export function LockScreen({ onUnlock }: LockScreenProps) {
 
           <div className="bg-muted/50 p-3 rounded-lg">
             <p className="text-xs text-muted-foreground">
-              This will clear all data from your device's storage and return the app to its initial state. 
+              This will clear all data from your device&apos;s storage and return the app to its initial state. 
               You will need to set up the app again from the beginning.
             </p>
           </div>
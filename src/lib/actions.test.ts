@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { buildActionReminders, computeActionStats, getDefaultDueDate, isOverdue } from './actions';
+import type { ActionItem, Entry } from './database';
+
+const TODAY = '2024-03-10';
+
+const item = (overrides: Partial<ActionItem>): ActionItem => ({
+  id: 'action-entry-1',
+  entry_id: 'entry-1',
+  status: 'planned',
+  remind: true,
+  created_at: '2024-03-01T20:00:00.000Z',
+  updated_at: '2024-03-01T20:00:00.000Z',
+  ...overrides,
+});
+
+const entry = (protective_step: string): Entry => ({
+  id: 'entry-1',
+  dateLocal: '2024-03-01',
+  prompt_id: 'seed-1',
+  setback: 'a',
+  protective_step,
+  gratitude: 'c',
+  created_at: '2024-03-01T20:00:00.000Z',
+});
+
+describe('isOverdue', () => {
+  it('counts open actions due before today', () => {
+    expect(isOverdue(item({ due_date: '2024-03-09' }), TODAY)).toBe(true);
+    expect(isOverdue(item({ due_date: TODAY }), TODAY)).toBe(false);
+    expect(isOverdue(item({}), TODAY)).toBe(false);
+  });
+
+  it('ignores finished actions', () => {
+    expect(isOverdue(item({ due_date: '2024-03-09', status: 'done' }), TODAY)).toBe(false);
+    expect(isOverdue(item({ due_date: '2024-03-09', status: 'dropped' }), TODAY)).toBe(false);
+  });
+});
+
+describe('getDefaultDueDate', () => {
+  it('is a week out', () => {
+    expect(getDefaultDueDate('2024-02-26')).toBe('2024-03-04');
+  });
+});
+
+describe('computeActionStats', () => {
+  it('counts each status and the due dates of open actions', () => {
+    const stats = computeActionStats([
+      item({ status: 'planned', due_date: '2024-03-09' }),
+      item({ status: 'doing', due_date: TODAY }),
+      item({ status: 'planned' }),
+      item({ status: 'done', due_date: '2024-03-01' }),
+      item({ status: 'dropped', due_date: TODAY }),
+    ], TODAY);
+
+    expect(stats).toEqual({ total: 5, open: 3, done: 1, dropped: 1, overdue: 1, dueToday: 1, completionRate: 25 });
+  });
+
+  it('leaves dropped actions out of the completion rate', () => {
+    expect(computeActionStats([item({ status: 'done' }), item({ status: 'dropped' })], TODAY).completionRate).toBe(100);
+    expect(computeActionStats([item({ status: 'dropped' })], TODAY).completionRate).toBe(0);
+    expect(computeActionStats([], TODAY).completionRate).toBe(0);
+  });
+});
+
+describe('buildActionReminders', () => {
+  it('only reminds for open actions due today or tomorrow', () => {
+    const reminders = buildActionReminders([
+      { item: item({ id: 'today', due_date: TODAY }), entry: entry('Call the bank') },
+      { item: item({ id: 'tomorrow', due_date: '2024-03-11' }), entry: entry('Call the bank') },
+      { item: item({ id: 'later', due_date: '2024-03-12' }), entry: entry('Call the bank') },
+      { item: item({ id: 'overdue', due_date: '2024-03-09' }), entry: entry('Call the bank') },
+      { item: item({ id: 'silent', due_date: TODAY, remind: false }), entry: entry('Call the bank') },
+      { item: item({ id: 'done', due_date: TODAY, status: 'done' }), entry: entry('Call the bank') },
+    ], TODAY, true);
+
+    expect(reminders).toEqual([
+      { id: 'today', dueDate: TODAY, message: 'Action due today: Call the bank' },
+      { id: 'tomorrow', dueDate: '2024-03-11', message: 'Action due today: Call the bank' },
+    ]);
+  });
+
+  it('shortens long steps and hides the text when asked', () => {
+    const actions = [{ item: item({ due_date: TODAY }), entry: entry('x'.repeat(100)) }];
+
+    expect(buildActionReminders(actions, TODAY, true)[0].message).toBe(`Action due today: ${'x'.repeat(80)}...`);
+    expect(buildActionReminders(actions, TODAY, false)[0].message).toBe('One of your action items is due today.');
+  });
+});
@@ -0,0 +1,82 @@
+import type { ActionItem, ActionStatus, Entry, Settings } from './database';
+import { scheduleActionReminders, ActionReminder } from './notifications';
+import { addDays } from './streaks';
+
+export const ACTION_STATUSES: { value: ActionStatus; label: string }[] = [
+  { value: 'planned', label: 'Planned' },
+  { value: 'doing', label: 'Doing' },
+  { value: 'done', label: 'Done' },
+  { value: 'dropped', label: 'Dropped' },
+];
+
+// New action items are due a week after they are created unless a date is picked
+export const DEFAULT_ACTION_DUE_DAYS = 7;
+
+// Reminders fire at the daily cue time, or this time when no cue is set
+export const DEFAULT_ACTION_REMINDER_TIME = '09:00';
+
+export interface ActionStats {
+  total: number;
+  open: number; // planned or doing
+  done: number;
+  dropped: number;
+  overdue: number;
+  dueToday: number;
+  completionRate: number; // done out of everything not dropped, 0-100
+}
+
+export const actionItemId = (entryId: string) => `action-${entryId}`;
+
+export const isOpenAction = (item: ActionItem) => item.status === 'planned' || item.status === 'doing';
+
+export function isOverdue(item: ActionItem, today: string): boolean {
+  return isOpenAction(item) && !!item.due_date && item.due_date < today;
+}
+
+export function getDefaultDueDate(today: string): string {
+  return addDays(today, DEFAULT_ACTION_DUE_DAYS);
+}
+
+export function computeActionStats(items: ActionItem[], today: string): ActionStats {
+  const stats: ActionStats = { total: items.length, open: 0, done: 0, dropped: 0, overdue: 0, dueToday: 0, completionRate: 0 };
+
+  for (const item of items) {
+    if (item.status === 'done') stats.done++;
+    else if (item.status === 'dropped') stats.dropped++;
+    else stats.open++;
+
+    if (isOverdue(item, today)) stats.overdue++;
+    if (isOpenAction(item) && item.due_date === today) stats.dueToday++;
+  }
+
+  const counted = stats.total - stats.dropped;
+  stats.completionRate = counted > 0 ? Math.round((stats.done / counted) * 100) : 0;
+  return stats;
+}
+
+// Reminders for open actions due today or tomorrow. Later ones are picked up
+// on a later visit, since reminders are only held for a day. With a PIN set
+// the step's text is left out, as notifications show on the lock screen.
+export function buildActionReminders(actions: { item: ActionItem; entry: Entry }[], today: string, showText: boolean): ActionReminder[] {
+  const tomorrow = addDays(today, 1);
+  return actions
+    .filter(({ item }) =>
+      item.remind && isOpenAction(item) && !!item.due_date && item.due_date >= today && item.due_date <= tomorrow
+    )
+    .map(({ item, entry }) => {
+      const text = entry.protective_step.length > 80 ? entry.protective_step.substring(0, 80).trim() + '...' : entry.protective_step;
+      return {
+        id: item.id,
+        dueDate: item.due_date as string,
+        message: showText ? `Action due today: ${text}` : 'One of your action items is due today.',
+      };
+    });
+}
+
+// Reschedule reminders after the action items or the cue time change
+export function syncActionReminders(actions: { item: ActionItem; entry: Entry }[], settings: Settings | null, today: string): void {
+  scheduleActionReminders(
+    buildActionReminders(actions, today, !settings?.pinHash),
+    settings?.dailyCueTime || DEFAULT_ACTION_REMINDER_TIME
+  );
+}
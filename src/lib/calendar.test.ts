@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addMonths,
+  buildCalendarDays,
+  getHeatLevel,
+  getKeyboardTarget,
+  getMonthWeeks,
+  getWeekdayIndex,
+  getYearWeeks,
+} from './calendar';
+
+describe('getWeekdayIndex', () => {
+  it('counts from Monday', () => {
+    expect(getWeekdayIndex('2024-01-01')).toBe(0);
+    expect(getWeekdayIndex('2024-03-01')).toBe(4);
+    expect(getWeekdayIndex('2024-03-10')).toBe(6);
+  });
+});
+
+describe('addMonths', () => {
+  it('keeps the day of the month', () => {
+    expect(addMonths('2024-03-15', 1)).toBe('2024-04-15');
+    expect(addMonths('2024-01-15', -1)).toBe('2023-12-15');
+    expect(addMonths('2024-11-15', 2)).toBe('2025-01-15');
+  });
+
+  it('clamps to the end of shorter months', () => {
+    expect(addMonths('2024-01-31', 1)).toBe('2024-02-29');
+    expect(addMonths('2023-01-31', 1)).toBe('2023-02-28');
+    expect(addMonths('2024-03-31', -1)).toBe('2024-02-29');
+    expect(addMonths('2024-05-31', 1)).toBe('2024-06-30');
+  });
+});
+
+describe('getMonthWeeks', () => {
+  it('pads the first and last week to whole weeks', () => {
+    // February 2024 starts on a Thursday and has 29 days
+    const weeks = getMonthWeeks(2024, 1);
+
+    expect(weeks).toHaveLength(5);
+    expect(weeks[0]).toEqual([null, null, null, '2024-02-01', '2024-02-02', '2024-02-03', '2024-02-04']);
+    expect(weeks[4]).toEqual(['2024-02-26', '2024-02-27', '2024-02-28', '2024-02-29', null, null, null]);
+  });
+
+  it('needs no padding when the month ends on a Sunday', () => {
+    const weeks = getMonthWeeks(2024, 5);
+
+    expect(weeks).toHaveLength(5);
+    expect(weeks[4][6]).toBe('2024-06-30');
+  });
+
+  it('uses six rows for a month spread over six weeks', () => {
+    // September 2024 starts on a Sunday
+    const weeks = getMonthWeeks(2024, 8);
+
+    expect(weeks).toHaveLength(6);
+    expect(weeks[0]).toEqual([null, null, null, null, null, null, '2024-09-01']);
+    expect(weeks[5][0]).toBe('2024-09-30');
+  });
+});
+
+describe('getYearWeeks', () => {
+  it('covers every day of a leap year once', () => {
+    const weeks = getYearWeeks(2024);
+    const days = weeks.flat().filter(Boolean);
+
+    expect(days).toHaveLength(366);
+    expect(new Set(days).size).toBe(366);
+    expect(weeks.every(week => week.length === 7)).toBe(true);
+  });
+
+  it('starts on the first weekday and pads the last column', () => {
+    const weeks = getYearWeeks(2024);
+
+    expect(weeks[0][0]).toBe('2024-01-01');
+    expect(weeks[weeks.length - 1]).toEqual(['2024-12-30', '2024-12-31', null, null, null, null, null]);
+  });
+
+  it('pads the first column of a year starting on a Sunday', () => {
+    const weeks = getYearWeeks(2023);
+
+    expect(weeks).toHaveLength(53);
+    expect(weeks[0]).toEqual([null, null, null, null, null, null, '2023-01-01']);
+    expect(weeks[52][6]).toBe('2023-12-31');
+  });
+});
+
+describe('buildCalendarDays', () => {
+  it('marks run positions for written and frozen days alike', () => {
+    const days = buildCalendarDays(
+      '2024-03-01',
+      '2024-03-07',
+      ['2024-03-01', '2024-03-02', '2024-03-02', '2024-03-05'],
+      ['2024-03-03']
+    );
+
+    expect(Object.values(days).map(day => day.run)).toEqual(['start', 'middle', 'end', 'none', 'single', 'none', 'none']);
+    expect(days['2024-03-02'].entryCount).toBe(2);
+    expect(days['2024-03-03']).toEqual({ dateLocal: '2024-03-03', entryCount: 0, frozen: true, run: 'end' });
+  });
+
+  it('looks past the range to place runs at its edges', () => {
+    const days = buildCalendarDays('2024-03-02', '2024-03-02', ['2024-03-01', '2024-03-02', '2024-03-03'], []);
+    expect(days['2024-03-02'].run).toBe('middle');
+  });
+});
+
+describe('getHeatLevel', () => {
+  it('caps at three entries', () => {
+    const day = (entryCount: number) => ({ dateLocal: '2024-03-01', entryCount, frozen: false, run: 'none' as const });
+
+    expect(getHeatLevel(undefined)).toBe(0);
+    expect(getHeatLevel(day(1))).toBe(1);
+    expect(getHeatLevel(day(3))).toBe(3);
+    expect(getHeatLevel(day(8))).toBe(3);
+  });
+});
+
+describe('getKeyboardTarget', () => {
+  it('moves by day across and week down in the month grid', () => {
+    expect(getKeyboardTarget('2024-03-01', 'ArrowLeft', 'month')).toBe('2024-02-29');
+    expect(getKeyboardTarget('2024-03-01', 'ArrowRight', 'month')).toBe('2024-03-02');
+    expect(getKeyboardTarget('2024-03-01', 'ArrowUp', 'month')).toBe('2024-02-23');
+    expect(getKeyboardTarget('2024-03-01', 'ArrowDown', 'month')).toBe('2024-03-08');
+  });
+
+  it('moves by week across and day down in the year heatmap', () => {
+    expect(getKeyboardTarget('2024-03-01', 'ArrowLeft', 'year')).toBe('2024-02-23');
+    expect(getKeyboardTarget('2024-03-01', 'ArrowRight', 'year')).toBe('2024-03-08');
+    expect(getKeyboardTarget('2024-03-01', 'ArrowUp', 'year')).toBe('2024-02-29');
+    expect(getKeyboardTarget('2024-03-01', 'ArrowDown', 'year')).toBe('2024-03-02');
+  });
+
+  it('jumps to the ends of the week and by month', () => {
+    expect(getKeyboardTarget('2024-03-01', 'Home', 'month')).toBe('2024-02-26');
+    expect(getKeyboardTarget('2024-03-01', 'End', 'month')).toBe('2024-03-03');
+    expect(getKeyboardTarget('2024-03-31', 'PageUp', 'month')).toBe('2024-02-29');
+    expect(getKeyboardTarget('2024-12-15', 'PageDown', 'year')).toBe('2025-01-15');
+  });
+
+  it('ignores other keys', () => {
+    expect(getKeyboardTarget('2024-03-01', 'Enter', 'month')).toBeNull();
+  });
+});
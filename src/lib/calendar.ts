@@ -0,0 +1,124 @@
+import { addDays, toDateLocal } from './streaks';
+
+// Where a day sits in a run of consecutive written or frozen days
+export type RunPosition = 'none' | 'single' | 'start' | 'middle' | 'end';
+
+export interface CalendarDay {
+  dateLocal: string;
+  entryCount: number;
+  frozen: boolean;
+  run: RunPosition;
+}
+
+export type CalendarLayout = 'month' | 'year';
+
+// Weeks start on Monday, like the weekly prompt focus
+export const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+// 0 = Monday ... 6 = Sunday
+export function getWeekdayIndex(dateLocal: string): number {
+  return (new Date(dateLocal + 'T00:00:00').getDay() + 6) % 7;
+}
+
+// Same day of the month `months` away, clamped to the end of shorter months
+export function addMonths(dateLocal: string, months: number): string {
+  const [year, month, day] = dateLocal.split('-').map(Number);
+  const target = new Date(year, month - 1 + months, 1);
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  target.setDate(Math.min(day, lastDay));
+  return toDateLocal(target);
+}
+
+// Rows of seven days for a month grid; days outside the month are null
+export function getMonthWeeks(year: number, month: number): (string | null)[][] {
+  const first = toDateLocal(new Date(year, month, 1));
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+  const cells: (string | null)[] = Array(getWeekdayIndex(first)).fill(null);
+
+  for (let day = 0; day < daysInMonth; day++) {
+    cells.push(addDays(first, day));
+  }
+  while (cells.length % 7 !== 0) cells.push(null);
+
+  const weeks: (string | null)[][] = [];
+  for (let i = 0; i < cells.length; i += 7) {
+    weeks.push(cells.slice(i, i + 7));
+  }
+  return weeks;
+}
+
+// Columns of seven days (Monday first) covering a whole year, for the heatmap
+export function getYearWeeks(year: number): (string | null)[][] {
+  const first = `${year}-01-01`;
+  const last = `${year}-12-31`;
+  const weeks: (string | null)[][] = [];
+  let week: (string | null)[] = Array(getWeekdayIndex(first)).fill(null);
+
+  for (let day = first; day <= last; day = addDays(day, 1)) {
+    week.push(day);
+    if (week.length === 7) {
+      weeks.push(week);
+      week = [];
+    }
+  }
+  if (week.length > 0) {
+    weeks.push(week.concat(Array(7 - week.length).fill(null)));
+  }
+  return weeks;
+}
+
+// Day details for every date from `from` to `to`. Runs count written and
+// frozen days alike, matching how streaks are computed.
+export function buildCalendarDays(
+  from: string,
+  to: string,
+  entryDays: string[],
+  frozenDays: string[]
+): Record<string, CalendarDay> {
+  const counts: Record<string, number> = {};
+  entryDays.forEach(day => { counts[day] = (counts[day] || 0) + 1; });
+  const frozen = new Set(frozenDays);
+  const isActive = (day: string) => !!counts[day] || frozen.has(day);
+
+  const days: Record<string, CalendarDay> = {};
+  for (let day = from; day <= to; day = addDays(day, 1)) {
+    const active = isActive(day);
+    const before = isActive(addDays(day, -1));
+    const after = isActive(addDays(day, 1));
+
+    let run: RunPosition = 'none';
+    if (active) {
+      if (before && after) run = 'middle';
+      else if (before) run = 'end';
+      else if (after) run = 'start';
+      else run = 'single';
+    }
+
+    days[day] = { dateLocal: day, entryCount: counts[day] || 0, frozen: frozen.has(day), run };
+  }
+  return days;
+}
+
+// Heatmap shade from 0 (nothing written) to 3 (three or more entries)
+export function getHeatLevel(day: CalendarDay | undefined): number {
+  return Math.min(3, day?.entryCount || 0);
+}
+
+// Date reached by a navigation key, or null if the key isn't handled. In the
+// year heatmap weeks are columns, so left/right move by a week.
+export function getKeyboardTarget(dateLocal: string, key: string, layout: CalendarLayout): string | null {
+  const horizontal = layout === 'month' ? 1 : 7;
+  const vertical = layout === 'month' ? 7 : 1;
+
+  switch (key) {
+    case 'ArrowLeft': return addDays(dateLocal, -horizontal);
+    case 'ArrowRight': return addDays(dateLocal, horizontal);
+    case 'ArrowUp': return addDays(dateLocal, -vertical);
+    case 'ArrowDown': return addDays(dateLocal, vertical);
+    case 'Home': return addDays(dateLocal, -getWeekdayIndex(dateLocal));
+    case 'End': return addDays(dateLocal, 6 - getWeekdayIndex(dateLocal));
+    case 'PageUp': return addMonths(dateLocal, -1);
+    case 'PageDown': return addMonths(dateLocal, 1);
+    default: return null;
+  }
+}
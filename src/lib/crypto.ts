@@ -6,6 +6,19 @@ export interface PinHashData {
   hash: string; // base64 encoded
 }
 
+export interface WrappedKeyData {
+  wrappedKey: string; // base64 encoded
+  salt: string; // base64 encoded
+  iv: string; // base64 encoded
+  iterations: number;
+}
+
+// Marks a stored field value as AES-GCM ciphertext ("enc:v1:<iv>:<ciphertext>")
+const ENCRYPTED_PREFIX = 'enc:v1:';
+
+// Entry data key for the unlocked session. Never persisted; cleared on lock.
+let sessionDataKey: CryptoKey | null = null;
+
 export const cryptoUtils = {
   // Generate a cryptographically secure random salt
   generateSalt(): Uint8Array {
@@ -134,6 +147,148 @@ export const cryptoUtils = {
     crypto.getRandomValues(array);
     return Array.from(array, byte => byte.toString(16).padStart(2, '0')).join('');
   },
+
+  // Generate a random AES-GCM key used to encrypt journal entries
+  async generateDataKey(): Promise<CryptoKey> {
+    return crypto.subtle.generateKey(
+      { name: 'AES-GCM', length: 256 },
+      true, // extractable so it can be re-wrapped when the PIN changes
+      ['encrypt', 'decrypt']
+    );
+  },
+
+  // Derive a key-wrapping key from the PIN. Uses its own salt so it never matches the PIN verifier.
+  async deriveWrappingKey(pin: string, salt: ArrayBuffer, iterations: number): Promise<CryptoKey> {
+    const encoder = new TextEncoder();
+    const keyMaterial = await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(pin),
+      'PBKDF2',
+      false,
+      ['deriveKey']
+    );
+
+    return crypto.subtle.deriveKey(
+      {
+        name: 'PBKDF2',
+        salt,
+        iterations,
+        hash: 'SHA-256'
+      },
+      keyMaterial,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['wrapKey', 'unwrapKey']
+    );
+  },
+
+  // Wrap the entry data key with a PIN-derived key
+  async wrapDataKey(dataKey: CryptoKey, pin: string): Promise<WrappedKeyData> {
+    const salt = this.generateSalt();
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const iterations = 100000;
+
+    try {
+      const wrappingKey = await this.deriveWrappingKey(pin, salt.buffer as ArrayBuffer, iterations);
+      const wrapped = await crypto.subtle.wrapKey('raw', dataKey, wrappingKey, {
+        name: 'AES-GCM',
+        iv: iv.buffer as ArrayBuffer
+      });
+
+      return {
+        wrappedKey: this.arrayBufferToBase64(wrapped),
+        salt: this.arrayBufferToBase64(salt.buffer as ArrayBuffer),
+        iv: this.arrayBufferToBase64(iv.buffer as ArrayBuffer),
+        iterations
+      };
+    } catch (error) {
+      console.error('Data key wrapping failed:', error);
+      throw new Error('Failed to protect encryption key');
+    }
+  },
+
+  // Unwrap the entry data key with the PIN
+  async unwrapDataKey(pin: string, wrappedData: WrappedKeyData): Promise<CryptoKey> {
+    try {
+      const wrappingKey = await this.deriveWrappingKey(
+        pin,
+        this.base64ToArrayBuffer(wrappedData.salt),
+        wrappedData.iterations
+      );
+
+      return await crypto.subtle.unwrapKey(
+        'raw',
+        this.base64ToArrayBuffer(wrappedData.wrappedKey),
+        wrappingKey,
+        { name: 'AES-GCM', iv: this.base64ToArrayBuffer(wrappedData.iv) },
+        { name: 'AES-GCM', length: 256 },
+        true,
+        ['encrypt', 'decrypt']
+      );
+    } catch (error) {
+      console.error('Data key unwrapping failed:', error);
+      throw new Error('Failed to unlock encryption key');
+    }
+  },
+
+  // Check whether a stored value is ciphertext produced by encryptText
+  isEncrypted(value: string | undefined): boolean {
+    return typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX);
+  },
+
+  // Encrypt a string with AES-GCM, returning a self-describing text value
+  async encryptText(key: CryptoKey, plaintext: string): Promise<string> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv: iv.buffer as ArrayBuffer },
+      key,
+      new TextEncoder().encode(plaintext)
+    );
+
+    return ENCRYPTED_PREFIX +
+           this.arrayBufferToBase64(iv.buffer as ArrayBuffer) + ':' +
+           this.arrayBufferToBase64(ciphertext);
+  },
+
+  // Decrypt a value produced by encryptText. Plaintext values are returned unchanged.
+  async decryptText(key: CryptoKey, value: string): Promise<string> {
+    if (!this.isEncrypted(value)) return value;
+
+    const [ivPart, dataPart] = value.slice(ENCRYPTED_PREFIX.length).split(':');
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: this.base64ToArrayBuffer(ivPart) },
+      key,
+      this.base64ToArrayBuffer(dataPart)
+    );
+
+    return new TextDecoder().decode(plaintext);
+  },
+
+  // Derive an HMAC key from the data key so search terms can be stored as
+  // keyed hashes instead of readable words
+  async deriveSearchKey(dataKey: CryptoKey): Promise<CryptoKey> {
+    const raw = await crypto.subtle.exportKey('raw', dataKey);
+    const baseKey = await crypto.subtle.importKey('raw', raw, 'HKDF', false, ['deriveKey']);
+
+    return crypto.subtle.deriveKey(
+      {
+        name: 'HKDF',
+        hash: 'SHA-256',
+        salt: new Uint8Array(0),
+        info: new TextEncoder().encode('negviz-search-index-v1'),
+      },
+      baseKey,
+      { name: 'HMAC', hash: 'SHA-256', length: 256 },
+      false,
+      ['sign']
+    );
+  },
+
+  // Keyed hash of a search term, truncated to 128 bits
+  async hashSearchTerm(searchKey: CryptoKey, term: string): Promise<string> {
+    const signature = await crypto.subtle.sign('HMAC', searchKey, new TextEncoder().encode(term));
+    return this.arrayBufferToBase64(signature.slice(0, 16));
+  },
 };
 
 // Session lock utilities
@@ -159,8 +314,26 @@ export const sessionUtils = {
     return (now - lastActivityTime) > timeoutMs;
   },
 
+  // Hold the entry data key in memory for the unlocked session
+  setDataKey(key: CryptoKey): void {
+    sessionDataKey = key;
+  },
+
+  getDataKey(): CryptoKey | null {
+    return sessionDataKey;
+  },
+
+  hasDataKey(): boolean {
+    return sessionDataKey !== null;
+  },
+
+  clearDataKey(): void {
+    sessionDataKey = null;
+  },
+
   // Clear session data on lock
   lockSession(): void {
+    this.clearDataKey();
     if (typeof window !== 'undefined') {
       localStorage.removeItem('nvj_lastActivity');
       localStorage.setItem('nvj_sessionLocked', 'true');
@@ -183,6 +356,7 @@ export const sessionUtils = {
 
   // Clear all PIN-related data on reset
   clearPinData(): void {
+    this.clearDataKey();
     if (typeof window !== 'undefined') {
       localStorage.removeItem('nvj_lastActivity');
       localStorage.removeItem('nvj_sessionLocked');
@@ -0,0 +1,103 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { db, dbUtils, DEFAULT_TRASH_RETENTION_DAYS, Entry } from './database';
+
+const NOW = new Date('2024-03-31T12:00:00.000Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * DAY_MS).toISOString();
+
+const entry = (id: string, deleted_at?: string): Entry => ({
+  id,
+  dateLocal: '2024-02-01',
+  prompt_id: 'seed-1',
+  setback: 'a',
+  protective_step: 'b',
+  gratitude: 'c',
+  created_at: '2024-02-01T20:00:00.000Z',
+  deleted_at,
+});
+
+const storedIds = async () => (await db.entries.toArray()).map(e => e.id).sort();
+
+beforeEach(async () => {
+  await dbUtils.wipeAllData();
+  // Only the clock is faked; IndexedDB still needs real timers
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('emptyTrash', () => {
+  it('deletes every trashed entry and nothing else', async () => {
+    await db.entries.bulkPut([entry('live'), entry('recent', daysAgo(1)), entry('old', daysAgo(60))]);
+
+    expect(await dbUtils.emptyTrash()).toBe(2);
+    expect(await storedIds()).toEqual(['live']);
+  });
+
+  it('removes the rows that belong to the deleted entries', async () => {
+    await db.entries.bulkPut([entry('live'), entry('trashed', daysAgo(1))]);
+    await db.searchIndex.bulkPut([
+      { term: 'job', entry_id: 'live', score: 1 },
+      { term: 'job', entry_id: 'trashed', score: 1 },
+    ]);
+    await db.actionItems.put({
+      id: 'action-1',
+      entry_id: 'trashed',
+      status: 'planned',
+      remind: false,
+      created_at: daysAgo(2),
+      updated_at: daysAgo(2),
+    });
+
+    await dbUtils.emptyTrash();
+
+    expect((await db.searchIndex.toArray()).map(row => row.entry_id)).toEqual(['live']);
+    expect(await db.actionItems.count()).toBe(0);
+  });
+
+  it('returns 0 for an empty trash', async () => {
+    await db.entries.put(entry('live'));
+    expect(await dbUtils.emptyTrash()).toBe(0);
+  });
+});
+
+describe('purgeExpiredTrash', () => {
+  it('uses the default retention when none is set', async () => {
+    await db.entries.bulkPut([
+      entry('live'),
+      entry('kept', daysAgo(DEFAULT_TRASH_RETENTION_DAYS - 1)),
+      entry('expired', daysAgo(DEFAULT_TRASH_RETENTION_DAYS + 1)),
+    ]);
+
+    expect(await dbUtils.purgeExpiredTrash()).toBe(1);
+    expect(await storedIds()).toEqual(['kept', 'live']);
+  });
+
+  it('purges entries trashed exactly at the cutoff', async () => {
+    await db.entries.bulkPut([
+      entry('at-cutoff', daysAgo(7)),
+      entry('just-inside', new Date(NOW.getTime() - 7 * DAY_MS + 1000).toISOString()),
+    ]);
+    await db.settings.put({ ...(await dbUtils.initializeSettings()), trashRetentionDays: 7 });
+
+    expect(await dbUtils.purgeExpiredTrash()).toBe(1);
+    expect(await storedIds()).toEqual(['just-inside']);
+  });
+
+  it('follows the retention setting', async () => {
+    await db.entries.bulkPut([entry('eight-days', daysAgo(8)), entry('sixty-days', daysAgo(60))]);
+    await db.settings.put({ ...(await dbUtils.initializeSettings()), trashRetentionDays: 90 });
+
+    expect(await dbUtils.purgeExpiredTrash()).toBe(0);
+
+    await db.settings.put({ ...(await dbUtils.initializeSettings()), trashRetentionDays: 7 });
+
+    expect(await dbUtils.purgeExpiredTrash()).toBe(2);
+    expect(await storedIds()).toEqual([]);
+  });
+});
@@ -1,10 +1,28 @@
 import Dexie, { Table } from 'dexie';
+import { cryptoUtils, sessionUtils } from './crypto';
+import { applyMigrations, migrationUtils } from './migrations';
+import { addDays, computeStreaks, settleFreezes, toDateLocal } from './streaks';
+import { buildTermScores, matchesAllWords, queryKeys, tokenize, MAX_PREFIX_LENGTH, SEARCH_FIELD_WEIGHTS, SEARCH_INDEX_VERSION } from './search';
+import { computeWritingTimeStats, WritingTimeStats } from './writing-time';
+import { countActiveFilters, matchesEntryFilters, sortEntries, DURATION_BUCKETS, EntryFilters } from './entry-filters';
+import { getRevisionRetention, hasTextChanged } from './revisions';
+import { canEditEntry, getEditPolicy, EditPolicyMode, MAX_ADDENDUM_LENGTH } from './edit-policy';
+import { buildOutcomeReport, getDueCheckpoint, outcomeId, OutcomeReport, OUTCOME_CHECKPOINTS } from './outcomes';
+import { actionItemId } from './actions';
+import { buildReviewDigest, reviewId, ReviewDigest, ReviewPeriod, ReviewRange } from './reviews';
+import { computeInsights, Insights } from './insights';
+import { getOnThisDayDates } from './on-this-day';
 
 export interface Settings {
   id: string;
   pinSalt?: string;
   pinIterations?: number;
   pinHash?: string;
+  // Entry data key wrapped with a PIN-derived key (only set while a PIN is enabled)
+  dataKeyWrapped?: string;
+  dataKeySalt?: string;
+  dataKeyIv?: string;
+  dataKeyIterations?: number;
   lockTimeoutMinutes: number;
   dailyCueTime?: string; // "HH:MM" format
   dailyCueEnabled: boolean;
@@ -20,15 +38,90 @@ export interface Settings {
   lastPromptId?: string;
   installAt: string; // ISO date
   currentTheme: 'light' | 'dark' | 'system';
+  // 0 = excluded, 1 = normal, 2 = twice per cycle. Missing categories count as 1.
+  promptCategoryWeights?: Partial<Record<PromptCategory, number>>;
+  promptFocus?: { category: PromptCategory; weekStart: string }; // weekStart: Monday, YYYY-MM-DD
+  searchIndexVersion?: number; // SEARCH_INDEX_VERSION the local index was last built with
+  // Reflection timer. Missing values fall back to the defaults in writing-time.ts.
+  timerDurationSeconds?: number;
+  timerSoundEnabled?: boolean;
+  timerMinimumSeconds?: number; // soft lock: saving unlocks after this long, 0 = off
+  revisionRetention?: number | null; // revisions kept per entry, null = all, 0 = off
+  trashRetentionDays?: number; // trashed entries are purged after this many days
+  // When entries can be edited. Missing values fall back to the defaults in edit-policy.ts.
+  editPolicy?: EditPolicyMode;
+  editWindowHours?: number;
+  showOnThisDay?: boolean; // "On this day" card on the home screen, on unless false
 }
 
+export type PromptCategory = 'health' | 'relationships' | 'finances' | 'work' | 'environment' | 'growth';
+
 export interface Prompt {
   id: string;
   text: string;
   gratitude_prompt?: string;
+  category?: PromptCategory;
   archived: boolean;
   created_at: string; // ISO date
-  source: 'seed' | 'user';
+  source: 'seed' | 'user' | 'pack';
+  pack_id?: string;
+  pack_disabled?: boolean; // mirrors PromptPack.enabled so selection stays a simple filter
+}
+
+export interface PromptPack {
+  id: string;
+  name: string;
+  author?: string;
+  locale?: string;
+  version: number;
+  enabled: boolean;
+  imported_at: string; // ISO date
+}
+
+// One term of the full-text index. With a PIN set, `term` is a keyed hash of
+// the word so the index doesn't reveal entry text.
+export interface SearchIndexRow {
+  term: string;
+  entry_id: string;
+  score: number;
+}
+
+export interface SearchResult {
+  entry: Entry;
+  score: number;
+  promptText?: string;
+}
+
+// The prompt served on a given day and the shuffle cycle it belongs to
+export interface PromptHistoryEntry {
+  dateLocal: string; // YYYY-MM-DD
+  prompt_id: string;
+  cycle: number;
+  served_at: string; // ISO date
+  swapped_from?: string; // prompt id originally scheduled for the day
+}
+
+// Unsaved work from the entry form, one per entry (and one for a new entry)
+// each day. Text fields are encrypted like entries.
+export interface Draft {
+  dateLocal: string; // YYYY-MM-DD the draft was started
+  entry_id: string; // the entry being edited, or NEW_DRAFT_ID
+  setback: string;
+  protective_step: string;
+  gratitude: string;
+  duration_seconds?: number; // writing time not yet added to an entry
+  updated_at: string; // ISO date
+}
+
+// Draft slot for an entry that hasn't been saved yet
+export const NEW_DRAFT_ID = 'new';
+
+// A dated follow-up note attached to an entry. The text is encrypted like the
+// entry fields; the original text is never changed by a note.
+export interface EntryAddendum {
+  id: string;
+  text: string;
+  created_at: string; // ISO date
 }
 
 export interface Entry {
@@ -41,6 +134,62 @@ export interface Entry {
   created_at: string; // ISO date
   edited_at?: string; // ISO date
   duration_seconds?: number;
+  deleted_at?: string; // ISO date it was moved to the trash
+  addenda?: EntryAddendum[];
+}
+
+// An earlier version of an entry's text, saved when an edit replaced it.
+// Text fields are encrypted like entries.
+export interface EntryRevision {
+  id: string;
+  entry_id: string;
+  setback: string;
+  protective_step: string;
+  gratitude: string;
+  saved_at: string; // ISO date this version was written
+  replaced_at: string; // ISO date the next version replaced it
+}
+
+export type OutcomeAnswer = 'yes' | 'partly' | 'no';
+export type OutcomeSeverity = 'milder' | 'as_feared' | 'worse';
+
+// What actually happened to an entry's imagined setback, recorded when the
+// entry comes back for review at one of the outcome checkpoints
+export interface EntryOutcome {
+  id: string;
+  entry_id: string;
+  checkpoint_days: number; // 30, 90 or 365
+  happened: OutcomeAnswer | null; // null when the review was skipped
+  severity?: OutcomeSeverity; // only when it happened
+  took_step: OutcomeAnswer | null;
+  recorded_at: string; // ISO date
+}
+
+export type ActionStatus = 'planned' | 'doing' | 'done' | 'dropped';
+
+// An entry's protective step tracked as something to do. The text stays in
+// the entry, so it is encrypted with it; one action item per entry.
+export interface ActionItem {
+  id: string;
+  entry_id: string;
+  status: ActionStatus;
+  due_date?: string; // YYYY-MM-DD
+  remind: boolean; // notify on the due date
+  created_at: string; // ISO date
+  updated_at: string; // ISO date
+  completed_at?: string; // ISO date it was marked done
+}
+
+// A weekly or monthly review the user saved, with their written reflection.
+// The reflection is encrypted like entry text; the digest is recomputed.
+export interface SavedReview {
+  id: string; // "<period>-<start>"
+  period: ReviewPeriod;
+  start: string; // YYYY-MM-DD
+  end: string; // YYYY-MM-DD, inclusive
+  reflection: string;
+  created_at: string; // ISO date
+  updated_at: string; // ISO date
 }
 
 export interface StreakSummary {
@@ -49,28 +198,144 @@ export interface StreakSummary {
   current_streak: number;
   longest_streak: number;
   last_entry_date?: string; // YYYY-MM-DD
+  reset_at?: string; // ISO date of the last manual reset
+  freezes_available?: number;
 }
 
+// Ledger of streak freeze tokens. 'earned' rows add a token, 'used' rows spend
+// one to cover dateLocal, either planned ahead ('scheduled') or applied to a
+// missed day ('auto').
+export interface StreakFreeze {
+  id: string;
+  type: 'earned' | 'used';
+  dateLocal: string; // YYYY-MM-DD
+  reason?: 'auto' | 'scheduled';
+  created_at: string; // ISO date
+}
+
+export interface StreakBackup {
+  id: string;
+  created_at: string; // ISO date
+  streak: StreakSummary;
+}
+
+// Shape of the JSON document written by dbUtils.exportDataWithProgress
+export interface ExportedEntry {
+  id: string;
+  createdAt: string; // ISO date
+  content: {
+    setback: string;
+    protective_step: string;
+    gratitude: string;
+    addenda?: EntryAddendum[];
+  };
+  metadata: {
+    dateLocal: string; // YYYY-MM-DD
+    prompt_id: string;
+    edited_at?: string;
+    duration_seconds?: number;
+    deleted_at?: string;
+  };
+}
+
+export interface ExportedRevision {
+  id: string;
+  entry_id: string;
+  content: {
+    setback: string;
+    protective_step: string;
+    gratitude: string;
+  };
+  saved_at: string;
+  replaced_at: string;
+}
+
+export interface ExportDocument {
+  meta: {
+    appName: string;
+    appVersion: string;
+    exportedAt: string;
+    entryCount: number;
+  };
+  entries: ExportedEntry[];
+  revisions?: ExportedRevision[];
+  outcomes?: EntryOutcome[];
+  actionItems?: ActionItem[];
+  reviews?: SavedReview[];
+  streakFreezes?: StreakFreeze[];
+  promptHistory?: PromptHistoryEntry[];
+  settings: Partial<Settings> | null;
+  prompts: Prompt[];
+  promptPacks?: PromptPack[];
+  streakSummary?: StreakSummary | null;
+}
+
+// Free-text entry fields that are encrypted at rest when a PIN is set
+export const ENCRYPTED_ENTRY_FIELDS = ['setback', 'protective_step', 'gratitude'] as const;
+type EncryptedFields = Pick<Entry, typeof ENCRYPTED_ENTRY_FIELDS[number]> & { addenda?: EntryAddendum[] };
+
 export class JournalDB extends Dexie {
   settings!: Table<Settings, string>;
   prompts!: Table<Prompt, string>;
   entries!: Table<Entry, string>;
   streakSummary!: Table<StreakSummary, string>;
+  streakBackups!: Table<StreakBackup, string>;
+  streakFreezes!: Table<StreakFreeze, string>;
+  promptHistory!: Table<PromptHistoryEntry, string>;
+  promptPacks!: Table<PromptPack, string>;
+  searchIndex!: Table<SearchIndexRow, [string, string]>;
+  entryDrafts!: Table<Draft, [string, string]>;
+  entryRevisions!: Table<EntryRevision, string>;
+  entryOutcomes!: Table<EntryOutcome, string>;
+  actionItems!: Table<ActionItem, string>;
+  reviews!: Table<SavedReview, string>;
+
+  private pendingOpen: ReturnType<Dexie['open']> | null = null;
 
   constructor() {
     super('NegativeVizJournalDB');
     
-    this.version(1).stores({
-      settings: '&id, installAt, lastPromptDate, swapUsedDate',
-      prompts: '&id, source, archived, created_at',
-      entries: '&id, dateLocal, prompt_id, created_at, edited_at',
-      streakSummary: '&id, start_date, last_entry_date',
-    });
+    // Schema versions and upgrades are declared in migrations.ts
+    applyMigrations(this);
+  }
+
+  // Dexie calls open() on first access. Snapshot existing data before any
+  // pending upgrade runs, restore it if the upgrade fails and drop it once the
+  // upgrade has gone through.
+  open() {
+    if (!this.pendingOpen) {
+      this.pendingOpen = Dexie.Promise.resolve(migrationUtils.snapshotBeforeUpgrade(this.name))
+        .then(() => super.open())
+        .then(async (opened) => {
+          try {
+            await migrationUtils.discardSnapshot();
+          } catch (error) {
+            console.warn('Failed to delete pre-migration snapshot:', error);
+          }
+          return opened;
+        })
+        .catch(async (error) => {
+          await migrationUtils.handleOpenFailure(this.name, error);
+          throw error;
+        })
+        .finally(() => {
+          this.pendingOpen = null;
+        });
+    }
+    return this.pendingOpen;
   }
 }
 
 export const db = new JournalDB();
 
+// Trashed entries stay in the entries table until they're purged. Everything
+// except the Trash view works on the rest.
+const isLiveEntry = (entry: Entry) => !entry.deleted_at;
+
+// Days trashed entries are kept before they're deleted for good
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90];
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
 // Database utility functions
 // LocalStorage fallback when IndexedDB is not available
 const localStorageDB = {
@@ -154,6 +419,17 @@ export const dbUtils = {
     return newSettings;
   },
 
+  // Save some settings fields on top of what's stored, read in the same
+  // transaction so fields saved since the caller last rendered are kept
+  async mergeSettings(changes: Partial<Settings>): Promise<Settings> {
+    return db.transaction('rw', db.settings, async () => {
+      const stored = await this.initializeSettings();
+      const nextSettings: Settings = { ...stored, ...changes, id: 'main' };
+      await db.settings.put(nextSettings);
+      return nextSettings;
+    });
+  },
+
   // Initialize default streak summary
   async initializeStreakSummary(): Promise<StreakSummary> {
     const existing = await db.streakSummary.get('main');
@@ -189,51 +465,44 @@ export const dbUtils = {
     }
   },
 
-  // Validate and recover streak data
-  async validateAndRecoverStreakData(): Promise<{ isValid: boolean, recovered: boolean, streak: StreakSummary }> {
+  // Validate the cached streak summary against the entries and rebuild it if they disagree
+  async validateAndRecoverStreakData(): Promise<{ isValid: boolean, recovered: boolean, streak: StreakSummary, consumedFreezes: StreakFreeze[] }> {
     try {
-      const streak = await db.streakSummary.get('main');
-      
-      if (!streak) {
-        // No streak data, create new
-        const newStreak = await this.initializeStreakSummary();
-        return { isValid: false, recovered: true, streak: newStreak };
-      }
+      const cached = await db.streakSummary.get('main');
+      const { streak, consumed } = await this.settleStreakFreezes();
 
-      // Validate streak data structure
-      if (typeof streak.current_streak !== 'number' || 
-          typeof streak.longest_streak !== 'number' ||
-          streak.current_streak < 0 || 
-          streak.longest_streak < 0 ||
-          streak.current_streak > streak.longest_streak) {
-        
-        // Corrupted data, attempt recovery
-        console.warn('Corrupted streak data detected, attempting recovery');
-        
-        const recoveredStreak: StreakSummary = {
-          id: 'main',
-          start_date: streak.start_date || new Date().toISOString(),
-          current_streak: Math.max(0, Math.min(streak.current_streak || 0, streak.longest_streak || 0)),
-          longest_streak: Math.max(0, streak.longest_streak || 0, streak.current_streak || 0),
-          last_entry_date: streak.last_entry_date
-        };
+      // current_streak legitimately drops to 0 as days pass, and a freeze spent
+      // just now can join two runs, so only compare what the entries decide
+      const isValid = !!cached && (consumed.length > 0 || (
+        cached.longest_streak === streak.longest_streak &&
+        cached.last_entry_date === streak.last_entry_date
+      ));
 
-        await db.streakSummary.put(recoveredStreak);
-        return { isValid: false, recovered: true, streak: recoveredStreak };
+      if (!isValid && cached) {
+        console.warn('Streak summary was out of date and has been rebuilt from entries');
       }
 
-      return { isValid: true, recovered: false, streak };
+      return { isValid, recovered: !isValid && !!cached, streak, consumedFreezes: consumed };
     } catch (error) {
       console.error('Error validating streak data:', error);
       // Complete failure, reinitialize
       const newStreak = await this.initializeStreakSummary();
-      return { isValid: false, recovered: true, streak: newStreak };
+      return { isValid: false, recovered: true, streak: newStreak, consumedFreezes: [] };
     }
   },
 
   // Safely handle storage quota exceeded
   async handleStorageQuotaExceeded(): Promise<{ success: boolean, message: string }> {
     try {
+      // Emptying the trash is the cheapest way to free space
+      const purged = await this.emptyTrash();
+      if (purged > 0) {
+        return {
+          success: true,
+          message: `Emptied the trash (${purged} entries) to free storage space.`
+        };
+      }
+
       // Try to free up space by removing old entries beyond a reasonable limit
       const totalEntries = await db.entries.count();
       
@@ -244,7 +513,14 @@ export const dbUtils = {
           .toArray();
         
         if (oldEntries.length > 0) {
-          await db.entries.bulkDelete(oldEntries.map(e => e.id));
+          const ids = oldEntries.map(e => e.id);
+          await db.entries.bulkDelete(ids);
+          await db.searchIndex.where('entry_id').anyOf(ids).delete();
+          await db.entryRevisions.where('entry_id').anyOf(ids).delete();
+          await db.entryOutcomes.where('entry_id').anyOf(ids).delete();
+          await db.actionItems.where('entry_id').anyOf(ids).delete();
+          await db.entryDrafts.where('entry_id').anyOf(ids).delete();
+          await this.rebuildStreakSummary();
           return { 
             success: true, 
             message: `Cleaned up ${oldEntries.length} old entries to free storage space.` 
@@ -265,12 +541,745 @@ export const dbUtils = {
     }
   },
 
-  // Check if entry was created within last 24 hours for edit permission
-  canEditEntry(entry: Entry): boolean {
-    const now = new Date();
-    const createdAt = new Date(entry.created_at);
-    const hoursDiff = (now.getTime() - createdAt.getTime()) / (1000 * 60 * 60);
-    return hoursDiff <= 24;
+  // Whether the entry's text can still be changed under the edit policy
+  canEditEntry(entry: Entry, settings: Settings | null | undefined): boolean {
+    return canEditEntry(entry, getEditPolicy(settings));
+  },
+
+  // Key to write entry text with. While a PIN is set the journal has to be
+  // unlocked, so plaintext never ends up next to encrypted rows. The key is
+  // read before any await, as in saveDraft.
+  async getWriteKey(): Promise<CryptoKey | null> {
+    const key = sessionUtils.getDataKey();
+    if (!key && (await db.settings.get('main'))?.dataKeyWrapped) {
+      throw new Error('Journal is locked. Enter your PIN to save entries.');
+    }
+    return key;
+  },
+
+  // Encrypt an entry's (or draft's) free-text fields. Without a key (no PIN)
+  // the record is stored as-is.
+  async encryptEntry<T extends EncryptedFields>(entry: T, key: CryptoKey | null = sessionUtils.getDataKey()): Promise<T> {
+    if (!key) return entry;
+
+    const encrypted: T = { ...entry };
+    for (const field of ENCRYPTED_ENTRY_FIELDS) {
+      if (cryptoUtils.isEncrypted(entry[field])) continue;
+      (encrypted as EncryptedFields)[field] = await cryptoUtils.encryptText(key, entry[field]);
+    }
+    if (entry.addenda) {
+      encrypted.addenda = await Promise.all(entry.addenda.map(async addendum =>
+        cryptoUtils.isEncrypted(addendum.text) ? addendum : { ...addendum, text: await cryptoUtils.encryptText(key, addendum.text) }
+      ));
+    }
+    return encrypted;
+  },
+
+  // Decrypt an entry (or draft) read from the database. Plaintext rows pass through untouched.
+  async decryptEntry<T extends EncryptedFields>(entry: T, key: CryptoKey | null = sessionUtils.getDataKey()): Promise<T> {
+    const decrypted: T = { ...entry };
+    for (const field of ENCRYPTED_ENTRY_FIELDS) {
+      if (!cryptoUtils.isEncrypted(entry[field])) continue;
+      if (!key) {
+        throw new Error('Journal is locked. Enter your PIN to read entries.');
+      }
+      (decrypted as EncryptedFields)[field] = await cryptoUtils.decryptText(key, entry[field]);
+    }
+    if (entry.addenda) {
+      decrypted.addenda = await Promise.all(entry.addenda.map(async addendum => {
+        if (!cryptoUtils.isEncrypted(addendum.text)) return addendum;
+        if (!key) throw new Error('Journal is locked. Enter your PIN to read entries.');
+        return { ...addendum, text: await cryptoUtils.decryptText(key, addendum.text) };
+      }));
+    }
+    return decrypted;
+  },
+
+  async decryptEntries(entries: Entry[]): Promise<Entry[]> {
+    return Promise.all(entries.map(entry => this.decryptEntry(entry)));
+  },
+
+  // Write an entry through the encryption layer. Adds, edits, deletes and
+  // restores all rebuild the streak cache and return it.
+  async putEntry(entry: Entry): Promise<StreakSummary> {
+    const key = await this.getWriteKey();
+    await this.recordRevision(entry);
+    await db.entries.put(await this.encryptEntry(entry, key));
+    await this.indexEntry(entry);
+    return this.rebuildStreakSummary();
+  },
+
+  async addEntry(entry: Entry): Promise<StreakSummary> {
+    await db.entries.add(await this.encryptEntry(entry, await this.getWriteKey()));
+    await this.indexEntry(entry);
+    return this.rebuildStreakSummary();
+  },
+
+  // Move an entry to the trash. It keeps its search index rows and revisions
+  // so restoring it needs no re-encryption or reindexing.
+  async trashEntry(id: string): Promise<StreakSummary> {
+    await db.entries.update(id, { deleted_at: new Date().toISOString() });
+    return this.rebuildStreakSummary();
+  },
+
+  async restoreEntry(id: string): Promise<StreakSummary> {
+    await db.entries.where('id').equals(id).modify(entry => { delete entry.deleted_at; });
+    return this.rebuildStreakSummary();
+  },
+
+  // Delete entries for good, with their search index rows, revisions, outcomes, action items and drafts
+  async deleteEntries(ids: string[]): Promise<StreakSummary> {
+    await db.transaction('rw', [db.entries, db.searchIndex, db.entryRevisions, db.entryOutcomes, db.actionItems, db.entryDrafts], async () => {
+      await db.entries.bulkDelete(ids);
+      await db.searchIndex.where('entry_id').anyOf(ids).delete();
+      await db.entryRevisions.where('entry_id').anyOf(ids).delete();
+      await db.entryOutcomes.where('entry_id').anyOf(ids).delete();
+      await db.actionItems.where('entry_id').anyOf(ids).delete();
+      await db.entryDrafts.where('entry_id').anyOf(ids).delete();
+    });
+    return this.rebuildStreakSummary();
+  },
+
+  async deleteEntry(id: string): Promise<StreakSummary> {
+    return this.deleteEntries([id]);
+  },
+
+  // Trashed entries, most recently deleted first, decrypted
+  async getTrashedEntries(): Promise<Entry[]> {
+    const entries = await db.entries.where('deleted_at').above('').reverse().sortBy('deleted_at');
+    return this.decryptEntries(entries);
+  },
+
+  // Permanently delete everything in the trash. Returns how many were deleted.
+  async emptyTrash(): Promise<number> {
+    const ids = await db.entries.where('deleted_at').above('').primaryKeys();
+    if (ids.length > 0) await this.deleteEntries(ids);
+    return ids.length;
+  },
+
+  // Permanently delete entries trashed longer ago than the retention period
+  async purgeExpiredTrash(): Promise<number> {
+    const settings = await db.settings.get('main');
+    const days = settings?.trashRetentionDays || DEFAULT_TRASH_RETENTION_DAYS;
+    const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+    const ids = await db.entries.where('deleted_at').between('', cutoff, false, true).primaryKeys();
+    if (ids.length > 0) await this.deleteEntries(ids);
+    return ids.length;
+  },
+
+  // Keep the stored version of an entry as a revision before an edit replaces
+  // its text. The row is copied as stored, so it stays encrypted.
+  async recordRevision(entry: Entry): Promise<void> {
+    const [stored, settings] = await Promise.all([db.entries.get(entry.id), db.settings.get('main')]);
+    const retention = getRevisionRetention(settings);
+    if (!stored || retention === 0) return;
+    if (!hasTextChanged(await this.decryptEntry(stored), entry)) return;
+
+    await db.entryRevisions.add({
+      id: `revision-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      entry_id: stored.id,
+      setback: stored.setback,
+      protective_step: stored.protective_step,
+      gratitude: stored.gratitude,
+      saved_at: stored.edited_at || stored.created_at,
+      replaced_at: new Date().toISOString(),
+    });
+    await this.pruneRevisions(retention, entry.id);
+  },
+
+  // Drop the oldest revisions beyond the retention limit, for one entry or all
+  async pruneRevisions(retention: number | null, entryId?: string): Promise<void> {
+    if (retention === null) return;
+
+    const revisions = entryId
+      ? await db.entryRevisions.where('entry_id').equals(entryId).toArray()
+      : await db.entryRevisions.toArray();
+    const byEntry = new Map<string, EntryRevision[]>();
+    revisions.forEach(r => byEntry.set(r.entry_id, (byEntry.get(r.entry_id) || []).concat(r)));
+
+    const expired: string[] = [];
+    byEntry.forEach(list => {
+      list.sort((a, b) => b.replaced_at.localeCompare(a.replaced_at))
+        .slice(retention)
+        .forEach(r => expired.push(r.id));
+    });
+    if (expired.length > 0) await db.entryRevisions.bulkDelete(expired);
+  },
+
+  // An entry's earlier versions, newest first, decrypted
+  async getEntryRevisions(entryId: string): Promise<EntryRevision[]> {
+    const revisions = await db.entryRevisions.where('entry_id').equals(entryId).toArray();
+    revisions.sort((a, b) => b.replaced_at.localeCompare(a.replaced_at));
+    return Promise.all(revisions.map(revision => this.decryptEntry(revision)));
+  },
+
+  // Put an earlier version's text back. The text it replaces becomes a
+  // revision itself, so a restore can be undone the same way.
+  async restoreRevision(revisionId: string): Promise<{ success: boolean; entry?: Entry; streak?: StreakSummary; error?: string }> {
+    try {
+      const revision = await db.entryRevisions.get(revisionId);
+      const stored = revision && await db.entries.get(revision.entry_id);
+      if (!revision || !stored) {
+        return { success: false, error: 'This version no longer exists.' };
+      }
+
+      const current = await this.decryptEntry(stored);
+      if (!this.canEditEntry(current, await db.settings.get('main'))) {
+        return { success: false, error: 'This entry can no longer be edited.' };
+      }
+
+      const { setback, protective_step, gratitude } = await this.decryptEntry(revision);
+      const entry = { ...current, setback, protective_step, gratitude, edited_at: new Date().toISOString() };
+      const streak = await this.putEntry(entry);
+      return { success: true, entry, streak };
+    } catch (error) {
+      console.error('Failed to restore revision:', error);
+      return { success: false, error: 'Failed to restore this version. Please try again.' };
+    }
+  },
+
+  // Attach a dated follow-up note to an entry. Only allowed under the
+  // addendum edit policy; the entry's own text and edited_at stay as they are.
+  async addAddendum(entryId: string, text: string): Promise<{ success: boolean; entry?: Entry; error?: string }> {
+    const trimmed = text.trim();
+    if (!trimmed) return { success: false, error: 'The note is empty.' };
+    if (trimmed.length > MAX_ADDENDUM_LENGTH) {
+      return { success: false, error: `Notes must be under ${MAX_ADDENDUM_LENGTH} characters.` };
+    }
+
+    try {
+      const [stored, settings] = await Promise.all([db.entries.get(entryId), db.settings.get('main')]);
+      if (!stored || stored.deleted_at) return { success: false, error: 'This entry no longer exists.' };
+      if (getEditPolicy(settings).mode !== 'addendum') {
+        return { success: false, error: 'Follow-up notes are turned off in Settings.' };
+      }
+
+      const current = await this.decryptEntry(stored);
+      const entry: Entry = {
+        ...current,
+        addenda: (current.addenda || []).concat({
+          id: `addendum-${Date.now()}`,
+          text: trimmed,
+          created_at: new Date().toISOString(),
+        }),
+      };
+      await this.putEntry(entry);
+      return { success: true, entry };
+    } catch (error) {
+      console.error('Failed to add follow-up note:', error);
+      return { success: false, error: 'Failed to save the note. Please try again.' };
+    }
+  },
+
+  // The next past entry waiting on an outcome review, with the checkpoint it
+  // reached most recently. Entries without a setback are never asked about.
+  async getDueOutcomeReview(): Promise<{ entry: Entry; checkpointDays: number } | null> {
+    const today = this.getTodayLocal();
+    const [candidates, outcomes] = await Promise.all([
+      db.entries.where('dateLocal').belowOrEqual(addDays(today, -OUTCOME_CHECKPOINTS[0])).filter(isLiveEntry).toArray(),
+      db.entryOutcomes.toArray(),
+    ]);
+
+    const reviewed = new Map<string, number[]>();
+    outcomes.forEach(o => reviewed.set(o.entry_id, (reviewed.get(o.entry_id) || []).concat(o.checkpoint_days)));
+
+    // Prefer the entry that reached its checkpoint most recently
+    let due: { stored: Entry; checkpointDays: number; reachedOn: string } | null = null;
+    for (const stored of candidates) {
+      const checkpointDays = getDueCheckpoint(stored.dateLocal, today, reviewed.get(stored.id) || []);
+      if (checkpointDays === null) continue;
+      const reachedOn = addDays(stored.dateLocal, checkpointDays);
+      if (!due || reachedOn > due.reachedOn) due = { stored, checkpointDays, reachedOn };
+    }
+    if (!due) return null;
+
+    const entry = await this.decryptEntry(due.stored);
+    if (!entry.setback.trim()) {
+      // Nothing to compare against, so the checkpoint is closed without asking
+      await this.saveOutcome({ entry_id: entry.id, checkpoint_days: due.checkpointDays, happened: null, took_step: null });
+      return this.getDueOutcomeReview();
+    }
+    return { entry, checkpointDays: due.checkpointDays };
+  },
+
+  // Record (or re-record) the review for one entry and checkpoint
+  async saveOutcome(outcome: Omit<EntryOutcome, 'id' | 'recorded_at'>): Promise<EntryOutcome> {
+    const saved: EntryOutcome = {
+      ...outcome,
+      id: outcomeId(outcome.entry_id, outcome.checkpoint_days),
+      recorded_at: new Date().toISOString(),
+    };
+    await db.entryOutcomes.put(saved);
+    return saved;
+  },
+
+  async getEntryOutcomes(entryId: string): Promise<EntryOutcome[]> {
+    return db.entryOutcomes.where('entry_id').equals(entryId).sortBy('checkpoint_days');
+  },
+
+  // Fears vs reality across every answered review of a live entry, plus the
+  // most recent reviews with their entries for the report's timeline
+  async getOutcomeReport(recentLimit: number = 10): Promise<{ report: OutcomeReport; recent: { outcome: EntryOutcome; entry: Entry }[] }> {
+    const [outcomes, entries] = await Promise.all([
+      db.entryOutcomes.orderBy('recorded_at').reverse().toArray(),
+      db.entries.filter(isLiveEntry).toArray(),
+    ]);
+    const entriesById = new Map(entries.map(e => [e.id, e]));
+    const live = outcomes.filter(o => entriesById.has(o.entry_id));
+
+    const recentOutcomes = live.filter(o => o.happened !== null).slice(0, recentLimit);
+    const recent = await Promise.all(recentOutcomes.map(async outcome => ({
+      outcome,
+      entry: await this.decryptEntry(entriesById.get(outcome.entry_id) as Entry),
+    })));
+
+    return { report: buildOutcomeReport(live), recent };
+  },
+
+  // Action items of live entries with their decrypted entries
+  async getActionItems(): Promise<{ item: ActionItem; entry: Entry }[]> {
+    const items = await db.actionItems.toArray();
+    const entries = await db.entries.bulkGet(items.map(item => item.entry_id));
+
+    const actions: { item: ActionItem; entry: Entry }[] = [];
+    for (let i = 0; i < items.length; i++) {
+      const entry = entries[i];
+      if (entry && isLiveEntry(entry)) actions.push({ item: items[i], entry: await this.decryptEntry(entry) });
+    }
+    return actions;
+  },
+
+  async getActionItemForEntry(entryId: string): Promise<ActionItem | undefined> {
+    return db.actionItems.get(actionItemId(entryId));
+  },
+
+  // Start tracking an entry's protective step as an action item
+  async createActionItem(entryId: string, dueDate?: string): Promise<ActionItem> {
+    const now = new Date().toISOString();
+    const item: ActionItem = {
+      id: actionItemId(entryId),
+      entry_id: entryId,
+      status: 'planned',
+      due_date: dueDate,
+      remind: false,
+      created_at: now,
+      updated_at: now,
+    };
+    await db.actionItems.put(item);
+    return item;
+  },
+
+  async updateActionItem(id: string, changes: Partial<Pick<ActionItem, 'status' | 'due_date' | 'remind'>>): Promise<ActionItem | undefined> {
+    const item = await db.actionItems.get(id);
+    if (!item) return undefined;
+
+    const updated: ActionItem = { ...item, ...changes, updated_at: new Date().toISOString() };
+    if (changes.status) {
+      updated.completed_at = changes.status === 'done' ? item.completed_at || updated.updated_at : undefined;
+    }
+    await db.actionItems.put(updated);
+    return updated;
+  },
+
+  async deleteActionItem(id: string): Promise<void> {
+    await db.actionItems.delete(id);
+  },
+
+  // Digest for a week or month, built from local data only
+  async getReviewDigest(range: ReviewRange): Promise<ReviewDigest> {
+    const [settings, allEntries, prompts, actionItems, freezes] = await Promise.all([
+      db.settings.get('main'),
+      db.entries.filter(isLiveEntry).toArray(),
+      db.prompts.toArray(),
+      db.actionItems.toArray(),
+      db.streakFreezes.toArray(),
+    ]);
+
+    const entryDays = allEntries.map(e => e.dateLocal);
+    const installDay = toDateLocal(settings?.installAt ? new Date(settings.installAt) : new Date());
+    const firstDay = entryDays.reduce((first, day) => day < first ? day : first, installDay);
+    const entries = await this.decryptEntries(
+      allEntries.filter(e => e.dateLocal >= range.start && e.dateLocal <= range.end)
+    );
+
+    return buildReviewDigest({
+      range,
+      today: this.getTodayLocal(),
+      firstDay,
+      entries,
+      entryDays,
+      coveredDays: freezes.filter(f => f.type === 'used').map(f => f.dateLocal),
+      prompts,
+      actionItems,
+    });
+  },
+
+  // Entries written on this day of the month in earlier months and years,
+  // newest first, decrypted. Throws while the journal is locked.
+  async getOnThisDayEntries(): Promise<Entry[]> {
+    const earliest = await db.entries.orderBy('dateLocal').filter(isLiveEntry).first();
+    if (!earliest) return [];
+
+    const dates = getOnThisDayDates(this.getTodayLocal(), earliest.dateLocal);
+    if (dates.length === 0) return [];
+
+    const entries = await db.entries.where('dateLocal').anyOf(dates).filter(isLiveEntry).toArray();
+    entries.sort((a, b) => b.dateLocal.localeCompare(a.dateLocal) || a.created_at.localeCompare(b.created_at));
+    return this.decryptEntries(entries);
+  },
+
+  // Text analytics over every live entry, computed in memory
+  async getInsights(): Promise<Insights> {
+    const [entries, prompts] = await Promise.all([
+      db.entries.filter(isLiveEntry).toArray(),
+      db.prompts.toArray(),
+    ]);
+    return computeInsights(await this.decryptEntries(entries), prompts);
+  },
+
+  // Every live answer to one prompt, oldest first, decrypted
+  async getEntriesForPrompt(promptId: string): Promise<Entry[]> {
+    const entries = await db.entries
+      .where('[prompt_id+dateLocal]')
+      .between([promptId, Dexie.minKey], [promptId, Dexie.maxKey])
+      .filter(isLiveEntry)
+      .toArray();
+    entries.sort((a, b) => a.dateLocal.localeCompare(b.dateLocal) || a.created_at.localeCompare(b.created_at));
+    return this.decryptEntries(entries);
+  },
+
+  async getSavedReview(range: ReviewRange): Promise<SavedReview | undefined> {
+    const review = await db.reviews.get(reviewId(range));
+    return review ? this.decryptReview(review) : undefined;
+  },
+
+  // Saved reviews, newest period first, without decrypting their reflections
+  async getSavedReviewList(): Promise<Pick<SavedReview, 'id' | 'period' | 'start' | 'end' | 'updated_at'>[]> {
+    const reviews = await db.reviews.orderBy('start').reverse().toArray();
+    return reviews.map(({ id, period, start, end, updated_at }) => ({ id, period, start, end, updated_at }));
+  },
+
+  async saveReview(range: ReviewRange, reflection: string): Promise<SavedReview> {
+    const existing = await db.reviews.get(reviewId(range));
+    const now = new Date().toISOString();
+    const review: SavedReview = {
+      id: reviewId(range),
+      period: range.period,
+      start: range.start,
+      end: range.end,
+      reflection: reflection.trim(),
+      created_at: existing?.created_at || now,
+      updated_at: now,
+    };
+    await db.reviews.put(await this.encryptReview(review, await this.getWriteKey()));
+    return review;
+  },
+
+  async deleteReview(id: string): Promise<void> {
+    await db.reviews.delete(id);
+  },
+
+  async encryptReview(review: SavedReview, key: CryptoKey | null = sessionUtils.getDataKey()): Promise<SavedReview> {
+    if (!key || cryptoUtils.isEncrypted(review.reflection)) return review;
+    return { ...review, reflection: await cryptoUtils.encryptText(key, review.reflection) };
+  },
+
+  async decryptReview(review: SavedReview, key: CryptoKey | null = sessionUtils.getDataKey()): Promise<SavedReview> {
+    if (!cryptoUtils.isEncrypted(review.reflection)) return review;
+    if (!key) throw new Error('Journal is locked. Enter your PIN to read entries.');
+    return { ...review, reflection: await cryptoUtils.decryptText(key, review.reflection) };
+  },
+
+  // Whether the given day has exactly one entry, i.e. the one just saved started the day
+  async isFirstEntryForDate(dateLocal: string): Promise<boolean> {
+    return (await db.entries.where('dateLocal').equals(dateLocal).filter(isLiveEntry).count()) === 1;
+  },
+
+  // Re-encrypt every entry from one data key to another (null = plaintext) and
+  // save the matching settings in the same transaction, so the stored key always
+  // matches the rows. Used when a PIN is set, changed or disabled. Only the
+  // given fields are merged into the stored settings, which are returned.
+  async migrateEntryEncryption(fromKey: CryptoKey | null, toKey: CryptoKey | null, settingsChanges: Partial<Settings>): Promise<Settings> {
+    const [rows, prompts, drafts, revisions, reviews] = await Promise.all([
+      db.entries.toArray(),
+      db.prompts.toArray(),
+      db.entryDrafts.toArray(),
+      db.entryRevisions.toArray(),
+      db.reviews.toArray(),
+    ]);
+    const promptText = new Map(prompts.map(p => [p.id, p.text]));
+    const encode = await this.getSearchTermEncoder(toKey);
+    const migrated: Entry[] = [];
+    const indexRows: SearchIndexRow[] = [];
+
+    // The search index is keyed by the data key too, so rebuild it alongside
+    for (const row of rows) {
+      const plain = await this.decryptEntry(row, fromKey);
+      migrated.push(await this.encryptEntry(plain, toKey));
+      indexRows.push(...await this.buildSearchRows(plain, promptText.get(plain.prompt_id), encode));
+    }
+
+    const migratedDrafts: Draft[] = [];
+    for (const draft of drafts) {
+      migratedDrafts.push(await this.encryptEntry(await this.decryptEntry(draft, fromKey), toKey));
+    }
+
+    const migratedRevisions: EntryRevision[] = [];
+    for (const revision of revisions) {
+      migratedRevisions.push(await this.encryptEntry(await this.decryptEntry(revision, fromKey), toKey));
+    }
+
+    const migratedReviews: SavedReview[] = [];
+    for (const review of reviews) {
+      migratedReviews.push(await this.encryptReview(await this.decryptReview(review, fromKey), toKey));
+    }
+
+    return db.transaction('rw', [db.entries, db.entryDrafts, db.entryRevisions, db.reviews, db.searchIndex, db.settings], async () => {
+      await db.entries.bulkPut(migrated);
+      await db.entryDrafts.bulkPut(migratedDrafts);
+      await db.entryRevisions.bulkPut(migratedRevisions);
+      await db.reviews.bulkPut(migratedReviews);
+      await db.searchIndex.clear();
+      await db.searchIndex.bulkPut(indexRows);
+
+      return this.mergeSettings({ ...settingsChanges, searchIndexVersion: SEARCH_INDEX_VERSION });
+    });
+  },
+
+  // The most recent unsaved draft of one entry (or NEW_DRAFT_ID), whichever
+  // day it was started on, decrypted
+  async getLatestDraft(entryId: string): Promise<Draft | undefined> {
+    const drafts = await db.entryDrafts.where('entry_id').equals(entryId).sortBy('updated_at');
+    const draft = drafts[drafts.length - 1];
+    return draft ? this.decryptEntry(draft) : undefined;
+  },
+
+  // Every draft that can be resumed, newest first, without decrypting them.
+  // Drafts of trashed entries are left out until the entry is restored, and
+  // drafts of entries that no longer exist are removed.
+  async getDraftStatuses(): Promise<Pick<Draft, 'dateLocal' | 'entry_id' | 'updated_at'>[]> {
+    const drafts = await db.entryDrafts.orderBy('updated_at').reverse().toArray();
+    const entries = await db.entries.bulkGet(drafts.map(d => d.entry_id));
+
+    const orphaned = drafts.filter((draft, i) => draft.entry_id !== NEW_DRAFT_ID && !entries[i]);
+    if (orphaned.length > 0) {
+      await db.entryDrafts.bulkDelete(orphaned.map(d => [d.dateLocal, d.entry_id] as [string, string]));
+    }
+
+    return drafts
+      .filter((draft, i) => {
+        const entry = entries[i];
+        return draft.entry_id === NEW_DRAFT_ID || (!!entry && isLiveEntry(entry));
+      })
+      .map(({ dateLocal, entry_id, updated_at }) => ({ dateLocal, entry_id, updated_at }));
+  },
+
+  // Save a draft through the encryption layer. The key is read before any
+  // await so a save started just before the session locks still completes.
+  // Returns false without writing if the journal is locked.
+  async saveDraft(draft: Draft): Promise<boolean> {
+    const key = sessionUtils.getDataKey();
+    if (!key && (await db.settings.get('main'))?.dataKeyWrapped) return false;
+
+    await db.entryDrafts.put(await this.encryptEntry(draft, key));
+    return true;
+  },
+
+  async deleteDraft(dateLocal: string, entryId: string): Promise<void> {
+    await db.entryDrafts.delete([dateLocal, entryId]);
+  },
+
+  // Encodes index terms: keyed hashes while a data key is in use, plain words otherwise
+  async getSearchTermEncoder(key: CryptoKey | null = sessionUtils.getDataKey()): Promise<(term: string) => Promise<string>> {
+    if (!key) return async (term: string) => term;
+
+    const searchKey = await cryptoUtils.deriveSearchKey(key);
+    return (term: string) => cryptoUtils.hashSearchTerm(searchKey, term);
+  },
+
+  // Index rows for one decrypted entry
+  async buildSearchRows(
+    entry: Entry,
+    promptText: string | undefined,
+    encode: (term: string) => Promise<string>
+  ): Promise<SearchIndexRow[]> {
+    const scores = Array.from(buildTermScores([
+      { text: entry.setback, weight: SEARCH_FIELD_WEIGHTS.setback },
+      { text: entry.protective_step, weight: SEARCH_FIELD_WEIGHTS.protective_step },
+      { text: entry.gratitude, weight: SEARCH_FIELD_WEIGHTS.gratitude },
+      { text: (entry.addenda || []).map(a => a.text).join(' '), weight: SEARCH_FIELD_WEIGHTS.addendum },
+      { text: promptText || '', weight: SEARCH_FIELD_WEIGHTS.prompt },
+    ]));
+    const terms = await Promise.all(scores.map(([term]) => encode(term)));
+
+    return scores.map(([, score], i) => ({ term: terms[i], entry_id: entry.id, score }));
+  },
+
+  // Replace the index rows of one decrypted entry. A failure only marks the
+  // index as stale so the next search rebuilds it; the entry itself is saved.
+  async indexEntry(entry: Entry): Promise<void> {
+    try {
+      const prompt = await db.prompts.get(entry.prompt_id);
+      const rows = await this.buildSearchRows(entry, prompt?.text, await this.getSearchTermEncoder(await this.getWriteKey()));
+
+      await db.transaction('rw', db.searchIndex, async () => {
+        await db.searchIndex.where('entry_id').equals(entry.id).delete();
+        await db.searchIndex.bulkPut(rows);
+      });
+    } catch (error) {
+      console.warn('Failed to update search index:', error);
+      const settings = await db.settings.get('main');
+      if (settings) await db.settings.put({ ...settings, searchIndexVersion: undefined });
+    }
+  },
+
+  // Re-index the entries written for a prompt after its text changes
+  async reindexEntriesForPrompt(promptId: string): Promise<void> {
+    const rows = await db.entries.where('prompt_id').equals(promptId).toArray();
+    for (const entry of await this.decryptEntries(rows)) {
+      await this.indexEntry(entry);
+    }
+  },
+
+  // Build the whole index from scratch with the current session key
+  async rebuildSearchIndex(onProgress?: (progress: number) => void): Promise<void> {
+    const [rows, prompts] = await Promise.all([db.entries.toArray(), db.prompts.toArray()]);
+    const promptText = new Map(prompts.map(p => [p.id, p.text]));
+    const encode = await this.getSearchTermEncoder(await this.getWriteKey());
+    const indexRows: SearchIndexRow[] = [];
+
+    for (let i = 0; i < rows.length; i++) {
+      const entry = await this.decryptEntry(rows[i]);
+      indexRows.push(...await this.buildSearchRows(entry, promptText.get(entry.prompt_id), encode));
+      if (i % 25 === 0) onProgress?.(Math.round((i / rows.length) * 100));
+    }
+
+    await db.transaction('rw', db.searchIndex, db.settings, async () => {
+      await db.searchIndex.clear();
+      await db.searchIndex.bulkPut(indexRows);
+      const settings = await db.settings.get('main');
+      if (settings) await db.settings.put({ ...settings, searchIndexVersion: SEARCH_INDEX_VERSION });
+    });
+    onProgress?.(100);
+  },
+
+  // Rebuild the index if it predates the current format or was marked stale
+  async ensureSearchIndex(): Promise<void> {
+    const settings = await db.settings.get('main');
+    if (settings?.searchIndexVersion !== SEARCH_INDEX_VERSION) {
+      await this.rebuildSearchIndex();
+    }
+  },
+
+  // Ranked full-text search. Every query word has to match (as a word or the
+  // start of one); scores add up per word, weighted by how rare the word is.
+  async searchEntries(query: string, limit: number = 50): Promise<{ results: SearchResult[]; queryWords: string[] }> {
+    const queryWords = Array.from(new Set(tokenize(query)));
+    if (queryWords.length === 0) return { results: [], queryWords };
+
+    await this.ensureSearchIndex();
+    const encode = await this.getSearchTermEncoder();
+    // Trashed entries keep their index rows but don't count towards IDF
+    const totalEntries = await db.entries.filter(isLiveEntry).count();
+
+    let candidates = new Map<string, number>();
+    for (let i = 0; i < queryWords.length; i++) {
+      const keys = await Promise.all(queryKeys(queryWords[i]).map(encode));
+      const rows = await db.searchIndex.where('term').anyOf(keys).toArray();
+
+      const wordScores = new Map<string, number>();
+      rows.forEach(row => wordScores.set(row.entry_id, (wordScores.get(row.entry_id) || 0) + row.score));
+      const idf = Math.log(1 + totalEntries / Math.max(1, wordScores.size));
+
+      const next = new Map<string, number>();
+      wordScores.forEach((score, id) => {
+        if (i > 0 && !candidates.has(id)) return;
+        next.set(id, (candidates.get(id) || 0) + score * idf);
+      });
+      candidates = next;
+      if (candidates.size === 0) break;
+    }
+
+    // Long query words were matched on their first letters only; check them
+    // against the decrypted text before cutting the list down
+    const needsCheck = queryWords.some(word => word.length > MAX_PREFIX_LENGTH);
+    const ranked = Array.from(candidates).sort((a, b) => b[1] - a[1]);
+    const toLoad = needsCheck ? ranked : ranked.slice(0, limit);
+
+    const [storedEntries, prompts] = await Promise.all([
+      db.entries.bulkGet(toLoad.map(([id]) => id)),
+      db.prompts.toArray(),
+    ]);
+    const promptText = new Map(prompts.map(p => [p.id, p.text]));
+
+    const results: SearchResult[] = [];
+    for (let i = 0; i < toLoad.length && results.length < limit; i++) {
+      const stored = storedEntries[i];
+      if (!stored || !isLiveEntry(stored)) continue;
+
+      const entry = await this.decryptEntry(stored);
+      const text = promptText.get(entry.prompt_id);
+      const addendaText = (entry.addenda || []).map(a => a.text).join(' ');
+      if (needsCheck && !matchesAllWords([entry.setback, entry.protective_step, entry.gratitude, addendaText, text || ''], queryWords)) {
+        continue;
+      }
+      results.push({ entry, score: toLoad[i][1], promptText: text });
+    }
+
+    results.sort((a, b) => b.score - a.score || b.entry.created_at.localeCompare(a.entry.created_at));
+    return { results, queryWords };
+  },
+
+  // One page of decrypted entries matching the filters. The narrowest indexed
+  // filter picks the rows; the rest are checked on unencrypted metadata, so
+  // only the entries on the page get decrypted.
+  async getEntriesPage(offset: number, limit: number, filters: EntryFilters): Promise<{ entries: Entry[]; total: number }> {
+    const byCreatedAt = filters.sort === 'newest' || filters.sort === 'oldest';
+    if (countActiveFilters(filters) === 0 && byCreatedAt) {
+      const collection = filters.sort === 'newest'
+        ? db.entries.orderBy('created_at').reverse()
+        : db.entries.orderBy('created_at');
+      const [count, trashed, pageEntries] = await Promise.all([
+        db.entries.count(),
+        db.entries.where('deleted_at').above('').count(),
+        collection.filter(isLiveEntry).offset(offset).limit(limit).toArray(),
+      ]);
+      return { entries: await this.decryptEntries(pageEntries), total: count - trashed };
+    }
+
+    const rows = sortEntries(await this.getFilteredEntryRows(filters), filters.sort);
+    return { entries: await this.decryptEntries(rows.slice(offset, offset + limit)), total: rows.length };
+  },
+
+  // Stored (still encrypted) entries matching the filters, in no particular order
+  async getFilteredEntryRows(filters: EntryFilters): Promise<Entry[]> {
+    const from = filters.from || '';
+    const to = filters.to || '\uffff';
+    const categoryPromptIds = filters.category
+      ? await db.prompts.where('category').equals(filters.category).primaryKeys()
+      : [];
+
+    let rows: Entry[];
+    if (filters.promptId || filters.category) {
+      const promptIds = filters.promptId ? [filters.promptId] : categoryPromptIds;
+      const perPrompt = await Promise.all(promptIds.map(promptId =>
+        db.entries.where('[prompt_id+dateLocal]').between([promptId, from], [promptId, to], true, true).toArray()
+      ));
+      rows = perPrompt.reduce<Entry[]>((all, entries) => all.concat(entries), []);
+    } else if (filters.from || filters.to) {
+      rows = await db.entries.where('dateLocal').between(from, to, true, true).toArray();
+    } else if (filters.duration && filters.duration !== 'unknown') {
+      const bucket = DURATION_BUCKETS[filters.duration];
+      rows = await db.entries.where('duration_seconds').between(bucket.min, bucket.max, true, false).toArray();
+    } else if (filters.edited === 'edited') {
+      rows = await db.entries.where('edited_at').above('').toArray();
+    } else {
+      rows = await db.entries.toArray();
+    }
+
+    const categorySet = new Set(categoryPromptIds);
+    return rows.filter(entry => isLiveEntry(entry) && matchesEntryFilters(entry, filters, categorySet));
   },
 
   // Get entries for last N days
@@ -283,55 +1292,132 @@ export const dbUtils = {
                           String(startDate.getMonth() + 1).padStart(2, '0') + '-' + 
                           String(startDate.getDate()).padStart(2, '0');
 
-    return await db.entries
+    const entries = await db.entries
       .where('dateLocal')
       .between(startDateLocal, this.getTodayLocal(), true, true)
+      .filter(isLiveEntry)
       .reverse()
       .sortBy('created_at');
+
+    return this.decryptEntries(entries);
   },
 
-  // Update streak after new entry
-  async updateStreak(entryDate: string): Promise<{ updated: boolean, isFirstToday: boolean, streakData: StreakSummary }> {
-    const streak = await this.initializeStreakSummary();
-    const yesterday = new Date();
-    yesterday.setDate(yesterday.getDate() - 1);
-    const yesterdayLocal = yesterday.getFullYear() + '-' + 
-                          String(yesterday.getMonth() + 1).padStart(2, '0') + '-' + 
-                          String(yesterday.getDate()).padStart(2, '0');
+  // Average writing time and its weekly trend. Reads metadata only.
+  async getWritingTimeStats(targetSeconds?: number): Promise<WritingTimeStats> {
+    return computeWritingTimeStats(await db.entries.filter(isLiveEntry).toArray(), this.getTodayLocal(), targetSeconds);
+  },
 
-    // Check if this is the first entry for this date
-    const existingEntryToday = await db.entries
-      .where('dateLocal')
-      .equals(entryDate)
-      .count();
+  // Decrypted entries written on one day, oldest first
+  async getEntriesForDate(dateLocal: string): Promise<Entry[]> {
+    const entries = await db.entries.where('dateLocal').equals(dateLocal).filter(isLiveEntry).sortBy('created_at');
+    return this.decryptEntries(entries);
+  },
 
-    const isFirstToday = existingEntryToday === 1;
+  // Days with entries and days covered by a freeze between two dates.
+  // Reads metadata only, so nothing is decrypted.
+  async getCalendarData(from: string, to: string): Promise<{ entryDays: string[]; frozenDays: string[] }> {
+    const [entries, freezes] = await Promise.all([
+      db.entries.where('dateLocal').between(from, to, true, true).filter(isLiveEntry).toArray(),
+      this.getStreakFreezes(),
+    ]);
 
-    if (!isFirstToday) {
-      // Not the first entry today, don't update streak
-      return { updated: false, isFirstToday: false, streakData: streak };
-    }
+    return {
+      entryDays: entries.map(e => e.dateLocal),
+      frozenDays: freezes
+        .filter(f => f.type === 'used' && f.dateLocal >= from && f.dateLocal <= to)
+        .map(f => f.dateLocal),
+    };
+  },
 
-    if (!streak.last_entry_date) {
-      // First entry ever
-      streak.current_streak = 1;
-      streak.longest_streak = 1;
-      streak.start_date = new Date().toISOString();
-    } else if (streak.last_entry_date === yesterdayLocal) {
-      // Consecutive day
-      streak.current_streak += 1;
-      streak.longest_streak = Math.max(streak.longest_streak, streak.current_streak);
-    } else if (streak.last_entry_date !== entryDate) {
-      // Gap in streak, reset
-      streak.current_streak = 1;
-      streak.start_date = new Date().toISOString();
+  // Rebuild the cached streak summary from the entries. Entries written before
+  // a manual reset (reset_at) are ignored so the reset sticks.
+  async rebuildStreakSummary(): Promise<StreakSummary> {
+    const { streak } = await this.settleStreakFreezes();
+    return streak;
+  },
+
+  // Bring the freeze ledger up to date, then recompute the streak with frozen
+  // days covered. Returns the freezes spent on missed days by this call.
+  async settleStreakFreezes(): Promise<{ streak: StreakSummary; consumed: StreakFreeze[] }> {
+    const existing = await db.streakSummary.get('main');
+    const resetAt = existing?.reset_at;
+    const resetDay = resetAt ? toDateLocal(new Date(resetAt)) : undefined;
+
+    const entries = resetAt
+      ? await db.entries.where('created_at').aboveOrEqual(resetAt).filter(isLiveEntry).toArray()
+      : await db.entries.filter(isLiveEntry).toArray();
+    const ledger = (await db.streakFreezes.toArray())
+      .filter(f => !resetDay || f.dateLocal >= resetDay);
+
+    const today = this.getTodayLocal();
+    const settlement = settleFreezes(entries.map(e => e.dateLocal), ledger, today, new Date().toISOString());
+    if (settlement.add.length > 0 || settlement.remove.length > 0) {
+      await db.transaction('rw', db.streakFreezes, async () => {
+        await db.streakFreezes.bulkDelete(settlement.remove);
+        await db.streakFreezes.bulkPut(settlement.add);
+      });
     }
-    // If last_entry_date === entryDate, it means we already counted today
 
-    streak.last_entry_date = entryDate;
+    const stats = computeStreaks(entries, today, settlement.covered);
+
+    const streak: StreakSummary = {
+      id: 'main',
+      start_date: stats.current_start
+        ? new Date(stats.current_start + 'T00:00:00').toISOString()
+        : existing?.start_date || new Date().toISOString(),
+      current_streak: stats.current_streak,
+      longest_streak: stats.longest_streak,
+      last_entry_date: stats.last_entry_date,
+      reset_at: resetAt,
+      freezes_available: settlement.available,
+    };
+
     await db.streakSummary.put(streak);
-    
-    return { updated: true, isFirstToday: true, streakData: streak };
+    return {
+      streak,
+      consumed: settlement.add.filter(f => f.type === 'used'),
+    };
+  },
+
+  // Freeze ledger rows, newest day first
+  async getStreakFreezes(): Promise<StreakFreeze[]> {
+    const freezes = await db.streakFreezes.orderBy('dateLocal').reverse().toArray();
+    const resetAt = (await db.streakSummary.get('main'))?.reset_at;
+    const resetDay = resetAt ? toDateLocal(new Date(resetAt)) : undefined;
+    return freezes.filter(f => !resetDay || f.dateLocal >= resetDay);
+  },
+
+  // Spend a freeze token on a future day so it doesn't break the streak
+  async scheduleRestDay(dateLocal: string): Promise<{ success: boolean; error?: string; streak?: StreakSummary }> {
+    if (dateLocal <= this.getTodayLocal()) {
+      return { success: false, error: 'Rest days have to be scheduled in advance.' };
+    }
+    if (await db.streakFreezes.get(`freeze-used-${dateLocal}`)) {
+      return { success: false, error: 'That day is already a rest day.' };
+    }
+
+    const current = await this.rebuildStreakSummary();
+    if (!current.freezes_available) {
+      return { success: false, error: 'No streak freezes available. Earn one with every 7-day run.' };
+    }
+
+    await db.streakFreezes.put({
+      id: `freeze-used-${dateLocal}`,
+      type: 'used',
+      dateLocal,
+      reason: 'scheduled',
+      created_at: new Date().toISOString(),
+    });
+    return { success: true, streak: await this.rebuildStreakSummary() };
+  },
+
+  // Cancel an upcoming rest day and get its token back
+  async cancelRestDay(dateLocal: string): Promise<StreakSummary> {
+    const freeze = await db.streakFreezes.get(`freeze-used-${dateLocal}`);
+    if (freeze?.reason === 'scheduled' && dateLocal > this.getTodayLocal()) {
+      await db.streakFreezes.delete(freeze.id);
+    }
+    return this.rebuildStreakSummary();
   },
 
   // Get formatted streak start date
@@ -351,7 +1437,7 @@ export const dbUtils = {
   // Check if user has entry for today
   async hasEntryToday(): Promise<boolean> {
     const todayLocal = this.getTodayLocal();
-    const count = await db.entries.where('dateLocal').equals(todayLocal).count();
+    const count = await db.entries.where('dateLocal').equals(todayLocal).filter(isLiveEntry).count();
     return count > 0;
   },
 
@@ -360,24 +1446,24 @@ export const dbUtils = {
     try {
       const currentStreak = await db.streakSummary.get('main');
       
-      // Create backup in settings for recovery
+      // Keep a backup for recovery
       if (currentStreak) {
-        const settings = await db.settings.get('main');
-        if (settings) {
-          await db.settings.put({
-            ...settings,
-            // Store backup in a way that doesn't interfere with schema
-            lastPromptId: `backup_streak_${Date.now()}_${JSON.stringify(currentStreak)}`
-          });
-        }
+        const now = Date.now();
+        await db.streakBackups.put({
+          id: `streak-backup-${now}`,
+          created_at: new Date(now).toISOString(),
+          streak: currentStreak,
+        });
       }
 
-      // Reset streak
+      // Reset streak. Only entries written from now on will count.
+      const now = new Date().toISOString();
       const resetStreak: StreakSummary = {
         id: 'main',
-        start_date: new Date().toISOString(),
+        start_date: now,
         current_streak: 0,
         longest_streak: 0,
+        reset_at: now,
       };
 
       await db.streakSummary.put(resetStreak);
@@ -388,14 +1474,15 @@ export const dbUtils = {
     }
   },
 
-  // Completely wipe all data (for PIN reset or delete all)
+  // Completely wipe all data (for PIN reset or delete all), including any
+  // pre-migration snapshot
   async wipeAllData(): Promise<void> {
-    await db.transaction('rw', db.settings, db.prompts, db.entries, db.streakSummary, async () => {
-      await db.settings.clear();
-      await db.prompts.clear();
-      await db.entries.clear();
-      await db.streakSummary.clear();
+    await db.transaction('rw', db.tables, async () => {
+      for (const table of db.tables) {
+        await table.clear();
+      }
     });
+    await migrationUtils.discardSnapshot();
   },
 
   // Enhanced export with progress tracking
@@ -410,12 +1497,24 @@ export const dbUtils = {
   }> {
     onProgress?.(0, 'Starting export...');
     
-    const [settings, prompts, entries, streakSummary] = await Promise.all([
+    const [settings, prompts, promptPacks, storedEntries, storedRevisions, outcomes, actionItems, storedReviews, streakFreezes, promptHistory, streakSummary] = await Promise.all([
       db.settings.get('main'),
       db.prompts.toArray(),
+      db.promptPacks.toArray(),
       db.entries.orderBy('created_at').toArray(),
+      db.entryRevisions.orderBy('replaced_at').toArray(),
+      db.entryOutcomes.orderBy('recorded_at').toArray(),
+      db.actionItems.toArray(),
+      db.reviews.orderBy('start').toArray(),
+      db.streakFreezes.orderBy('created_at').toArray(),
+      db.promptHistory.toArray(),
       db.streakSummary.get('main')
     ]);
+
+    onProgress?.(20, 'Decrypting entries...');
+    const entries = await this.decryptEntries(storedEntries);
+    const revisions = await Promise.all(storedRevisions.map(revision => this.decryptEntry(revision)));
+    const reviews = await Promise.all(storedReviews.map(review => this.decryptReview(review)));
     
     onProgress?.(30, 'Processing data...');
 
@@ -425,6 +1524,11 @@ export const dbUtils = {
       pinSalt: undefined,
       pinIterations: undefined, 
       pinHash: undefined,
+      searchIndexVersion: undefined,
+      dataKeyWrapped: undefined,
+      dataKeySalt: undefined,
+      dataKeyIv: undefined,
+      dataKeyIterations: undefined,
     } : null;
 
     onProgress?.(60, 'Formatting export...');
@@ -437,7 +1541,7 @@ export const dbUtils = {
       entryCount: entries.length
     };
 
-    const exportData = {
+    const exportData: ExportDocument = {
       meta: metadata,
       entries: entries.map(entry => ({
         id: entry.id,
@@ -445,24 +1549,46 @@ export const dbUtils = {
         content: {
           setback: entry.setback,
           protective_step: entry.protective_step,
-          gratitude: entry.gratitude
+          gratitude: entry.gratitude,
+          addenda: entry.addenda
         },
         metadata: {
           dateLocal: entry.dateLocal,
           prompt_id: entry.prompt_id,
           edited_at: entry.edited_at,
-          duration_seconds: entry.duration_seconds
+          duration_seconds: entry.duration_seconds,
+          deleted_at: entry.deleted_at
         }
       })),
+      revisions: revisions.map(revision => ({
+        id: revision.id,
+        entry_id: revision.entry_id,
+        content: {
+          setback: revision.setback,
+          protective_step: revision.protective_step,
+          gratitude: revision.gratitude
+        },
+        saved_at: revision.saved_at,
+        replaced_at: revision.replaced_at
+      })),
+      outcomes,
+      actionItems,
+      reviews,
+      streakFreezes,
+      promptHistory,
       settings: sanitizedSettings,
       prompts: prompts.map(p => ({
         id: p.id,
         text: p.text,
         gratitude_prompt: p.gratitude_prompt,
+        category: p.category,
         archived: p.archived,
         source: p.source,
+        pack_id: p.pack_id,
+        pack_disabled: p.pack_disabled,
         created_at: p.created_at
       })),
+      promptPacks,
       streakSummary,
     };
 
@@ -524,12 +1650,7 @@ export const dbUtils = {
       }
 
       // Clear IndexedDB
-      await db.transaction('rw', db.settings, db.prompts, db.entries, db.streakSummary, async () => {
-        await db.settings.clear();
-        await db.prompts.clear();
-        await db.entries.clear();
-        await db.streakSummary.clear();
-      });
+      await this.wipeAllData();
 
       // Clear localStorage with nvj prefix
       if (typeof window !== 'undefined' && window.localStorage) {
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import {
+  canAddAddendum,
+  canEditEntry,
+  DEFAULT_EDIT_WINDOW_HOURS,
+  formatWindowHours,
+  getEditHoursLeft,
+  getEditLockReason,
+  getEditPolicy,
+} from './edit-policy';
+import type { Entry, Settings } from './database';
+
+const HOUR_MS = 60 * 60 * 1000;
+const CREATED = new Date('2024-03-10T20:00:00.000Z').getTime();
+
+const entry: Entry = {
+  id: 'entry-1',
+  dateLocal: '2024-03-10',
+  prompt_id: 'seed-1',
+  setback: 'a',
+  protective_step: 'b',
+  gratitude: 'c',
+  created_at: new Date(CREATED).toISOString(),
+};
+
+const settings: Settings = {
+  id: 'main',
+  lockTimeoutMinutes: 5,
+  dailyCueEnabled: false,
+  notificationsEnabled: false,
+  telemetryOptIn: false,
+  installAt: '2024-01-01T00:00:00.000Z',
+  currentTheme: 'system',
+};
+
+describe('getEditPolicy', () => {
+  it('defaults to a 24 hour window', () => {
+    expect(getEditPolicy(null)).toEqual({ mode: 'window', windowHours: DEFAULT_EDIT_WINDOW_HOURS });
+    expect(getEditPolicy(settings)).toEqual({ mode: 'window', windowHours: 24 });
+  });
+
+  it('reads the chosen mode and window', () => {
+    expect(getEditPolicy({ ...settings, editPolicy: 'addendum', editWindowHours: 6 })).toEqual({ mode: 'addendum', windowHours: 6 });
+  });
+});
+
+describe('getEditHoursLeft', () => {
+  const window = { mode: 'window' as const, windowHours: 6 };
+
+  it('rounds partial hours up', () => {
+    expect(getEditHoursLeft(entry, window, CREATED)).toBe(6);
+    expect(getEditHoursLeft(entry, window, CREATED + 1)).toBe(6);
+    expect(getEditHoursLeft(entry, window, CREATED + 5.5 * HOUR_MS)).toBe(1);
+  });
+
+  it('reaches 0 exactly when the window ends', () => {
+    expect(getEditHoursLeft(entry, window, CREATED + 6 * HOUR_MS - 1)).toBe(1);
+    expect(getEditHoursLeft(entry, window, CREATED + 6 * HOUR_MS)).toBe(0);
+    expect(getEditHoursLeft(entry, window, CREATED + 48 * HOUR_MS)).toBe(0);
+  });
+
+  it('has no limit when always editable and none left when never', () => {
+    expect(getEditHoursLeft(entry, { mode: 'always', windowHours: 6 }, CREATED + 1000 * HOUR_MS)).toBeNull();
+    expect(getEditHoursLeft(entry, { mode: 'never', windowHours: 6 }, CREATED)).toBe(0);
+  });
+});
+
+describe('canEditEntry', () => {
+  it('allows edits until the window ends', () => {
+    const addendum = { mode: 'addendum' as const, windowHours: 1 };
+
+    expect(canEditEntry(entry, addendum, CREATED + HOUR_MS - 1)).toBe(true);
+    expect(canEditEntry(entry, addendum, CREATED + HOUR_MS)).toBe(false);
+  });
+
+  it('follows never and always regardless of age', () => {
+    expect(canEditEntry(entry, { mode: 'never', windowHours: 24 }, CREATED)).toBe(false);
+    expect(canEditEntry(entry, { mode: 'always', windowHours: 24 }, CREATED + 1000 * HOUR_MS)).toBe(true);
+  });
+});
+
+describe('canAddAddendum', () => {
+  it('is only allowed in addendum mode', () => {
+    expect(canAddAddendum({ mode: 'addendum', windowHours: 24 })).toBe(true);
+    expect(canAddAddendum({ mode: 'window', windowHours: 24 })).toBe(false);
+  });
+});
+
+describe('formatWindowHours', () => {
+  it('uses days for whole multiples of a day above one', () => {
+    expect(formatWindowHours(1)).toBe('1 hour');
+    expect(formatWindowHours(6)).toBe('6 hours');
+    expect(formatWindowHours(24)).toBe('24 hours');
+    expect(formatWindowHours(72)).toBe('3 days');
+    expect(formatWindowHours(168)).toBe('7 days');
+  });
+});
+
+describe('getEditLockReason', () => {
+  it('explains each mode', () => {
+    expect(getEditLockReason({ mode: 'never', windowHours: 24 })).toBe('Entries can\'t be edited once saved.');
+    expect(getEditLockReason({ mode: 'window', windowHours: 72 })).toBe('Entries can only be edited within 3 days.');
+    expect(getEditLockReason({ mode: 'addendum', windowHours: 1 })).toBe(
+      'Entries can only be edited within 1 hour. Add a follow-up note instead.'
+    );
+  });
+});
@@ -0,0 +1,65 @@
+import type { Entry, Settings } from './database';
+
+// never: entries are fixed once saved
+// window: editable for `windowHours` after writing
+// always: editable at any time
+// addendum: editable for `windowHours`; after that, and at any time, dated
+//   follow-up notes can be attached without touching the original text
+export type EditPolicyMode = 'never' | 'window' | 'always' | 'addendum';
+
+export interface EditPolicy {
+  mode: EditPolicyMode;
+  windowHours: number;
+}
+
+export const EDIT_POLICY_MODES: { mode: EditPolicyMode; label: string; description: string }[] = [
+  { mode: 'never', label: 'Never', description: 'Entries are fixed as soon as they are saved.' },
+  { mode: 'window', label: 'Time limit', description: 'Entries can be edited for a while after writing.' },
+  { mode: 'addendum', label: 'Follow-up notes', description: 'Edit for a while, then add dated notes without changing the original.' },
+  { mode: 'always', label: 'Always', description: 'Entries can be edited at any time.' },
+];
+
+export const EDIT_WINDOW_OPTIONS = [1, 6, 24, 72, 168];
+export const DEFAULT_EDIT_WINDOW_HOURS = 24;
+
+// Follow-up notes share the entry fields' length limit
+export const MAX_ADDENDUM_LENGTH = 280;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export function getEditPolicy(settings: Settings | null | undefined): EditPolicy {
+  return {
+    mode: settings?.editPolicy || 'window',
+    windowHours: settings?.editWindowHours || DEFAULT_EDIT_WINDOW_HOURS,
+  };
+}
+
+// Whole hours left to edit the entry: null when there is no limit, 0 once it has passed
+export function getEditHoursLeft(entry: Entry, policy: EditPolicy, now: number = Date.now()): number | null {
+  if (policy.mode === 'always') return null;
+  if (policy.mode === 'never') return 0;
+
+  const elapsedHours = (now - new Date(entry.created_at).getTime()) / HOUR_MS;
+  return Math.max(0, Math.ceil(policy.windowHours - elapsedHours));
+}
+
+export function canEditEntry(entry: Entry, policy: EditPolicy, now: number = Date.now()): boolean {
+  const hoursLeft = getEditHoursLeft(entry, policy, now);
+  return hoursLeft === null || hoursLeft > 0;
+}
+
+export function canAddAddendum(policy: EditPolicy): boolean {
+  return policy.mode === 'addendum';
+}
+
+export function formatWindowHours(hours: number): string {
+  if (hours % 24 === 0) return hours === 24 ? '24 hours' : `${hours / 24} days`;
+  return hours === 1 ? '1 hour' : `${hours} hours`;
+}
+
+// Why an entry can't be edited, for toasts and hints
+export function getEditLockReason(policy: EditPolicy): string {
+  if (policy.mode === 'never') return 'Entries can\'t be edited once saved.';
+  const limit = `Entries can only be edited within ${formatWindowHours(policy.windowHours)}.`;
+  return policy.mode === 'addendum' ? `${limit} Add a follow-up note instead.` : limit;
+}
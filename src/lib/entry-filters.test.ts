@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import {
+  clearEntryFilters,
+  countActiveFilters,
+  DEFAULT_ENTRY_FILTERS,
+  getDurationBucket,
+  groupEntriesByDay,
+  isEdited,
+  matchesEntryFilters,
+  sortEntries,
+} from './entry-filters';
+import type { Entry } from './database';
+
+const entry = (overrides: Partial<Entry>): Entry => ({
+  id: 'entry-1',
+  dateLocal: '2024-03-10',
+  prompt_id: 'seed-1',
+  setback: 'a',
+  protective_step: 'b',
+  gratitude: 'c',
+  created_at: '2024-03-10T20:00:00.000Z',
+  ...overrides,
+});
+
+const ids = (entries: Entry[]) => entries.map(e => e.id);
+
+describe('isEdited', () => {
+  it('counts an entry as edited once saved after it was created', () => {
+    expect(isEdited(entry({}))).toBe(false);
+    expect(isEdited(entry({ edited_at: '2024-03-10T20:00:00.000Z' }))).toBe(false);
+    expect(isEdited(entry({ edited_at: '2024-03-11T08:00:00.000Z' }))).toBe(true);
+  });
+});
+
+describe('getDurationBucket', () => {
+  it('puts each bucket edge in the higher bucket', () => {
+    expect(getDurationBucket(entry({}))).toBe('unknown');
+    expect(getDurationBucket(entry({ duration_seconds: 0 }))).toBe('short');
+    expect(getDurationBucket(entry({ duration_seconds: 119 }))).toBe('short');
+    expect(getDurationBucket(entry({ duration_seconds: 120 }))).toBe('medium');
+    expect(getDurationBucket(entry({ duration_seconds: 299 }))).toBe('medium');
+    expect(getDurationBucket(entry({ duration_seconds: 300 }))).toBe('full');
+  });
+});
+
+describe('countActiveFilters', () => {
+  it('counts a date range once and ignores the sort order', () => {
+    expect(countActiveFilters({ ...DEFAULT_ENTRY_FILTERS, sort: 'oldest' })).toBe(0);
+    expect(countActiveFilters({ ...DEFAULT_ENTRY_FILTERS, from: '2024-03-01', to: '2024-03-31' })).toBe(1);
+    expect(countActiveFilters({
+      from: '2024-03-01',
+      promptId: 'seed-1',
+      category: 'work',
+      edited: 'original',
+      duration: 'full',
+      sort: 'newest',
+    })).toBe(5);
+  });
+});
+
+describe('clearEntryFilters', () => {
+  it('keeps only the sort order', () => {
+    const filters = { ...DEFAULT_ENTRY_FILTERS, from: '2024-03-01', duration: 'short' as const, sort: 'longest' as const };
+    expect(clearEntryFilters(filters)).toEqual({ ...DEFAULT_ENTRY_FILTERS, sort: 'longest' });
+  });
+});
+
+describe('matchesEntryFilters', () => {
+  it('treats the date range as inclusive', () => {
+    const filters = { ...DEFAULT_ENTRY_FILTERS, from: '2024-03-10', to: '2024-03-12' };
+
+    expect(matchesEntryFilters(entry({ dateLocal: '2024-03-09' }), filters)).toBe(false);
+    expect(matchesEntryFilters(entry({ dateLocal: '2024-03-10' }), filters)).toBe(true);
+    expect(matchesEntryFilters(entry({ dateLocal: '2024-03-12' }), filters)).toBe(true);
+    expect(matchesEntryFilters(entry({ dateLocal: '2024-03-13' }), filters)).toBe(false);
+  });
+
+  it('matches a prompt or the prompts of a category', () => {
+    expect(matchesEntryFilters(entry({}), { ...DEFAULT_ENTRY_FILTERS, promptId: 'seed-2' })).toBe(false);
+    expect(matchesEntryFilters(entry({}), { ...DEFAULT_ENTRY_FILTERS, category: 'work' }, new Set(['seed-1']))).toBe(true);
+    expect(matchesEntryFilters(entry({}), { ...DEFAULT_ENTRY_FILTERS, category: 'work' }, new Set(['seed-2']))).toBe(false);
+    expect(matchesEntryFilters(entry({}), { ...DEFAULT_ENTRY_FILTERS, category: 'work' })).toBe(false);
+  });
+
+  it('filters edited, original and duration', () => {
+    const edited = entry({ edited_at: '2024-03-11T08:00:00.000Z', duration_seconds: 400 });
+
+    expect(matchesEntryFilters(edited, { ...DEFAULT_ENTRY_FILTERS, edited: 'edited' })).toBe(true);
+    expect(matchesEntryFilters(edited, { ...DEFAULT_ENTRY_FILTERS, edited: 'original' })).toBe(false);
+    expect(matchesEntryFilters(edited, { ...DEFAULT_ENTRY_FILTERS, duration: 'full' })).toBe(true);
+    expect(matchesEntryFilters(edited, { ...DEFAULT_ENTRY_FILTERS, duration: 'short' })).toBe(false);
+    expect(matchesEntryFilters(entry({}), { ...DEFAULT_ENTRY_FILTERS, duration: 'unknown' })).toBe(true);
+  });
+});
+
+describe('sortEntries', () => {
+  const entries = [
+    entry({ id: 'old-long', created_at: '2024-03-01T10:00:00.000Z', duration_seconds: 600 }),
+    entry({ id: 'new-untimed', created_at: '2024-03-05T10:00:00.000Z' }),
+    entry({ id: 'mid-short', created_at: '2024-03-03T10:00:00.000Z', duration_seconds: 60 }),
+    entry({ id: 'new-short', created_at: '2024-03-04T10:00:00.000Z', duration_seconds: 60 }),
+  ];
+
+  it('sorts by creation time', () => {
+    expect(ids(sortEntries([...entries], 'newest'))).toEqual(['new-untimed', 'new-short', 'mid-short', 'old-long']);
+    expect(ids(sortEntries([...entries], 'oldest'))).toEqual(['old-long', 'mid-short', 'new-short', 'new-untimed']);
+  });
+
+  it('sorts by writing time with untimed entries last and ties newest first', () => {
+    expect(ids(sortEntries([...entries], 'longest'))).toEqual(['old-long', 'new-short', 'mid-short', 'new-untimed']);
+    expect(ids(sortEntries([...entries], 'shortest'))).toEqual(['new-short', 'mid-short', 'old-long', 'new-untimed']);
+  });
+});
+
+describe('groupEntriesByDay', () => {
+  it('groups runs of the same day in list order', () => {
+    const groups = groupEntriesByDay([
+      entry({ id: 'a', dateLocal: '2024-03-10' }),
+      entry({ id: 'b', dateLocal: '2024-03-10' }),
+      entry({ id: 'c', dateLocal: '2024-03-09' }),
+      entry({ id: 'd', dateLocal: '2024-03-10' }),
+    ]);
+
+    expect(groups.map(g => [g.dateLocal, ids(g.entries)])).toEqual([
+      ['2024-03-10', ['a', 'b']],
+      ['2024-03-09', ['c']],
+      ['2024-03-10', ['d']],
+    ]);
+  });
+});
@@ -0,0 +1,123 @@
+import type { Entry, PromptCategory } from './database';
+
+// Filters for the All Entries list. Dates are inclusive YYYY-MM-DD bounds.
+export type EntrySortOrder = 'newest' | 'oldest' | 'longest' | 'shortest';
+export type EditedFilter = 'all' | 'edited' | 'original';
+export type DurationBucket = 'short' | 'medium' | 'full' | 'unknown';
+
+export interface EntryFilters {
+  from?: string;
+  to?: string;
+  promptId?: string;
+  category?: PromptCategory;
+  edited: EditedFilter;
+  duration?: DurationBucket;
+  sort: EntrySortOrder;
+}
+
+export const DEFAULT_ENTRY_FILTERS: EntryFilters = {
+  edited: 'all',
+  sort: 'newest',
+};
+
+// Writing time buckets, measured against the 5 minute session target.
+// `max` is exclusive.
+export const DURATION_BUCKETS: Record<Exclude<DurationBucket, 'unknown'>, { label: string; min: number; max: number }> = {
+  short: { label: 'Under 2 min', min: 0, max: 120 },
+  medium: { label: '2–5 min', min: 120, max: 300 },
+  full: { label: '5 min or more', min: 300, max: Infinity },
+};
+
+export const DURATION_LABELS: Record<DurationBucket, string> = {
+  short: DURATION_BUCKETS.short.label,
+  medium: DURATION_BUCKETS.medium.label,
+  full: DURATION_BUCKETS.full.label,
+  unknown: 'Not recorded',
+};
+
+export const SORT_LABELS: Record<EntrySortOrder, string> = {
+  newest: 'Newest first',
+  oldest: 'Oldest first',
+  longest: 'Longest writing time',
+  shortest: 'Shortest writing time',
+};
+
+// An entry counts as edited once it was saved again after it was created
+export function isEdited(entry: Entry): boolean {
+  return !!entry.edited_at && entry.edited_at !== entry.created_at;
+}
+
+export function getDurationBucket(entry: Entry): DurationBucket {
+  const seconds = entry.duration_seconds;
+  if (typeof seconds !== 'number') return 'unknown';
+  if (seconds < DURATION_BUCKETS.short.max) return 'short';
+  if (seconds < DURATION_BUCKETS.medium.max) return 'medium';
+  return 'full';
+}
+
+// Number of filters that narrow the list (sort order doesn't count)
+export function countActiveFilters(filters: EntryFilters): number {
+  return [
+    filters.from || filters.to,
+    filters.promptId,
+    filters.category,
+    filters.edited !== 'all',
+    filters.duration,
+  ].filter(Boolean).length;
+}
+
+// Drop every filter but keep the chosen sort order
+export function clearEntryFilters(filters: EntryFilters): EntryFilters {
+  return { ...DEFAULT_ENTRY_FILTERS, sort: filters.sort };
+}
+
+// Whether a stored entry passes every filter. Only unencrypted metadata is
+// read, so this works on rows straight from the entries table.
+// `categoryPromptIds` holds the prompts of `filters.category`.
+export function matchesEntryFilters(entry: Entry, filters: EntryFilters, categoryPromptIds?: Set<string>): boolean {
+  if (filters.from && entry.dateLocal < filters.from) return false;
+  if (filters.to && entry.dateLocal > filters.to) return false;
+  if (filters.promptId && entry.prompt_id !== filters.promptId) return false;
+  if (filters.category && !categoryPromptIds?.has(entry.prompt_id)) return false;
+  if (filters.edited === 'edited' && !isEdited(entry)) return false;
+  if (filters.edited === 'original' && isEdited(entry)) return false;
+  if (filters.duration && getDurationBucket(entry) !== filters.duration) return false;
+  return true;
+}
+
+// Sort in place. Entries without a recorded duration go last for the
+// duration orders; ties fall back to newest first.
+export function sortEntries(entries: Entry[], sort: EntrySortOrder): Entry[] {
+  const byNewest = (a: Entry, b: Entry) => b.created_at.localeCompare(a.created_at);
+
+  return entries.sort((a, b) => {
+    if (sort === 'newest') return byNewest(a, b);
+    if (sort === 'oldest') return -byNewest(a, b);
+
+    const aSeconds = a.duration_seconds ?? -1;
+    const bSeconds = b.duration_seconds ?? -1;
+    if (aSeconds === bSeconds) return byNewest(a, b);
+    if (aSeconds < 0) return 1;
+    if (bSeconds < 0) return -1;
+    return sort === 'longest' ? bSeconds - aSeconds : aSeconds - bSeconds;
+  });
+}
+
+export interface EntryDayGroup {
+  dateLocal: string;
+  entries: Entry[];
+}
+
+// Runs of consecutive entries from the same day, in list order. With a date
+// sort every day is one group; other sorts can split a day across groups.
+export function groupEntriesByDay(entries: Entry[]): EntryDayGroup[] {
+  return entries.reduce<EntryDayGroup[]>((groups, entry) => {
+    const last = groups[groups.length - 1];
+    if (last && last.dateLocal === entry.dateLocal) {
+      last.entries.push(entry);
+    } else {
+      groups.push({ dateLocal: entry.dateLocal, entries: [entry] });
+    }
+    return groups;
+  }, []);
+}
@@ -0,0 +1,227 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { importUtils } from './import';
+import { db, dbUtils, Entry, ExportDocument, ExportedEntry, NEW_DRAFT_ID, Settings } from './database';
+import { cryptoUtils, sessionUtils } from './crypto';
+import { addDays } from './streaks';
+
+const today = dbUtils.getTodayLocal();
+
+const localEntry = (id: string, dateLocal: string): Entry => ({
+  id,
+  dateLocal,
+  prompt_id: 'seed-1',
+  setback: `Local setback ${id}`,
+  protective_step: 'Local step',
+  gratitude: 'Local gratitude',
+  created_at: new Date(dateLocal + 'T12:00:00').toISOString(),
+});
+
+const exportedEntry = (id: string, dateLocal: string): ExportedEntry => ({
+  id,
+  createdAt: new Date(Date.now() - 60 * 1000).toISOString(),
+  content: { setback: `Backup setback ${id}`, protective_step: 'Backup step', gratitude: 'Backup gratitude' },
+  metadata: { dateLocal, prompt_id: 'seed-1' },
+});
+
+const backup = (overrides: Partial<ExportDocument> = {}): ExportDocument => ({
+  meta: { appName: 'Negative Visualization Journal', appVersion: '2.0.0', exportedAt: new Date().toISOString(), entryCount: 2 },
+  entries: [exportedEntry('entry-a', addDays(today, -1)), exportedEntry('entry-b', today)],
+  settings: { trashRetentionDays: 90, editPolicy: 'always', currentTheme: 'dark' },
+  prompts: [],
+  streakFreezes: [{ id: `freeze-earned-${addDays(today, -1)}`, type: 'earned', dateLocal: addDays(today, -1), created_at: new Date().toISOString() }],
+  promptHistory: [{ dateLocal: today, prompt_id: 'seed-2', cycle: 0, served_at: new Date().toISOString() }],
+  streakSummary: null,
+  ...overrides,
+});
+
+// The document as it would be read back from a file
+const roundTrip = (value: unknown) => JSON.parse(JSON.stringify(value));
+
+async function seedLocalJournal(settings: Partial<Settings> = {}) {
+  const stored = await dbUtils.initializeSettings();
+  await db.settings.put({ ...stored, ...settings });
+  await db.entries.bulkPut([localEntry('entry-a', addDays(today, -3)), localEntry('entry-local', addDays(today, -2))]);
+  await db.entryDrafts.put({
+    dateLocal: today,
+    entry_id: NEW_DRAFT_ID,
+    setback: 'Unsaved',
+    protective_step: '',
+    gratitude: '',
+    updated_at: new Date().toISOString(),
+  });
+  await db.promptHistory.put({ dateLocal: addDays(today, -2), prompt_id: 'seed-3', cycle: 0, served_at: new Date().toISOString() });
+}
+
+beforeEach(async () => {
+  await dbUtils.wipeAllData();
+});
+
+afterEach(() => {
+  sessionUtils.clearDataKey();
+});
+
+describe('validateExport', () => {
+  it('accepts a backup in the export format', () => {
+    const result = importUtils.validateExport(roundTrip(backup()));
+    expect(result.valid).toBe(true);
+  });
+
+  it('rejects files that are not journal exports', () => {
+    expect(importUtils.parseBackup('{not json')).toEqual({ valid: false, errors: ['The file is not valid JSON'] });
+    expect(importUtils.validateExport([])).toEqual({ valid: false, errors: ['The file does not contain a journal export'] });
+
+    const { entries, prompts, ...rest } = backup();
+    const result = importUtils.validateExport(roundTrip(rest));
+    expect(result.valid).toBe(false);
+    if (!result.valid) expect(result.errors).toEqual(['Missing entries list', 'Missing prompts list']);
+  });
+
+  it('rejects entries that are malformed or still encrypted', async () => {
+    const encrypted = await cryptoUtils.encryptText(await cryptoUtils.generateDataKey(), 'secret');
+    const entries = [
+      { ...exportedEntry('entry-a', today), metadata: { dateLocal: '19/10/2024', prompt_id: 'seed-1' } },
+      { ...exportedEntry('entry-b', today), content: { setback: encrypted, protective_step: '', gratitude: '' } },
+      exportedEntry('entry-b', today),
+    ];
+    const result = importUtils.validateExport(roundTrip(backup({ entries })));
+
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.errors).toEqual([
+        'Entry 1 has an invalid dateLocal',
+        'Entry 2 contains encrypted text and cannot be restored',
+        'Duplicate entry id "entry-b"',
+      ]);
+    }
+  });
+
+  it('rejects settings with values the app does not offer', () => {
+    const settings = {
+      trashRetentionDays: 45,
+      editPolicy: 'sometimes',
+      timerSoundEnabled: 'yes',
+      lockTimeoutMinutes: 0,
+      promptCategoryWeights: { health: 5 },
+      revisionRetention: null,
+    };
+    const result = importUtils.validateExport(roundTrip({ ...backup(), settings }));
+
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.errors).toEqual([
+        'Settings have an invalid lockTimeoutMinutes',
+        'Settings have an invalid promptCategoryWeights',
+        'Settings have an invalid timerSoundEnabled',
+        'Settings have an invalid trashRetentionDays',
+        'Settings have an invalid editPolicy',
+      ]);
+    }
+  });
+
+  it('rejects a streak summary with an invalid reset date', () => {
+    const streakSummary = { id: 'main', start_date: today, current_streak: 0, longest_streak: 0, reset_at: 'yesterday' };
+    const result = importUtils.validateExport(roundTrip(backup({ streakSummary })));
+
+    expect(result.valid).toBe(false);
+    if (!result.valid) expect(result.errors).toEqual(['Streak summary has an invalid reset date']);
+  });
+
+  it('reports at most ten problems', () => {
+    const entries = Array.from({ length: 12 }, (_, i) => ({ id: `entry-${i}` }));
+    const result = importUtils.validateExport(roundTrip({ ...backup(), entries }));
+
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.errors).toHaveLength(11);
+      expect(result.errors[10]).toMatch(/^\.\.\.and \d+ more problems$/);
+    }
+  });
+});
+
+describe('importData', () => {
+  it('merge adds new entries and keeps everything local', async () => {
+    await seedLocalJournal({ trashRetentionDays: 7 });
+
+    const result = await importUtils.importData(backup(), 'merge');
+
+    expect(result.importedEntries).toBe(1);
+    expect(result.skippedEntries).toBe(1);
+    expect((await db.entries.get('entry-a'))?.setback).toBe('Local setback entry-a');
+    expect((await db.entries.get('entry-b'))?.setback).toBe('Backup setback entry-b');
+    expect(await db.entries.get('entry-local')).toBeDefined();
+    expect(await db.entryDrafts.count()).toBe(1);
+    expect((await db.promptHistory.toArray()).map(h => h.prompt_id)).toEqual(['seed-3']);
+    expect((await db.settings.get('main'))?.trashRetentionDays).toBe(7);
+  });
+
+  it('replace swaps local data for the backup and drops drafts', async () => {
+    await seedLocalJournal({ trashRetentionDays: 7 });
+
+    const result = await importUtils.importData(backup(), 'replace');
+
+    expect(result.importedEntries).toBe(2);
+    expect((await db.entries.toArray()).map(e => e.id).sort()).toEqual(['entry-a', 'entry-b']);
+    expect((await db.entries.get('entry-a'))?.setback).toBe('Backup setback entry-a');
+    expect(await db.entryDrafts.count()).toBe(0);
+    expect((await db.promptHistory.toArray()).map(h => h.prompt_id)).toEqual(['seed-2']);
+    expect(await db.streakFreezes.count()).toBe(1);
+
+    const settings = await db.settings.get('main');
+    expect(settings?.trashRetentionDays).toBe(90);
+    expect(settings?.editPolicy).toBe('always');
+    expect(settings?.currentTheme).toBe('dark');
+  });
+
+  it('replace keeps this device\'s PIN settings and ignores unknown fields', async () => {
+    await seedLocalJournal({ pinHash: 'local-hash', pinSalt: 'local-salt', pinIterations: 100000 });
+    const settings = { pinHash: 'backup-hash', pinIterations: 1, somethingElse: true } as Partial<Settings>;
+
+    await importUtils.importData(backup({ settings }), 'replace');
+
+    const stored = await db.settings.get('main');
+    expect(stored?.pinHash).toBe('local-hash');
+    expect(stored?.pinSalt).toBe('local-salt');
+    expect(stored?.pinIterations).toBe(100000);
+    expect(stored).not.toHaveProperty('somethingElse');
+  });
+
+  it('replace drops a local streak reset so restored entries count', async () => {
+    await seedLocalJournal();
+    await dbUtils.resetStreakData();
+
+    const result = await importUtils.importData(backup(), 'replace');
+
+    expect(result.streak.reset_at).toBeUndefined();
+    expect(result.streak.current_streak).toBe(2);
+  });
+
+  it('replace restores the streak reset from the backup', async () => {
+    await seedLocalJournal();
+    const resetAt = new Date().toISOString();
+    const streakSummary = { id: 'main', start_date: resetAt, current_streak: 0, longest_streak: 0, reset_at: resetAt };
+
+    const result = await importUtils.importData(backup({ streakSummary }), 'replace');
+
+    expect(result.streak.reset_at).toBe(resetAt);
+    expect(result.streak.current_streak).toBe(0);
+  });
+
+  it('encrypts restored entries while a PIN is set and the journal is unlocked', async () => {
+    await seedLocalJournal({ dataKeyWrapped: 'wrapped' });
+    sessionUtils.setDataKey(await cryptoUtils.generateDataKey());
+
+    await importUtils.importData(backup(), 'replace');
+
+    const stored = await db.entries.get('entry-b');
+    expect(cryptoUtils.isEncrypted(stored?.setback ?? '')).toBe(true);
+    expect((await dbUtils.decryptEntry(stored!)).setback).toBe('Backup setback entry-b');
+  });
+
+  it('refuses to import while a PIN is set and the journal is locked', async () => {
+    await seedLocalJournal({ dataKeyWrapped: 'wrapped' });
+
+    await expect(importUtils.importData(backup(), 'replace')).rejects.toThrow('Journal is locked');
+    expect((await db.entries.toArray()).map(e => e.id).sort()).toEqual(['entry-a', 'entry-local']);
+  });
+});
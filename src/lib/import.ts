@@ -0,0 +1,616 @@
+import { ActionItem, db, dbUtils, Entry, EntryOutcome, SavedReview, EntryRevision, ExportDocument, ExportedEntry, ExportedRevision, Prompt, PromptHistoryEntry, PromptPack, Settings, StreakFreeze, StreakSummary, TRASH_RETENTION_OPTIONS } from './database';
+import { cryptoUtils } from './crypto';
+import { PROMPT_CATEGORIES } from './prompts';
+import { getRevisionRetention, REVISION_RETENTION_OPTIONS } from './revisions';
+import { OUTCOME_CHECKPOINTS, OUTCOME_SEVERITIES } from './outcomes';
+import { ACTION_STATUSES } from './actions';
+import { EDIT_POLICY_MODES, EDIT_WINDOW_OPTIONS } from './edit-policy';
+import { TIMER_DURATION_OPTIONS, TIMER_MINIMUM_OPTIONS } from './writing-time';
+
+export type ImportMode = 'merge' | 'replace';
+
+export type ImportValidationResult =
+  | { valid: true; data: ExportDocument }
+  | { valid: false; errors: string[] };
+
+export interface ImportPreview {
+  exportedAt: string;
+  entryCount: number;
+  promptCount: number;
+  revisionCount: number;
+  outcomeCount: number;
+  actionItemCount: number;
+  reviewCount: number;
+  hasSettings: boolean;
+  dateRange: { start: string; end: string } | null;
+  // Imported entry ids that already exist locally
+  idConflicts: string[];
+  // Days that already have a different local entry
+  dateConflicts: string[];
+  // Entries that would be added in merge mode
+  newEntryCount: number;
+}
+
+export interface ImportResult {
+  importedEntries: number;
+  skippedEntries: number;
+  importedPrompts: number;
+  importedRevisions: number;
+  importedOutcomes: number;
+  importedActionItems: number;
+  importedReviews: number;
+  streak: StreakSummary;
+}
+
+const MAX_REPORTED_ERRORS = 10;
+const DATE_LOCAL_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Settings that describe this device's PIN, encryption key and search index. A backup never
+// contains them, and restoring must never overwrite the current values.
+const PROTECTED_SETTINGS_KEYS = [
+  'pinHash',
+  'pinSalt',
+  'pinIterations',
+  'dataKeyWrapped',
+  'dataKeySalt',
+  'dataKeyIv',
+  'dataKeyIterations',
+  'searchIndexVersion',
+] as const satisfies readonly (keyof Settings)[];
+
+type RestorableSettingsKey = Exclude<keyof Settings, 'id' | typeof PROTECTED_SETTINGS_KEYS[number]>;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOptionalString = (value: unknown) => value === undefined || value === null || typeof value === 'string';
+
+const isValidIsoDate = (value: unknown) => typeof value === 'string' && !isNaN(new Date(value).getTime());
+
+const isBoolean = (value: unknown) => typeof value === 'boolean';
+
+const isString = (value: unknown) => typeof value === 'string';
+
+const isDateLocal = (value: unknown) => typeof value === 'string' && DATE_LOCAL_PATTERN.test(value);
+
+const isOneOf = (options: readonly unknown[]) => (value: unknown) => options.includes(value);
+
+// Checks for every setting a backup can restore. Values the settings screens
+// offer as a fixed list have to be one of those options.
+const SETTINGS_CHECKS: Record<RestorableSettingsKey, (value: unknown) => boolean> = {
+  lockTimeoutMinutes: value => Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 120,
+  dailyCueTime: value => typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value),
+  dailyCueEnabled: isBoolean,
+  notificationsEnabled: isBoolean,
+  telemetryOptIn: isBoolean,
+  telemetryAnonId: isString,
+  telemetryActivationSent: isBoolean,
+  telemetryConsecutiveDays: value => Number.isInteger(value) && (value as number) >= 0,
+  telemetryLastCompletionDate: isDateLocal,
+  telemetryD7EventSent: isBoolean,
+  swapUsedDate: isDateLocal,
+  lastPromptDate: isDateLocal,
+  lastPromptId: isString,
+  installAt: isValidIsoDate,
+  currentTheme: isOneOf(['light', 'dark', 'system']),
+  // 0 = excluded, 1 = normal, 2 = twice per cycle
+  promptCategoryWeights: value => isObject(value) && Object.entries(value).every(([category, weight]) =>
+    isOneOf(PROMPT_CATEGORIES)(category) && isOneOf([0, 1, 2])(weight)
+  ),
+  promptFocus: value => isObject(value) && isOneOf(PROMPT_CATEGORIES)(value.category) && isDateLocal(value.weekStart),
+  timerDurationSeconds: isOneOf(TIMER_DURATION_OPTIONS),
+  timerSoundEnabled: isBoolean,
+  timerMinimumSeconds: isOneOf(TIMER_MINIMUM_OPTIONS),
+  revisionRetention: isOneOf(REVISION_RETENTION_OPTIONS),
+  trashRetentionDays: isOneOf(TRASH_RETENTION_OPTIONS),
+  editPolicy: isOneOf(EDIT_POLICY_MODES.map(option => option.mode)),
+  editWindowHours: isOneOf(EDIT_WINDOW_OPTIONS),
+  showOnThisDay: isBoolean,
+};
+
+const RESTORABLE_SETTINGS_KEYS = Object.keys(SETTINGS_CHECKS) as RestorableSettingsKey[];
+
+function validateSettings(settings: Record<string, unknown>): string[] {
+  return RESTORABLE_SETTINGS_KEYS
+    .filter(key => settings[key] !== undefined && !SETTINGS_CHECKS[key](settings[key]))
+    .map(key => `Settings have an invalid ${key}`);
+}
+
+function validateEntry(entry: unknown, index: number): string[] {
+  const label = `Entry ${index + 1}`;
+  if (!isObject(entry)) return [`${label} is not an object`];
+
+  const errors: string[] = [];
+  if (typeof entry.id !== 'string' || !entry.id) errors.push(`${label} is missing an id`);
+  if (!isValidIsoDate(entry.createdAt)) errors.push(`${label} has an invalid createdAt date`);
+
+  if (!isObject(entry.content)) {
+    errors.push(`${label} is missing its content`);
+  } else {
+    for (const field of ['setback', 'protective_step', 'gratitude']) {
+      if (typeof entry.content[field] !== 'string') {
+        errors.push(`${label} has an invalid ${field}`);
+      } else if (cryptoUtils.isEncrypted(entry.content[field])) {
+        errors.push(`${label} contains encrypted text and cannot be restored`);
+      }
+    }
+    if (entry.content.addenda !== undefined && entry.content.addenda !== null) {
+      const addenda = entry.content.addenda;
+      if (!Array.isArray(addenda) || !addenda.every(a =>
+        isObject(a) && typeof a.id === 'string' && typeof a.text === 'string' && isValidIsoDate(a.created_at)
+      )) {
+        errors.push(`${label} has invalid follow-up notes`);
+      } else if (addenda.some(a => cryptoUtils.isEncrypted(a.text))) {
+        errors.push(`${label} contains encrypted text and cannot be restored`);
+      }
+    }
+  }
+
+  if (!isObject(entry.metadata)) {
+    errors.push(`${label} is missing its metadata`);
+  } else {
+    if (typeof entry.metadata.dateLocal !== 'string' || !DATE_LOCAL_PATTERN.test(entry.metadata.dateLocal)) {
+      errors.push(`${label} has an invalid dateLocal`);
+    }
+    if (typeof entry.metadata.prompt_id !== 'string') errors.push(`${label} is missing a prompt_id`);
+    if (!isOptionalString(entry.metadata.edited_at)) errors.push(`${label} has an invalid edited_at`);
+    if (!isOptionalString(entry.metadata.deleted_at)) errors.push(`${label} has an invalid deleted_at`);
+    if (entry.metadata.duration_seconds !== undefined && entry.metadata.duration_seconds !== null &&
+        (typeof entry.metadata.duration_seconds !== 'number' || entry.metadata.duration_seconds < 0)) {
+      errors.push(`${label} has an invalid duration_seconds`);
+    }
+  }
+
+  return errors;
+}
+
+function validateRevision(revision: unknown, index: number): string[] {
+  const label = `Revision ${index + 1}`;
+  if (!isObject(revision)) return [`${label} is not an object`];
+
+  const errors: string[] = [];
+  if (typeof revision.id !== 'string' || !revision.id) errors.push(`${label} is missing an id`);
+  if (typeof revision.entry_id !== 'string' || !revision.entry_id) errors.push(`${label} is missing an entry_id`);
+  if (!isValidIsoDate(revision.saved_at)) errors.push(`${label} has an invalid saved_at date`);
+  if (!isValidIsoDate(revision.replaced_at)) errors.push(`${label} has an invalid replaced_at date`);
+
+  if (!isObject(revision.content)) {
+    errors.push(`${label} is missing its content`);
+  } else {
+    for (const field of ['setback', 'protective_step', 'gratitude']) {
+      if (typeof revision.content[field] !== 'string') {
+        errors.push(`${label} has an invalid ${field}`);
+      } else if (cryptoUtils.isEncrypted(revision.content[field])) {
+        errors.push(`${label} contains encrypted text and cannot be restored`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+const OUTCOME_ANSWER_VALUES = ['yes', 'partly', 'no'];
+
+function validateOutcome(outcome: unknown, index: number): string[] {
+  const label = `Outcome ${index + 1}`;
+  if (!isObject(outcome)) return [`${label} is not an object`];
+
+  const errors: string[] = [];
+  if (typeof outcome.id !== 'string' || !outcome.id) errors.push(`${label} is missing an id`);
+  if (typeof outcome.entry_id !== 'string' || !outcome.entry_id) errors.push(`${label} is missing an entry_id`);
+  if (!OUTCOME_CHECKPOINTS.includes(outcome.checkpoint_days)) errors.push(`${label} has an unknown checkpoint`);
+  if (outcome.happened !== null && !OUTCOME_ANSWER_VALUES.includes(outcome.happened)) errors.push(`${label} has an invalid happened answer`);
+  if (outcome.took_step !== null && !OUTCOME_ANSWER_VALUES.includes(outcome.took_step)) errors.push(`${label} has an invalid took_step answer`);
+  if (outcome.severity !== undefined && outcome.severity !== null && !OUTCOME_SEVERITIES.some(s => s.value === outcome.severity)) {
+    errors.push(`${label} has an invalid severity`);
+  }
+  if (!isValidIsoDate(outcome.recorded_at)) errors.push(`${label} has an invalid recorded_at date`);
+  return errors;
+}
+
+function validateActionItem(item: unknown, index: number): string[] {
+  const label = `Action item ${index + 1}`;
+  if (!isObject(item)) return [`${label} is not an object`];
+
+  const errors: string[] = [];
+  if (typeof item.id !== 'string' || !item.id) errors.push(`${label} is missing an id`);
+  if (typeof item.entry_id !== 'string' || !item.entry_id) errors.push(`${label} is missing an entry_id`);
+  if (!ACTION_STATUSES.some(s => s.value === item.status)) errors.push(`${label} has an unknown status`);
+  if (item.due_date !== undefined && item.due_date !== null && (typeof item.due_date !== 'string' || !DATE_LOCAL_PATTERN.test(item.due_date))) {
+    errors.push(`${label} has an invalid due date`);
+  }
+  if (typeof item.remind !== 'boolean') errors.push(`${label} has an invalid remind flag`);
+  if (!isValidIsoDate(item.created_at)) errors.push(`${label} has an invalid created_at date`);
+  if (!isValidIsoDate(item.updated_at)) errors.push(`${label} has an invalid updated_at date`);
+  return errors;
+}
+
+function validateReview(review: unknown, index: number): string[] {
+  const label = `Review ${index + 1}`;
+  if (!isObject(review)) return [`${label} is not an object`];
+
+  const errors: string[] = [];
+  if (typeof review.id !== 'string' || !review.id) errors.push(`${label} is missing an id`);
+  if (review.period !== 'week' && review.period !== 'month') errors.push(`${label} has an unknown period`);
+  if (typeof review.start !== 'string' || !DATE_LOCAL_PATTERN.test(review.start)) errors.push(`${label} has an invalid start date`);
+  if (typeof review.end !== 'string' || !DATE_LOCAL_PATTERN.test(review.end)) errors.push(`${label} has an invalid end date`);
+  if (typeof review.reflection !== 'string') {
+    errors.push(`${label} has an invalid reflection`);
+  } else if (cryptoUtils.isEncrypted(review.reflection)) {
+    errors.push(`${label} contains encrypted text and cannot be restored`);
+  }
+  if (!isValidIsoDate(review.created_at)) errors.push(`${label} has an invalid created_at date`);
+  if (!isValidIsoDate(review.updated_at)) errors.push(`${label} has an invalid updated_at date`);
+  return errors;
+}
+
+function validateStreakFreeze(freeze: unknown, index: number): string[] {
+  const label = `Streak freeze ${index + 1}`;
+  if (!isObject(freeze)) return [`${label} is not an object`];
+
+  const errors: string[] = [];
+  if (typeof freeze.id !== 'string' || !freeze.id) errors.push(`${label} is missing an id`);
+  if (freeze.type !== 'earned' && freeze.type !== 'used') errors.push(`${label} has an unknown type`);
+  if (typeof freeze.dateLocal !== 'string' || !DATE_LOCAL_PATTERN.test(freeze.dateLocal)) errors.push(`${label} has an invalid dateLocal`);
+  if (freeze.reason !== undefined && freeze.reason !== null && freeze.reason !== 'auto' && freeze.reason !== 'scheduled') {
+    errors.push(`${label} has an unknown reason`);
+  }
+  if (!isValidIsoDate(freeze.created_at)) errors.push(`${label} has an invalid created_at date`);
+  return errors;
+}
+
+function validatePromptHistoryEntry(served: unknown, index: number): string[] {
+  const label = `Prompt history day ${index + 1}`;
+  if (!isObject(served)) return [`${label} is not an object`];
+
+  const errors: string[] = [];
+  if (typeof served.dateLocal !== 'string' || !DATE_LOCAL_PATTERN.test(served.dateLocal)) errors.push(`${label} has an invalid dateLocal`);
+  if (typeof served.prompt_id !== 'string' || !served.prompt_id) errors.push(`${label} is missing a prompt_id`);
+  if (typeof served.cycle !== 'number' || served.cycle < 0) errors.push(`${label} has an invalid cycle`);
+  if (!isValidIsoDate(served.served_at)) errors.push(`${label} has an invalid served_at date`);
+  if (!isOptionalString(served.swapped_from)) errors.push(`${label} has an invalid swapped_from`);
+  return errors;
+}
+
+function validatePrompt(prompt: unknown, index: number): string[] {
+  const label = `Prompt ${index + 1}`;
+  if (!isObject(prompt)) return [`${label} is not an object`];
+
+  const errors: string[] = [];
+  if (typeof prompt.id !== 'string' || !prompt.id) errors.push(`${label} is missing an id`);
+  if (typeof prompt.text !== 'string') errors.push(`${label} is missing its text`);
+  if (!isOptionalString(prompt.gratitude_prompt)) errors.push(`${label} has an invalid gratitude_prompt`);
+  if (prompt.category !== undefined && prompt.category !== null && !PROMPT_CATEGORIES.includes(prompt.category)) {
+    errors.push(`${label} has an unknown category`);
+  }
+  if (typeof prompt.archived !== 'boolean') errors.push(`${label} has an invalid archived flag`);
+  if (!['seed', 'user', 'pack'].includes(prompt.source)) errors.push(`${label} has an unknown source`);
+  if (!isValidIsoDate(prompt.created_at)) errors.push(`${label} has an invalid created_at date`);
+  return errors;
+}
+
+function toEntry(exported: ExportedEntry): Entry {
+  return {
+    id: exported.id,
+    dateLocal: exported.metadata.dateLocal,
+    prompt_id: exported.metadata.prompt_id,
+    setback: exported.content.setback,
+    protective_step: exported.content.protective_step,
+    gratitude: exported.content.gratitude,
+    addenda: exported.content.addenda || undefined,
+    created_at: exported.createdAt,
+    edited_at: exported.metadata.edited_at || undefined,
+    duration_seconds: exported.metadata.duration_seconds ?? undefined,
+    deleted_at: exported.metadata.deleted_at || undefined,
+  };
+}
+
+function toRevision(exported: ExportedRevision): EntryRevision {
+  return {
+    id: exported.id,
+    entry_id: exported.entry_id,
+    setback: exported.content.setback,
+    protective_step: exported.content.protective_step,
+    gratitude: exported.content.gratitude,
+    saved_at: exported.saved_at,
+    replaced_at: exported.replaced_at,
+  };
+}
+
+export const importUtils = {
+  // Parse the text of a backup file and validate it
+  parseBackup(text: string): ImportValidationResult {
+    try {
+      return this.validateExport(JSON.parse(text));
+    } catch {
+      return { valid: false, errors: ['The file is not valid JSON'] };
+    }
+  },
+
+  // Check that a parsed document has the exact shape produced by exportDataWithProgress
+  validateExport(raw: unknown): ImportValidationResult {
+    if (!isObject(raw)) {
+      return { valid: false, errors: ['The file does not contain a journal export'] };
+    }
+
+    const errors: string[] = [];
+
+    if (!isObject(raw.meta)) {
+      errors.push('Missing export metadata');
+    } else {
+      if (typeof raw.meta.appName !== 'string') errors.push('Export metadata is missing the app name');
+      if (!isValidIsoDate(raw.meta.exportedAt)) errors.push('Export metadata has an invalid export date');
+    }
+
+    if (!Array.isArray(raw.entries)) {
+      errors.push('Missing entries list');
+    } else {
+      raw.entries.forEach((entry: unknown, index: number) => errors.push(...validateEntry(entry, index)));
+
+      const seen = new Set<string>();
+      raw.entries.forEach((entry: any) => {
+        if (typeof entry?.id !== 'string') return;
+        if (seen.has(entry.id)) errors.push(`Duplicate entry id "${entry.id}"`);
+        seen.add(entry.id);
+      });
+    }
+
+    // Revisions are optional: backups from before revision history have none
+    if (raw.revisions !== undefined && !Array.isArray(raw.revisions)) {
+      errors.push('Revisions must be a list');
+    } else if (Array.isArray(raw.revisions)) {
+      raw.revisions.forEach((revision: unknown, index: number) => errors.push(...validateRevision(revision, index)));
+    }
+
+    // Outcomes are optional as well
+    if (raw.outcomes !== undefined && !Array.isArray(raw.outcomes)) {
+      errors.push('Outcomes must be a list');
+    } else if (Array.isArray(raw.outcomes)) {
+      raw.outcomes.forEach((outcome: unknown, index: number) => errors.push(...validateOutcome(outcome, index)));
+    }
+
+    if (raw.actionItems !== undefined && !Array.isArray(raw.actionItems)) {
+      errors.push('Action items must be a list');
+    } else if (Array.isArray(raw.actionItems)) {
+      raw.actionItems.forEach((item: unknown, index: number) => errors.push(...validateActionItem(item, index)));
+    }
+
+    if (raw.reviews !== undefined && !Array.isArray(raw.reviews)) {
+      errors.push('Reviews must be a list');
+    } else if (Array.isArray(raw.reviews)) {
+      raw.reviews.forEach((review: unknown, index: number) => errors.push(...validateReview(review, index)));
+    }
+
+    // Older backups have no freeze ledger or prompt schedule
+    if (raw.streakFreezes !== undefined && !Array.isArray(raw.streakFreezes)) {
+      errors.push('Streak freezes must be a list');
+    } else if (Array.isArray(raw.streakFreezes)) {
+      raw.streakFreezes.forEach((freeze: unknown, index: number) => errors.push(...validateStreakFreeze(freeze, index)));
+    }
+
+    if (raw.promptHistory !== undefined && !Array.isArray(raw.promptHistory)) {
+      errors.push('Prompt history must be a list');
+    } else if (Array.isArray(raw.promptHistory)) {
+      raw.promptHistory.forEach((served: unknown, index: number) => errors.push(...validatePromptHistoryEntry(served, index)));
+    }
+
+    if (!Array.isArray(raw.prompts)) {
+      errors.push('Missing prompts list');
+    } else {
+      raw.prompts.forEach((prompt: unknown, index: number) => errors.push(...validatePrompt(prompt, index)));
+    }
+
+    if (raw.promptPacks !== undefined && !Array.isArray(raw.promptPacks)) {
+      errors.push('Prompt packs must be a list');
+    } else if (Array.isArray(raw.promptPacks)) {
+      raw.promptPacks.forEach((pack: unknown, index: number) => {
+        if (!isObject(pack) || typeof pack.id !== 'string' || typeof pack.name !== 'string' || typeof pack.enabled !== 'boolean') {
+          errors.push(`Prompt pack ${index + 1} is invalid`);
+        }
+      });
+    }
+
+    if (raw.settings !== null && !isObject(raw.settings)) {
+      errors.push('Settings must be an object or null');
+    } else if (isObject(raw.settings)) {
+      errors.push(...validateSettings(raw.settings));
+    }
+
+    if (raw.streakSummary !== undefined && raw.streakSummary !== null && !isObject(raw.streakSummary)) {
+      errors.push('Streak summary must be an object');
+    } else if (isObject(raw.streakSummary) && raw.streakSummary.reset_at !== undefined && !isValidIsoDate(raw.streakSummary.reset_at)) {
+      errors.push('Streak summary has an invalid reset date');
+    }
+
+    if (errors.length > 0) {
+      const reported = errors.slice(0, MAX_REPORTED_ERRORS);
+      if (errors.length > MAX_REPORTED_ERRORS) {
+        reported.push(`...and ${errors.length - MAX_REPORTED_ERRORS} more problems`);
+      }
+      return { valid: false, errors: reported };
+    }
+
+    return { valid: true, data: raw as unknown as ExportDocument };
+  },
+
+  // Dry run: describe what an import would do without writing anything
+  async previewImport(data: ExportDocument): Promise<ImportPreview> {
+    const existing = await db.entries.toArray();
+    const existingIds = new Set(existing.map(e => e.id));
+    const existingDates = new Set(existing.filter(e => !e.deleted_at).map(e => e.dateLocal));
+
+    const idConflicts = data.entries.filter(e => existingIds.has(e.id)).map(e => e.id);
+    const dateConflicts = Array.from(new Set(
+      data.entries
+        .filter(e => !existingIds.has(e.id) && !e.metadata.deleted_at && existingDates.has(e.metadata.dateLocal))
+        .map(e => e.metadata.dateLocal)
+    )).sort();
+
+    const dates = data.entries.map(e => e.metadata.dateLocal).sort();
+
+    return {
+      exportedAt: data.meta.exportedAt,
+      entryCount: data.entries.length,
+      promptCount: data.prompts.length,
+      revisionCount: data.revisions?.length || 0,
+      outcomeCount: data.outcomes?.length || 0,
+      actionItemCount: data.actionItems?.length || 0,
+      reviewCount: data.reviews?.length || 0,
+      hasSettings: !!data.settings,
+      dateRange: dates.length > 0 ? { start: dates[0], end: dates[dates.length - 1] } : null,
+      idConflicts,
+      dateConflicts,
+      newEntryCount: data.entries.length - idConflicts.length,
+    };
+  },
+
+  // Restore a validated backup.
+  // merge: keep everything local and add entries/prompts whose ids are new.
+  // replace: swap local data for the backup and restore its preferences. Unsaved
+  // drafts from the wiped journal are dropped.
+  async importData(
+    data: ExportDocument,
+    mode: ImportMode,
+    onProgress?: (progress: number, status: string) => void
+  ): Promise<ImportResult> {
+    onProgress?.(0, 'Starting import...');
+
+    const [existingEntries, existingPrompts, existingPacks, existingRevisions, existingOutcomes, existingActionItems, existingReviews, currentSettings] = await Promise.all([
+      db.entries.toArray(),
+      db.prompts.toArray(),
+      db.promptPacks.toArray(),
+      db.entryRevisions.toArray(),
+      db.entryOutcomes.toArray(),
+      db.actionItems.toArray(),
+      db.reviews.toArray(),
+      db.settings.get('main'),
+    ]);
+    const existingEntryIds = new Set(existingEntries.map(e => e.id));
+    const existingRevisionIds = new Set(existingRevisions.map(r => r.id));
+    const existingOutcomeIds = new Set(existingOutcomes.map(o => o.id));
+    const existingActionItemIds = new Set(existingActionItems.map(a => a.id));
+    const existingReviewIds = new Set(existingReviews.map(r => r.id));
+    const existingPromptIds = new Set(existingPrompts.map(p => p.id));
+    const existingPackIds = new Set(existingPacks.map(p => p.id));
+
+    const incoming = data.entries.map(toEntry);
+    const entriesToWrite = mode === 'merge'
+      ? incoming.filter(e => !existingEntryIds.has(e.id))
+      : incoming;
+    const promptsToWrite: Prompt[] = mode === 'merge'
+      ? data.prompts.filter(p => !existingPromptIds.has(p.id))
+      : data.prompts;
+    const packsToWrite: PromptPack[] = mode === 'merge'
+      ? (data.promptPacks || []).filter(p => !existingPackIds.has(p.id))
+      : data.promptPacks || [];
+
+    // Revisions, outcomes and action items come along only for the entries that are written
+    const writtenEntryIds = new Set(entriesToWrite.map(e => e.id));
+    const revisionsToWrite = (data.revisions || [])
+      .map(toRevision)
+      .filter(r => writtenEntryIds.has(r.entry_id) && (mode === 'replace' || !existingRevisionIds.has(r.id)));
+    const outcomesToWrite: EntryOutcome[] = (data.outcomes || [])
+      .filter(o => writtenEntryIds.has(o.entry_id) && (mode === 'replace' || !existingOutcomeIds.has(o.id)));
+    const actionItemsToWrite: ActionItem[] = (data.actionItems || [])
+      .filter(a => writtenEntryIds.has(a.entry_id) && (mode === 'replace' || !existingActionItemIds.has(a.id)));
+
+    // Reviews cover a period rather than an entry; merge keeps the local one for a period
+    const reviewsToWrite: SavedReview[] = mode === 'merge'
+      ? (data.reviews || []).filter(r => !existingReviewIds.has(r.id))
+      : data.reviews || [];
+
+    // The freeze ledger and prompt schedule belong to one journal as a whole,
+    // so they are restored only when the backup replaces local data
+    const freezesToWrite: StreakFreeze[] = mode === 'replace' ? data.streakFreezes || [] : [];
+    const promptHistoryToWrite: PromptHistoryEntry[] = mode === 'replace' ? data.promptHistory || [] : [];
+
+    onProgress?.(10, 'Preparing entries...');
+
+    // Entries are encrypted with the session key when a PIN is set
+    const key = await dbUtils.getWriteKey();
+    const encrypted: Entry[] = [];
+    for (let i = 0; i < entriesToWrite.length; i++) {
+      encrypted.push(await dbUtils.encryptEntry(entriesToWrite[i], key));
+      if (i % 25 === 0) {
+        onProgress?.(10 + Math.round((i / entriesToWrite.length) * 60), `Preparing entries (${i + 1}/${entriesToWrite.length})...`);
+      }
+    }
+
+    const encryptedRevisions: EntryRevision[] = [];
+    for (const revision of revisionsToWrite) {
+      encryptedRevisions.push(await dbUtils.encryptEntry(revision, key));
+    }
+
+    const encryptedReviews: SavedReview[] = [];
+    for (const review of reviewsToWrite) {
+      encryptedReviews.push(await dbUtils.encryptReview(review, key));
+    }
+
+    let nextSettings: Settings | undefined;
+    if (mode === 'replace' && data.settings && currentSettings) {
+      // Only validated settings are restored; anything else in the file is ignored
+      const restoredSettings: Partial<Settings> = Object.fromEntries(
+        RESTORABLE_SETTINGS_KEYS.filter(key => data.settings?.[key] !== undefined).map(key => [key, data.settings?.[key]])
+      );
+      const protectedSettings: Partial<Settings> = Object.fromEntries(
+        PROTECTED_SETTINGS_KEYS.map(key => [key, currentSettings[key]])
+      );
+      nextSettings = { ...currentSettings, ...restoredSettings, ...protectedSettings, id: 'main' };
+    }
+
+    onProgress?.(75, 'Saving data...');
+
+    await db.transaction('rw', [db.entries, db.entryRevisions, db.entryOutcomes, db.actionItems, db.reviews, db.prompts, db.promptPacks, db.streakFreezes, db.promptHistory, db.entryDrafts, db.streakSummary, db.settings], async () => {
+      if (mode === 'replace') {
+        await db.entries.clear();
+        await db.entryRevisions.clear();
+        await db.entryOutcomes.clear();
+        await db.actionItems.clear();
+        await db.reviews.clear();
+        await db.prompts.clear();
+        await db.promptPacks.clear();
+        await db.streakFreezes.clear();
+        await db.promptHistory.clear();
+        await db.entryDrafts.clear();
+
+        // A streak reset made on this device would hide the restored entries
+        // from the streak, so the backup's own reset (if any) applies instead
+        const summary = await dbUtils.initializeStreakSummary();
+        await db.streakSummary.put({ ...summary, reset_at: data.streakSummary?.reset_at ?? undefined });
+      }
+      await db.entries.bulkPut(encrypted);
+      await db.entryRevisions.bulkPut(encryptedRevisions);
+      await db.entryOutcomes.bulkPut(outcomesToWrite);
+      await db.actionItems.bulkPut(actionItemsToWrite);
+      await db.reviews.bulkPut(encryptedReviews);
+      await db.prompts.bulkPut(promptsToWrite);
+      await db.promptPacks.bulkPut(packsToWrite);
+      await db.streakFreezes.bulkPut(freezesToWrite);
+      await db.promptHistory.bulkPut(promptHistoryToWrite);
+      if (nextSettings) {
+        await db.settings.put(nextSettings);
+      }
+    });
+
+    await dbUtils.pruneRevisions(getRevisionRetention(nextSettings || currentSettings));
+
+    onProgress?.(85, 'Updating search index...');
+    await dbUtils.rebuildSearchIndex();
+
+    onProgress?.(90, 'Recalculating streaks...');
+    const streak = await dbUtils.rebuildStreakSummary();
+
+    onProgress?.(100, 'Import complete');
+
+    return {
+      importedEntries: entriesToWrite.length,
+      skippedEntries: incoming.length - entriesToWrite.length,
+      importedPrompts: promptsToWrite.length,
+      importedRevisions: revisionsToWrite.length,
+      importedOutcomes: outcomesToWrite.length,
+      importedActionItems: actionItemsToWrite.length,
+      importedReviews: reviewsToWrite.length,
+      streak,
+    };
+  },
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { computeInsights, getTermFrequency } from './insights';
+import type { Entry, Prompt } from './database';
+
+// Times are local so the hour buckets don't depend on the time zone
+const entry = (id: string, prompt_id: string, dateLocal: string, hour: number, setback: string, gratitude: string): Entry => ({
+  id,
+  dateLocal,
+  prompt_id,
+  setback,
+  protective_step: '',
+  gratitude,
+  created_at: new Date(`${dateLocal}T${String(hour).padStart(2, '0')}:30:00`).toISOString(),
+});
+
+const prompt = (id: string, category: Prompt['category']): Prompt => ({
+  id,
+  text: id,
+  category,
+  archived: false,
+  created_at: '2024-01-01T00:00:00.000Z',
+  source: 'seed',
+});
+
+describe('getTermFrequency', () => {
+  it('counts every use of a word, most used first', () => {
+    expect(getTermFrequency(['Work, work and more work', 'Rain at work', 'Rain'])).toEqual([
+      { word: 'work', count: 4 },
+      { word: 'rain', count: 2 },
+      { word: 'more', count: 1 },
+    ]);
+  });
+
+  it('stops at the limit', () => {
+    expect(getTermFrequency(['cat dog bird'], 2)).toEqual([{ word: 'bird', count: 1 }, { word: 'cat', count: 1 }]);
+  });
+});
+
+describe('computeInsights', () => {
+  // Work entries are 30 characters, health entries 10 and the rest 20
+  const entries = [
+    entry('work-1', 'seed-1', '2024-03-04', 8, 'x'.repeat(24), 'Family'),
+    entry('work-2', 'seed-1', '2024-03-05', 8, 'x'.repeat(24), 'Family'),
+    entry('work-3', 'seed-1', '2024-03-11', 8, 'x'.repeat(24), 'Family'),
+    entry('health-1', 'seed-2', '2024-03-06', 21, 'x'.repeat(7), 'Tea'),
+    entry('health-2', 'seed-2', '2024-03-06', 21, 'x'.repeat(7), 'Tea'),
+    entry('health-3', 'seed-2', '2024-03-10', 21, 'x'.repeat(7), 'Tea'),
+    entry('growth', 'seed-3', '2024-03-10', 23, 'x'.repeat(20), ''),
+    entry('custom', 'user-1', '2024-03-10', 0, 'x'.repeat(20), ''),
+  ];
+  const prompts = [prompt('seed-1', 'work'), prompt('seed-2', 'health'), prompt('seed-3', 'growth')];
+  const insights = computeInsights(entries, prompts);
+
+  it('counts entries by local hour and weekday', () => {
+    expect(insights.entryCount).toBe(8);
+    expect(insights.hourCounts).toHaveLength(24);
+    expect([insights.hourCounts[0], insights.hourCounts[8], insights.hourCounts[21], insights.hourCounts[23]]).toEqual([1, 3, 3, 1]);
+    expect(insights.weekdayCounts).toEqual([2, 1, 2, 0, 0, 0, 3]);
+  });
+
+  it('averages lengths overall and per field', () => {
+    expect(insights.averageLength).toBe(20);
+    expect(insights.averageFieldLength).toEqual({ setback: 17, protective_step: 0, gratitude: 3 });
+  });
+
+  it('compares categories with enough entries to the overall average', () => {
+    expect(insights.categoryLengths).toEqual([
+      { category: 'work', entryCount: 3, averageLength: 30, difference: 50 },
+      { category: 'health', entryCount: 3, averageLength: 10, difference: -50 },
+    ]);
+  });
+
+  it('lists recurring gratitude subjects', () => {
+    expect(insights.gratitudeSubjects).toEqual([{ word: 'family', count: 3 }, { word: 'tea', count: 3 }]);
+  });
+
+  it('returns zeros for an empty journal', () => {
+    const empty = computeInsights([], prompts);
+
+    expect(empty.averageLength).toBe(0);
+    expect(empty.categoryLengths).toEqual([]);
+    expect(empty.termFrequency).toEqual({ setback: [], protective_step: [], gratitude: [] });
+  });
+});
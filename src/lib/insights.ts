@@ -0,0 +1,105 @@
+import type { Entry, Prompt, PromptCategory } from './database';
+import { getWeekdayIndex } from './calendar';
+import { tokenize } from './search';
+import { getRecurringWords, WordCount } from './reviews';
+
+export const INSIGHT_FIELDS = [
+  { key: 'setback', label: 'Setbacks' },
+  { key: 'protective_step', label: 'Protective Steps' },
+  { key: 'gratitude', label: 'Gratitude' },
+] as const;
+
+export type InsightField = typeof INSIGHT_FIELDS[number]['key'];
+
+// A category needs this many entries before its length is compared
+const MIN_CATEGORY_ENTRIES = 3;
+const MAX_CLOUD_WORDS = 30;
+const MAX_GRATITUDE_SUBJECTS = 10;
+
+export interface CategoryLength {
+  category: PromptCategory;
+  entryCount: number;
+  averageLength: number; // characters across all three fields
+  difference: number; // percent above (or below) the overall average
+}
+
+export interface Insights {
+  entryCount: number;
+  gratitudeSubjects: WordCount[];
+  termFrequency: Record<InsightField, WordCount[]>;
+  hourCounts: number[]; // entries started in each local hour, 0-23
+  weekdayCounts: number[]; // entries per weekday, Monday first
+  averageLength: number;
+  averageFieldLength: Record<InsightField, number>;
+  categoryLengths: CategoryLength[]; // longest reflections first
+}
+
+const entryLength = (entry: Entry) => entry.setback.length + entry.protective_step.length + entry.gratitude.length;
+
+const average = (values: number[]) =>
+  values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : 0;
+
+// How often each word is used across all texts, most used first
+export function getTermFrequency(texts: string[], limit: number = MAX_CLOUD_WORDS): WordCount[] {
+  const counts = new Map<string, number>();
+  for (const text of texts) {
+    tokenize(text).forEach(word => counts.set(word, (counts.get(word) || 0) + 1));
+  }
+
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([word, count]) => ({ word, count }));
+}
+
+// Everything is computed from decrypted entries in memory; nothing is stored or sent
+export function computeInsights(entries: Entry[], prompts: Prompt[]): Insights {
+  const hourCounts = new Array(24).fill(0);
+  const weekdayCounts = new Array(7).fill(0);
+  for (const entry of entries) {
+    hourCounts[new Date(entry.created_at).getHours()]++;
+    weekdayCounts[getWeekdayIndex(entry.dateLocal)]++;
+  }
+
+  const overallAverage = average(entries.map(entryLength));
+  const categoryById = new Map(prompts.map(p => [p.id, p.category]));
+  const lengthsByCategory = new Map<PromptCategory, number[]>();
+  for (const entry of entries) {
+    const category = categoryById.get(entry.prompt_id);
+    if (category) lengthsByCategory.set(category, (lengthsByCategory.get(category) || []).concat(entryLength(entry)));
+  }
+
+  const categoryLengths: CategoryLength[] = Array.from(lengthsByCategory.entries())
+    .filter(([, lengths]) => lengths.length >= MIN_CATEGORY_ENTRIES)
+    .map(([category, lengths]) => {
+      const averageLength = average(lengths);
+      return {
+        category,
+        entryCount: lengths.length,
+        averageLength,
+        difference: overallAverage > 0 ? Math.round(((averageLength - overallAverage) / overallAverage) * 100) : 0,
+      };
+    })
+    .sort((a, b) => b.averageLength - a.averageLength);
+
+  const fieldTexts = (field: InsightField) => entries.map(entry => entry[field]);
+
+  return {
+    entryCount: entries.length,
+    gratitudeSubjects: getRecurringWords(fieldTexts('gratitude'), MAX_GRATITUDE_SUBJECTS),
+    termFrequency: {
+      setback: getTermFrequency(fieldTexts('setback')),
+      protective_step: getTermFrequency(fieldTexts('protective_step')),
+      gratitude: getTermFrequency(fieldTexts('gratitude')),
+    },
+    hourCounts,
+    weekdayCounts,
+    averageLength: overallAverage,
+    averageFieldLength: {
+      setback: average(fieldTexts('setback').map(text => text.length)),
+      protective_step: average(fieldTexts('protective_step').map(text => text.length)),
+      gratitude: average(fieldTexts('gratitude').map(text => text.length)),
+    },
+    categoryLengths,
+  };
+}
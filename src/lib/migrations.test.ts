@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { assignSeedCategory, extractStreakBackup, keyDraftByEntry } from './migrations';
+import { SEED_PROMPTS } from './prompts';
+import type { Draft, Prompt, Settings } from './database';
+
+const baseSettings: Settings = {
+  id: 'main',
+  lockTimeoutMinutes: 5,
+  dailyCueEnabled: false,
+  notificationsEnabled: false,
+  telemetryOptIn: false,
+  installAt: '2024-01-01T00:00:00.000Z',
+  currentTheme: 'system',
+};
+
+const prompt = (overrides: Partial<Prompt>): Prompt => ({
+  id: 'seed-1',
+  text: 'Imagine losing your home',
+  archived: false,
+  created_at: '2024-01-01T00:00:00.000Z',
+  source: 'seed',
+  ...overrides,
+});
+
+describe('extractStreakBackup', () => {
+  it('moves a matched backup out of lastPromptId', () => {
+    const streak = { id: 'main', start_date: '2024-01-01', current_streak: 4, longest_streak: 9 };
+    const timestamp = Date.UTC(2024, 2, 5);
+    const result = extractStreakBackup({
+      ...baseSettings,
+      lastPromptId: `backup_streak_${timestamp}_${JSON.stringify(streak)}`,
+    });
+
+    expect(result.settings.lastPromptId).toBeUndefined();
+    expect(result.backup).toEqual({
+      id: `streak-backup-${timestamp}`,
+      created_at: new Date(timestamp).toISOString(),
+      streak,
+    });
+  });
+
+  it('clears lastPromptId but keeps no backup when the JSON is malformed', () => {
+    const result = extractStreakBackup({ ...baseSettings, lastPromptId: 'backup_streak_1700000000000_{not json' });
+
+    expect(result.settings.lastPromptId).toBeUndefined();
+    expect(result.backup).toBeNull();
+  });
+
+  it('leaves settings without a backup untouched', () => {
+    const settings = { ...baseSettings, lastPromptId: 'seed-3' };
+    const result = extractStreakBackup(settings);
+
+    expect(result.settings).toBe(settings);
+    expect(result.backup).toBeNull();
+  });
+});
+
+describe('assignSeedCategory', () => {
+  it('gives a seed prompt the category of its SEED_PROMPTS item', () => {
+    expect(assignSeedCategory(prompt({ id: 'seed-2' })).category).toBe(SEED_PROMPTS[1].category);
+  });
+
+  it('leaves user and pack prompts alone', () => {
+    const userPrompt = prompt({ id: 'seed-2', source: 'user' });
+    const packPrompt = prompt({ id: 'seed-2', source: 'pack' });
+
+    expect(assignSeedCategory(userPrompt)).toBe(userPrompt);
+    expect(assignSeedCategory(packPrompt)).toBe(packPrompt);
+  });
+
+  it('keeps a category that is already set', () => {
+    const categorized = prompt({ id: 'seed-1', category: 'work' });
+    expect(assignSeedCategory(categorized)).toBe(categorized);
+  });
+
+  it('leaves prompts with an out-of-range or unnumbered seed id alone', () => {
+    const pastEnd = prompt({ id: `seed-${SEED_PROMPTS.length + 1}` });
+    const zero = prompt({ id: 'seed-0' });
+    const custom = prompt({ id: 'seed-custom' });
+
+    expect(assignSeedCategory(pastEnd)).toBe(pastEnd);
+    expect(assignSeedCategory(zero)).toBe(zero);
+    expect(assignSeedCategory(custom)).toBe(custom);
+  });
+});
+
+describe('keyDraftByEntry', () => {
+  // Drafts for a new entry were stored without an entry_id before v15
+  const legacyDraft = {
+    dateLocal: '2024-03-05',
+    setback: 'a',
+    protective_step: 'b',
+    gratitude: 'c',
+    updated_at: '2024-03-05T21:00:00.000Z',
+  } as Draft;
+
+  it('puts a draft without an entry in the new-entry slot', () => {
+    expect(keyDraftByEntry(legacyDraft)).toEqual({ ...legacyDraft, entry_id: 'new' });
+  });
+
+  it('keeps the entry a draft already belongs to', () => {
+    const edit = { ...legacyDraft, entry_id: 'entry-1' };
+    expect(keyDraftByEntry(edit)).toBe(edit);
+  });
+});
@@ -0,0 +1,380 @@
+import Dexie, { Table, Transaction } from 'dexie';
+import type { Draft, Prompt, Settings, StreakBackup } from './database';
+import { SEED_PROMPTS } from './prompts';
+
+// One step of the JournalDB schema history. Steps are applied in version order;
+// `stores` only needs the tables that change in that version. Data changes live
+// in `upgrade`, which should delegate to a pure transform exported from this
+// file so the logic can be tested without IndexedDB.
+export interface Migration {
+  version: number;
+  description: string;
+  stores: { [tableName: string]: string | null };
+  upgrade?: (tx: Transaction) => Promise<void>;
+}
+
+export interface MigrationSnapshot {
+  id: string;
+  fromVersion: number;
+  toVersion: number;
+  createdAt: string; // ISO date
+  tables: { [tableName: string]: any[] };
+}
+
+export interface MigrationFailure {
+  message: string;
+  fromVersion: number;
+  toVersion: number;
+  restored: boolean;
+}
+
+// v2: resetStreakData used to stash a JSON backup of the streak in
+// settings.lastPromptId ("backup_streak_<timestamp>_<json>"). Move it into the
+// streakBackups table and give lastPromptId back to the prompt swap logic.
+export function extractStreakBackup(settings: Settings): { settings: Settings; backup: StreakBackup | null } {
+  const match = settings.lastPromptId?.match(/^backup_streak_(\d+)_(.*)$/);
+  if (!match) return { settings, backup: null };
+
+  const cleaned = { ...settings, lastPromptId: undefined };
+  try {
+    const timestamp = Number(match[1]);
+    return {
+      settings: cleaned,
+      backup: {
+        id: `streak-backup-${timestamp}`,
+        created_at: new Date(timestamp).toISOString(),
+        streak: JSON.parse(match[2]),
+      },
+    };
+  } catch {
+    return { settings: cleaned, backup: null };
+  }
+}
+
+// v5: seed prompts stored before categories existed get the category of the
+// matching SEED_PROMPTS item (ids are "seed-<position>")
+export function assignSeedCategory(prompt: Prompt): Prompt {
+  const match = prompt.id.match(/^seed-(\d+)$/);
+  if (prompt.source !== 'seed' || prompt.category || !match) return prompt;
+
+  const seed = SEED_PROMPTS[Number(match[1]) - 1];
+  return seed?.category ? { ...prompt, category: seed.category } : prompt;
+}
+
+// v15: drafts are keyed by day and entry. A draft for a new entry had no
+// entry_id and takes the 'new' slot.
+export function keyDraftByEntry(draft: Draft): Draft {
+  return draft.entry_id ? draft : { ...draft, entry_id: 'new' };
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Initial schema',
+    stores: {
+      settings: '&id, installAt, lastPromptDate, swapUsedDate',
+      prompts: '&id, source, archived, created_at',
+      entries: '&id, dateLocal, prompt_id, created_at, edited_at',
+      streakSummary: '&id, start_date, last_entry_date',
+    },
+  },
+  {
+    version: 2,
+    description: 'Move streak reset backups out of settings.lastPromptId',
+    stores: {
+      streakBackups: '&id, created_at',
+    },
+    upgrade: async (tx) => {
+      const settings = await tx.table('settings').get('main');
+      if (!settings) return;
+
+      const result = extractStreakBackup(settings);
+      if (result.backup) {
+        await tx.table('streakBackups').put(result.backup);
+        await tx.table('settings').put(result.settings);
+      }
+    },
+  },
+  {
+    version: 3,
+    description: 'Add the streak freeze ledger',
+    stores: {
+      streakFreezes: '&id, type, dateLocal, created_at',
+    },
+  },
+  {
+    version: 4,
+    description: 'Record the prompt served on each day',
+    stores: {
+      promptHistory: '&dateLocal, prompt_id, cycle',
+    },
+  },
+  {
+    version: 5,
+    description: 'Tag prompts with categories',
+    stores: {
+      prompts: '&id, source, archived, created_at, category',
+    },
+    upgrade: async (tx) => {
+      await tx.table('prompts').toCollection().modify((prompt: Prompt) => {
+        Object.assign(prompt, assignSeedCategory(prompt));
+      });
+    },
+  },
+  {
+    version: 6,
+    description: 'Add prompt packs',
+    stores: {
+      prompts: '&id, source, archived, created_at, category, pack_id',
+      promptPacks: '&id, name, enabled',
+    },
+  },
+  {
+    version: 7,
+    description: 'Add the full-text search index',
+    stores: {
+      searchIndex: '[term+entry_id], term, entry_id',
+    },
+  },
+  {
+    version: 8,
+    description: 'Index entries for the entry list filters',
+    stores: {
+      entries: '&id, dateLocal, prompt_id, created_at, edited_at, duration_seconds, [prompt_id+dateLocal]',
+    },
+  },
+  {
+    version: 9,
+    description: 'Autosave entry drafts',
+    stores: {
+      drafts: '&dateLocal, updated_at',
+    },
+  },
+  {
+    version: 10,
+    description: 'Keep earlier versions of edited entries',
+    stores: {
+      entryRevisions: '&id, entry_id, replaced_at',
+    },
+  },
+  {
+    version: 11,
+    description: 'Index trashed entries',
+    stores: {
+      entries: '&id, dateLocal, prompt_id, created_at, edited_at, duration_seconds, deleted_at, [prompt_id+dateLocal]',
+    },
+  },
+  {
+    version: 12,
+    description: 'Record what happened to past setbacks',
+    stores: {
+      entryOutcomes: '&id, entry_id, recorded_at',
+    },
+  },
+  {
+    version: 13,
+    description: 'Track protective steps as action items',
+    stores: {
+      actionItems: '&id, entry_id, status, due_date',
+    },
+  },
+  {
+    version: 14,
+    description: 'Save weekly and monthly reviews',
+    stores: {
+      reviews: '&id, period, start',
+    },
+  },
+  {
+    version: 15,
+    description: 'Keep a draft per entry',
+    stores: {
+      entryDrafts: '&[dateLocal+entry_id], dateLocal, entry_id, updated_at',
+    },
+    upgrade: async (tx) => {
+      const drafts = await tx.table('drafts').toArray();
+      await tx.table('entryDrafts').bulkPut(drafts.map(keyDraftByEntry));
+    },
+  },
+  {
+    version: 16,
+    description: 'Drop the per-day drafts table',
+    stores: {
+      drafts: null,
+    },
+  },
+];
+
+export const LATEST_DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Declare every registered version on a Dexie instance
+export function applyMigrations(db: Dexie, migrations: Migration[] = MIGRATIONS): void {
+  [...migrations]
+    .sort((a, b) => a.version - b.version)
+    .forEach(migration => {
+      const version = db.version(migration.version).stores(migration.stores);
+      if (migration.upgrade) {
+        version.upgrade(migration.upgrade);
+      }
+    });
+}
+
+// Snapshots live in their own database so a failed upgrade can't touch them
+const SNAPSHOT_DB_NAME = 'NegativeVizJournalDB_snapshots';
+
+class SnapshotDB extends Dexie {
+  snapshots!: Table<MigrationSnapshot, string>;
+
+  constructor() {
+    super(SNAPSHOT_DB_NAME);
+
+    this.version(1).stores({
+      snapshots: '&id, createdAt',
+    });
+  }
+}
+
+let snapshotDb: SnapshotDB | null = null;
+const getSnapshotDb = () => (snapshotDb ??= new SnapshotDB());
+
+// Snapshot taken during this page load, before the pending upgrade ran
+let pendingSnapshot: MigrationSnapshot | null = null;
+let lastFailure: MigrationFailure | null = null;
+
+const isIndexedDBAvailable = (): boolean => {
+  try {
+    return typeof window !== 'undefined' && 'indexedDB' in window && indexedDB !== null;
+  } catch {
+    return false;
+  }
+};
+
+export const migrationUtils = {
+  // Version of the database currently on disk (0 if it doesn't exist yet)
+  async getInstalledVersion(dbName: string): Promise<number> {
+    if (!(await Dexie.exists(dbName))) return 0;
+
+    // Opening without declared versions uses the on-disk schema as-is
+    const probe = new Dexie(dbName);
+    try {
+      await probe.open();
+      return probe.verno;
+    } finally {
+      probe.close();
+    }
+  },
+
+  // Copy every table before Dexie runs pending upgrades. Called from JournalDB.open().
+  async snapshotBeforeUpgrade(dbName: string): Promise<void> {
+    if (!isIndexedDBAvailable()) return;
+
+    try {
+      const installedVersion = await this.getInstalledVersion(dbName);
+      if (installedVersion === 0 || installedVersion >= LATEST_DB_VERSION) return;
+
+      const probe = new Dexie(dbName);
+      const tables: MigrationSnapshot['tables'] = {};
+      try {
+        await probe.open();
+        for (const table of probe.tables) {
+          tables[table.name] = await table.toArray();
+        }
+      } finally {
+        probe.close();
+      }
+
+      const snapshot: MigrationSnapshot = {
+        id: 'pre-migration',
+        fromVersion: installedVersion,
+        toVersion: LATEST_DB_VERSION,
+        createdAt: new Date().toISOString(),
+        tables,
+      };
+
+      await getSnapshotDb().snapshots.put(snapshot);
+      pendingSnapshot = snapshot;
+    } catch (error) {
+      // IndexedDB upgrades are transactional, so the upgrade itself is still safe to attempt
+      console.warn('Failed to snapshot database before migration:', error);
+    }
+  },
+
+  // Called when opening the database fails. If this load ran an upgrade, make
+  // sure the data on disk matches the snapshot and record the failure for AppGuard.
+  async handleOpenFailure(dbName: string, error: unknown): Promise<void> {
+    const snapshot = pendingSnapshot;
+    if (!snapshot) return;
+
+    console.error(`Database migration from v${snapshot.fromVersion} to v${snapshot.toVersion} failed:`, error);
+
+    let restored = false;
+    try {
+      if (await this.needsRestore(dbName, snapshot)) {
+        await this.restoreSnapshot(dbName, snapshot);
+      }
+      restored = true;
+    } catch (restoreError) {
+      console.error('Failed to restore pre-migration snapshot:', restoreError);
+    }
+
+    lastFailure = {
+      message: error instanceof Error ? error.message : 'Unknown migration error',
+      fromVersion: snapshot.fromVersion,
+      toVersion: snapshot.toVersion,
+      restored,
+    };
+  },
+
+  // A failed IndexedDB upgrade normally rolls back by itself; only restore when
+  // the version or row counts on disk no longer match the snapshot
+  async needsRestore(dbName: string, snapshot: MigrationSnapshot): Promise<boolean> {
+    if ((await this.getInstalledVersion(dbName)) !== snapshot.fromVersion) return true;
+
+    const probe = new Dexie(dbName);
+    try {
+      await probe.open();
+      for (const [tableName, rows] of Object.entries(snapshot.tables)) {
+        if ((await probe.table(tableName).count()) !== rows.length) return true;
+      }
+      return false;
+    } finally {
+      probe.close();
+    }
+  },
+
+  // Recreate the database at the snapshot's version and put the rows back
+  async restoreSnapshot(dbName: string, snapshot: MigrationSnapshot): Promise<void> {
+    await Dexie.delete(dbName);
+
+    const restoreDb = new Dexie(dbName);
+    applyMigrations(restoreDb, MIGRATIONS.filter(m => m.version <= snapshot.fromVersion));
+
+    try {
+      await restoreDb.open();
+      await restoreDb.transaction('rw', restoreDb.tables, async () => {
+        for (const [tableName, rows] of Object.entries(snapshot.tables)) {
+          await restoreDb.table(tableName).bulkPut(rows);
+        }
+      });
+    } finally {
+      restoreDb.close();
+    }
+  },
+
+  getLastFailure(): MigrationFailure | null {
+    return lastFailure;
+  },
+
+  async getLatestSnapshot(): Promise<MigrationSnapshot | undefined> {
+    return getSnapshotDb().snapshots.get('pre-migration');
+  },
+
+  // The snapshot is a plaintext copy of the whole journal, so it's deleted as
+  // soon as the upgrade succeeds and whenever the user wipes their data
+  async discardSnapshot(): Promise<void> {
+    pendingSnapshot = null;
+    snapshotDb?.close();
+    snapshotDb = null;
+    await Dexie.delete(SNAPSHOT_DB_NAME);
+  },
+};
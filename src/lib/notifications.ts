@@ -57,31 +57,7 @@ export function scheduleNotification(time: string, message: string = 'Time for y
     }
     
     activeNotificationTimeout = setTimeout(() => {
-      try {
-        if ('serviceWorker' in navigator) {
-          navigator.serviceWorker.ready.then((registration) => {
-            if ('showNotification' in registration) {
-              registration.showNotification('Negative Visualization Journal', {
-                body: message,
-                icon: '/icon-192x192.png',
-                badge: '/icon-192x192.png',
-                tag: 'daily-cue',
-                requireInteraction: false,
-                silent: false,
-              });
-            }
-          }).catch((error) => {
-            console.error('Service worker notification failed:', error);
-            // Fallback to browser notification
-            showBrowserNotification(message);
-          });
-        } else {
-          // Fallback to browser notification
-          showBrowserNotification(message);
-        }
-      } catch (error) {
-        console.error('Failed to show notification:', error);
-      }
+      showNotification(message, 'daily-cue');
       activeNotificationTimeout = null;
     }, delay);
     
@@ -91,17 +67,85 @@ export function scheduleNotification(time: string, message: string = 'Time for y
   }
 }
 
-function showBrowserNotification(message: string): void {
+function showNotification(message: string, tag: string): void {
+  try {
+    if ('serviceWorker' in navigator) {
+      navigator.serviceWorker.ready.then((registration) => {
+        if ('showNotification' in registration) {
+          registration.showNotification('Negative Visualization Journal', {
+            body: message,
+            icon: '/icon-192x192.png',
+            badge: '/icon-192x192.png',
+            tag,
+            requireInteraction: false,
+            silent: false,
+          });
+        }
+      }).catch((error) => {
+        console.error('Service worker notification failed:', error);
+        // Fallback to browser notification
+        showBrowserNotification(message, tag);
+      });
+    } else {
+      // Fallback to browser notification
+      showBrowserNotification(message, tag);
+    }
+  } catch (error) {
+    console.error('Failed to show notification:', error);
+  }
+}
+
+function showBrowserNotification(message: string, tag: string): void {
   if (getNotificationPermission() === 'granted') {
     new Notification('Negative Visualization Journal', {
       body: message,
       icon: '/icon-192x192.png',
-      tag: 'daily-cue',
+      tag,
       requireInteraction: false,
     });
   }
 }
 
+export interface ActionReminder {
+  id: string;
+  dueDate: string; // YYYY-MM-DD
+  message: string;
+}
+
+const actionReminderTimeouts = new Map<string, NodeJS.Timeout>();
+
+// Remind about action items on their due date at the given "HH:MM" time.
+// Replaces every reminder scheduled before. Like the daily cue, only the
+// next 24 hours are held, so this is called again on each visit.
+export function scheduleActionReminders(reminders: ActionReminder[], time: string): void {
+  clearActionReminders();
+
+  if (!isNotificationSupported() || getNotificationPermission() !== 'granted') {
+    return;
+  }
+
+  const [hours, minutes] = time.split(':').map(Number);
+  const now = Date.now();
+
+  for (const reminder of reminders) {
+    const remindAt = new Date(reminder.dueDate + 'T00:00:00');
+    remindAt.setHours(hours, minutes, 0, 0);
+
+    const delay = remindAt.getTime() - now;
+    if (delay <= 0 || delay > 24 * 60 * 60 * 1000) continue;
+
+    actionReminderTimeouts.set(reminder.id, setTimeout(() => {
+      actionReminderTimeouts.delete(reminder.id);
+      showNotification(reminder.message, `action-${reminder.id}`);
+    }, delay));
+  }
+}
+
+export function clearActionReminders(): void {
+  actionReminderTimeouts.forEach(timeout => clearTimeout(timeout));
+  actionReminderTimeouts.clear();
+}
+
 export function clearScheduledNotification(): void {
   if (activeNotificationTimeout) {
     clearTimeout(activeNotificationTimeout);
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { describeTimeAgo, getOnThisDayDates } from './on-this-day';
+
+describe('getOnThisDayDates', () => {
+  it('lists the same day of earlier months, newest first', () => {
+    expect(getOnThisDayDates('2024-05-10', '2024-01-01')).toEqual([
+      '2024-04-10',
+      '2024-03-10',
+      '2024-02-10',
+      '2024-01-10',
+    ]);
+  });
+
+  it('crosses year boundaries', () => {
+    expect(getOnThisDayDates('2024-02-15', '2023-11-01')).toEqual(['2024-01-15', '2023-12-15', '2023-11-15']);
+  });
+
+  it('skips months without that day', () => {
+    expect(getOnThisDayDates('2024-05-31', '2024-01-01')).toEqual(['2024-03-31', '2024-01-31']);
+    expect(getOnThisDayDates('2024-03-30', '2024-01-01')).toEqual(['2024-01-30']);
+  });
+
+  it('includes February 29th only in leap years', () => {
+    expect(getOnThisDayDates('2025-03-29', '2024-01-01')).toContain('2024-02-29');
+    expect(getOnThisDayDates('2024-03-29', '2023-01-01')).not.toContain('2023-02-29');
+  });
+
+  it('stops at the earliest entry', () => {
+    expect(getOnThisDayDates('2024-05-10', '2024-03-10')).toEqual(['2024-04-10', '2024-03-10']);
+    expect(getOnThisDayDates('2024-05-10', '2024-03-20')).toEqual(['2024-04-10']);
+  });
+
+  it('returns nothing when the earliest entry is this month', () => {
+    expect(getOnThisDayDates('2024-05-10', '2024-05-01')).toEqual([]);
+  });
+});
+
+describe('describeTimeAgo', () => {
+  it('describes months and years', () => {
+    expect(describeTimeAgo('2024-04-10', '2024-05-10')).toBe('1 month ago');
+    expect(describeTimeAgo('2024-02-10', '2024-05-10')).toBe('3 months ago');
+    expect(describeTimeAgo('2023-05-10', '2024-05-10')).toBe('1 year ago');
+    expect(describeTimeAgo('2021-11-10', '2024-05-10')).toBe('2 years, 6 months ago');
+  });
+});
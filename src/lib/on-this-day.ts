@@ -0,0 +1,39 @@
+import type { Settings } from './database';
+
+// On by default; the card is hidden only when turned off in settings
+export function isOnThisDayEnabled(settings: Settings | null | undefined): boolean {
+  return settings?.showOnThisDay !== false;
+}
+
+// Earlier days that share today's day of the month, newest first, back to
+// the earliest entry. Months without that day (April 31st) are skipped.
+export function getOnThisDayDates(today: string, earliest: string): string[] {
+  const [year, month, day] = today.split('-').map(Number);
+  const dates: string[] = [];
+
+  for (let monthsBack = 1; ; monthsBack++) {
+    const first = new Date(year, month - 1 - monthsBack, 1);
+    const daysInMonth = new Date(first.getFullYear(), first.getMonth() + 1, 0).getDate();
+    const monthStart = first.getFullYear() + '-' + String(first.getMonth() + 1).padStart(2, '0');
+    if (`${monthStart}-${String(daysInMonth).padStart(2, '0')}` < earliest) break;
+
+    const date = `${monthStart}-${String(day).padStart(2, '0')}`;
+    if (day <= daysInMonth && date >= earliest) dates.push(date);
+  }
+
+  return dates;
+}
+
+// "3 months ago", "1 year ago", "2 years, 6 months ago"
+export function describeTimeAgo(dateLocal: string, today: string): string {
+  const [fromYear, fromMonth] = dateLocal.split('-').map(Number);
+  const [toYear, toMonth] = today.split('-').map(Number);
+  const totalMonths = (toYear - fromYear) * 12 + (toMonth - fromMonth);
+  const years = Math.floor(totalMonths / 12);
+  const months = totalMonths % 12;
+
+  const parts: string[] = [];
+  if (years > 0) parts.push(years === 1 ? '1 year' : `${years} years`);
+  if (months > 0) parts.push(months === 1 ? '1 month' : `${months} months`);
+  return `${parts.join(', ')} ago`;
+}
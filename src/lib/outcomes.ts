@@ -0,0 +1,90 @@
+import type { EntryOutcome, OutcomeAnswer, OutcomeSeverity } from './database';
+import { addDays } from './streaks';
+
+// Days after an entry when its setback is brought back for review
+export const OUTCOME_CHECKPOINTS = [30, 90, 365];
+
+export const OUTCOME_ANSWERS: { value: OutcomeAnswer; label: string }[] = [
+  { value: 'yes', label: 'Yes' },
+  { value: 'partly', label: 'Partly' },
+  { value: 'no', label: 'No' },
+];
+
+export const OUTCOME_SEVERITIES: { value: OutcomeSeverity; label: string }[] = [
+  { value: 'milder', label: 'Milder than I imagined' },
+  { value: 'as_feared', label: 'About as I imagined' },
+  { value: 'worse', label: 'Worse than I imagined' },
+];
+
+export interface CheckpointSummary {
+  checkpointDays: number;
+  reviewed: number;
+  happened: number; // 'yes' or 'partly'
+}
+
+export interface OutcomeReport {
+  reviewed: number; // answered reviews, skipped ones left out
+  happened: number;
+  didNotHappen: number;
+  severity: Record<OutcomeSeverity, number>;
+  stepTaken: number; // 'yes' or 'partly'
+  // How often the setback happened, split by whether the protective step was taken
+  happenedWithStep: { happened: number; total: number };
+  happenedWithoutStep: { happened: number; total: number };
+  byCheckpoint: CheckpointSummary[];
+}
+
+export const outcomeId = (entryId: string, checkpointDays: number) => `outcome-${entryId}-${checkpointDays}`;
+
+const isYes = (answer: OutcomeAnswer | null) => answer === 'yes' || answer === 'partly';
+
+export function formatCheckpoint(days: number): string {
+  return days === 365 ? '1 year' : `${days} days`;
+}
+
+// The checkpoint an entry written on `dateLocal` is waiting on, if any. Only
+// the latest checkpoint reached counts, so an entry that was missed at 30
+// days asks once at 90 rather than twice.
+export function getDueCheckpoint(dateLocal: string, today: string, reviewedCheckpoints: number[]): number | null {
+  const reached = OUTCOME_CHECKPOINTS.filter(days => addDays(dateLocal, days) <= today);
+  if (reached.length === 0) return null;
+
+  const latest = reached[reached.length - 1];
+  return reviewedCheckpoints.includes(latest) ? null : latest;
+}
+
+export function buildOutcomeReport(outcomes: EntryOutcome[]): OutcomeReport {
+  const answered = outcomes.filter(o => o.happened !== null);
+  const report: OutcomeReport = {
+    reviewed: answered.length,
+    happened: 0,
+    didNotHappen: 0,
+    severity: { milder: 0, as_feared: 0, worse: 0 },
+    stepTaken: 0,
+    happenedWithStep: { happened: 0, total: 0 },
+    happenedWithoutStep: { happened: 0, total: 0 },
+    byCheckpoint: OUTCOME_CHECKPOINTS.map(checkpointDays => ({ checkpointDays, reviewed: 0, happened: 0 })),
+  };
+
+  for (const outcome of answered) {
+    const happened = isYes(outcome.happened);
+    if (happened) report.happened++;
+    else report.didNotHappen++;
+    if (happened && outcome.severity) report.severity[outcome.severity]++;
+
+    if (outcome.took_step !== null) {
+      const group = isYes(outcome.took_step) ? report.happenedWithStep : report.happenedWithoutStep;
+      group.total++;
+      if (happened) group.happened++;
+      if (isYes(outcome.took_step)) report.stepTaken++;
+    }
+
+    const checkpoint = report.byCheckpoint.find(c => c.checkpointDays === outcome.checkpoint_days);
+    if (checkpoint) {
+      checkpoint.reviewed++;
+      if (happened) checkpoint.happened++;
+    }
+  }
+
+  return report;
+}
@@ -1,8 +1,8 @@
 'use client'
 
 import React, { createContext, useContext, useEffect, useState, useCallback } from 'react'
-import { cryptoUtils, sessionUtils, PinHashData } from '@/lib/crypto'
-import { db } from '@/lib/database'
+import { cryptoUtils, sessionUtils, PinHashData, WrappedKeyData } from '@/lib/crypto'
+import { dbUtils, Settings } from '@/lib/database'
 import { useAppStore } from '@/lib/store'
 
 interface PinContextValue {
@@ -15,6 +15,7 @@ interface PinContextValue {
   setupPin: (pin: string) => Promise<{ success: boolean; error?: string }>
   verifyPin: (pin: string) => Promise<{ success: boolean; error?: string }>
   disablePin: (currentPin: string) => Promise<{ success: boolean; error?: string }>
+  changePin: (currentPin: string, newPin: string) => Promise<{ success: boolean; error?: string }>
   
   // Session management
   lock: () => void
@@ -33,6 +34,16 @@ interface PinContextValue {
   lockoutEndTime: number | null
 }
 
+// Settings fields that store the wrapped entry data key
+function wrappedKeySettings(wrapped: WrappedKeyData | null): Partial<Settings> {
+  return {
+    dataKeyWrapped: wrapped?.wrappedKey,
+    dataKeySalt: wrapped?.salt,
+    dataKeyIv: wrapped?.iv,
+    dataKeyIterations: wrapped?.iterations
+  }
+}
+
 const PinContext = createContext<PinContextValue | null>(null)
 
 export function usePinContext() {
@@ -70,8 +81,9 @@ export function PinProvider({ children }: PinProviderProps) {
     const timeoutMinutes = settings.lockTimeoutMinutes || 5
     const cleanup = sessionUtils.initActivityTracking(timeoutMinutes, handleAutoLock)
     
-    // Check if session should be locked on startup
-    if (sessionUtils.shouldLock(timeoutMinutes) || sessionUtils.isLocked()) {
+    // Check if session should be locked on startup. The data key only lives in
+    // memory, so a fresh page load always needs the PIN to read entries.
+    if (sessionUtils.shouldLock(timeoutMinutes) || sessionUtils.isLocked() || !sessionUtils.hasDataKey()) {
       setIsLocked(true)
     }
 
@@ -141,17 +153,18 @@ export function PinProvider({ children }: PinProviderProps) {
       }
 
       const hashData = await cryptoUtils.hashPin(pin)
+      const dataKey = await cryptoUtils.generateDataKey()
+      const wrapped = await cryptoUtils.wrapDataKey(dataKey, pin)
       
-      const updatedSettings = {
-        ...settings,
+      // Encrypt existing plaintext entries and store the wrapped key together
+      const updatedSettings = await dbUtils.migrateEntryEncryption(null, dataKey, {
         pinHash: hashData.hash,
         pinSalt: hashData.salt,
         pinIterations: hashData.iterations,
-        lockTimeoutMinutes: settings?.lockTimeoutMinutes || 5
-      }
-
-      await db.settings.put(updatedSettings as any)
-      setSettings(updatedSettings as any)
+        ...wrappedKeySettings(wrapped)
+      })
+      setSettings(updatedSettings)
+      sessionUtils.setDataKey(dataKey)
       
       // Clear any existing session locks
       sessionUtils.unlockSession()
@@ -164,6 +177,25 @@ export function PinProvider({ children }: PinProviderProps) {
     }
   }
 
+  // Unwrap the entry data key. PINs created before encryption existed have no
+  // wrapped key yet, so one is created and existing entries are encrypted.
+  const loadDataKey = async (pin: string): Promise<CryptoKey> => {
+    if (settings?.dataKeyWrapped && settings.dataKeySalt && settings.dataKeyIv && settings.dataKeyIterations) {
+      return cryptoUtils.unwrapDataKey(pin, {
+        wrappedKey: settings.dataKeyWrapped,
+        salt: settings.dataKeySalt,
+        iv: settings.dataKeyIv,
+        iterations: settings.dataKeyIterations
+      })
+    }
+
+    const dataKey = await cryptoUtils.generateDataKey()
+    const wrapped = await cryptoUtils.wrapDataKey(dataKey, pin)
+    const updatedSettings = await dbUtils.migrateEntryEncryption(null, dataKey, wrappedKeySettings(wrapped))
+    setSettings(updatedSettings)
+    return dataKey
+  }
+
   const verifyPin = async (pin: string): Promise<{ success: boolean; error?: string }> => {
     try {
       if (isTemporaryLocked) {
@@ -188,6 +220,7 @@ export function PinProvider({ children }: PinProviderProps) {
 
       if (isValid) {
         // Successful verification
+        sessionUtils.setDataKey(await loadDataKey(pin))
         localStorage.removeItem('nvj_pinAttempts')
         localStorage.removeItem('nvj_pinLockoutEnd')
         setAttemptCount(0)
@@ -228,22 +261,21 @@ export function PinProvider({ children }: PinProviderProps) {
 
   const disablePin = async (currentPin: string): Promise<{ success: boolean; error?: string }> => {
     try {
-      // Verify current PIN first
+      // Verify current PIN first (this also unlocks the data key)
       const verifyResult = await verifyPin(currentPin)
       if (!verifyResult.success) {
         return verifyResult
       }
 
-      // Remove PIN data from settings
-      const updatedSettings = {
-        ...settings,
+      // Remove PIN data from settings. Without a PIN there is nothing to
+      // derive a key from, so entries go back to plaintext.
+      const updatedSettings = await dbUtils.migrateEntryEncryption(sessionUtils.getDataKey(), null, {
         pinHash: undefined,
         pinSalt: undefined,
-        pinIterations: undefined
-      }
-
-      await db.settings.put(updatedSettings as any)
-      setSettings(updatedSettings as any)
+        pinIterations: undefined,
+        ...wrappedKeySettings(null)
+      })
+      setSettings(updatedSettings)
       
       // Clear all PIN-related data
       sessionUtils.clearPinData()
@@ -259,6 +291,40 @@ export function PinProvider({ children }: PinProviderProps) {
     }
   }
 
+  const changePin = async (currentPin: string, newPin: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+      if (!cryptoUtils.isValidPin(newPin)) {
+        return { success: false, error: 'PIN must be exactly 4 digits' }
+      }
+
+      const verifyResult = await verifyPin(currentPin)
+      if (!verifyResult.success) {
+        return verifyResult
+      }
+
+      const dataKey = sessionUtils.getDataKey()
+      if (!dataKey) {
+        return { success: false, error: 'Encryption key unavailable. Please unlock and try again.' }
+      }
+
+      // Entries stay encrypted with the same data key; only its wrapping changes
+      const hashData = await cryptoUtils.hashPin(newPin)
+      const wrapped = await cryptoUtils.wrapDataKey(dataKey, newPin)
+      const updatedSettings = await dbUtils.mergeSettings({
+        pinHash: hashData.hash,
+        pinSalt: hashData.salt,
+        pinIterations: hashData.iterations,
+        ...wrappedKeySettings(wrapped)
+      })
+      setSettings(updatedSettings)
+
+      return { success: true }
+    } catch (error) {
+      console.error('Failed to change PIN:', error)
+      return { success: false, error: 'Failed to change PIN. Please try again.' }
+    }
+  }
+
   const lock = () => {
     sessionUtils.lockSession()
     setIsLocked(true)
@@ -271,13 +337,8 @@ export function PinProvider({ children }: PinProviderProps) {
 
   const updateLockTimeout = async (minutes: number) => {
     try {
-      const updatedSettings = {
-        ...settings,
-        lockTimeoutMinutes: minutes
-      }
-
-      await db.settings.put(updatedSettings as any)
-      setSettings(updatedSettings as any)
+      const updatedSettings = await dbUtils.mergeSettings({ lockTimeoutMinutes: minutes })
+      setSettings(updatedSettings)
     } catch (error) {
       console.error('Failed to update lock timeout:', error)
       throw new Error('Failed to update settings')
@@ -286,13 +347,10 @@ export function PinProvider({ children }: PinProviderProps) {
 
   const resetWithWipe = async (): Promise<{ success: boolean; error?: string }> => {
     try {
+      sessionUtils.clearDataKey()
+
       // Clear all data from IndexedDB
-      await db.transaction('rw', db.settings, db.prompts, db.entries, db.streakSummary, async () => {
-        await db.settings.clear()
-        await db.prompts.clear()
-        await db.entries.clear()
-        await db.streakSummary.clear()
-      })
+      await dbUtils.wipeAllData()
 
       // Clear localStorage
       if (typeof window !== 'undefined' && window.localStorage) {
@@ -338,6 +396,7 @@ export function PinProvider({ children }: PinProviderProps) {
     setupPin,
     verifyPin,
     disablePin,
+    changePin,
     lock,
     unlock,
     lockTimeoutMinutes: settings?.lockTimeoutMinutes || 5,
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { compareAnswers, isStepChanged, summarizePromptHistory } from './prompt-history';
+import type { Entry } from './database';
+
+const answer = (dateLocal: string, setback: string, protective_step: string, gratitude: string): Entry => ({
+  id: `entry-${dateLocal}`,
+  dateLocal,
+  prompt_id: 'seed-1',
+  setback,
+  protective_step,
+  gratitude,
+  created_at: `${dateLocal}T20:00:00.000Z`,
+});
+
+// 29, 24 and 43 characters long
+const answers = [
+  answer('2024-01-10', 'Late', 'Call mom', 'Family and coffee'),
+  answer('2024-02-10', 'Late', 'Call mom today', 'Coffee'),
+  answer('2024-03-10', 'Late again', 'Go for a run', 'Sunshine, family, dog'),
+];
+
+describe('isStepChanged', () => {
+  it('treats steps sharing at least half their words as the same', () => {
+    expect(isStepChanged('Call mom', 'call Mom today')).toBe(false);
+    expect(isStepChanged('Call mom', 'Call mom, dad today')).toBe(false);
+    expect(isStepChanged('Call mom', 'Call dad')).toBe(true);
+    expect(isStepChanged('Call mom', 'Go for a run')).toBe(true);
+  });
+
+  it('treats two empty steps as unchanged', () => {
+    expect(isStepChanged('', '')).toBe(false);
+    expect(isStepChanged('', 'Call mom')).toBe(true);
+  });
+});
+
+describe('compareAnswers', () => {
+  it('compares field lengths and gratitude subjects', () => {
+    expect(compareAnswers(answers[0], answers[2])).toEqual({
+      lengthChange: { setback: 6, protective_step: 4, gratitude: 4 },
+      newSubjects: ['sunshine', 'dog'],
+      repeatedSubjects: ['family'],
+      droppedSubjects: ['coffee'],
+      stepChanged: true,
+    });
+  });
+});
+
+describe('summarizePromptHistory', () => {
+  it('tracks change across consecutive answers', () => {
+    expect(summarizePromptHistory(answers)).toEqual({
+      answerCount: 3,
+      firstDate: '2024-01-10',
+      lastDate: '2024-03-10',
+      averageLength: 32,
+      lengthChange: 14,
+      stepChanges: 1,
+      stepChangeRate: 50,
+      newSubjectCount: 2,
+      repeatedSubjectCount: 2,
+    });
+  });
+
+  it('has nothing to compare for a single answer', () => {
+    const summary = summarizePromptHistory([answers[0]]);
+
+    expect(summary.lengthChange).toBe(0);
+    expect(summary.stepChangeRate).toBe(0);
+    expect(summary.newSubjectCount).toBe(0);
+  });
+
+  it('handles a prompt with no answers', () => {
+    expect(summarizePromptHistory([])).toMatchObject({ answerCount: 0, firstDate: null, lastDate: null, averageLength: 0 });
+  });
+});
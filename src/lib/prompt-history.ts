@@ -0,0 +1,93 @@
+import type { Entry } from './database';
+import { tokenize } from './search';
+import { INSIGHT_FIELDS, InsightField } from './insights';
+
+// Protective steps sharing less than half their words count as different
+const STEP_SIMILARITY_THRESHOLD = 0.5;
+
+export interface AnswerComparison {
+  lengthChange: Record<InsightField, number>; // characters, later minus earlier
+  newSubjects: string[]; // gratitude words in the later answer only
+  repeatedSubjects: string[]; // gratitude words in both answers
+  droppedSubjects: string[]; // gratitude words in the earlier answer only
+  stepChanged: boolean;
+}
+
+export interface PromptHistorySummary {
+  answerCount: number;
+  firstDate: string | null;
+  lastDate: string | null;
+  averageLength: number;
+  lengthChange: number; // characters, latest answer minus first
+  stepChanges: number; // consecutive answers whose protective step differs
+  stepChangeRate: number; // percent of consecutive pairs
+  newSubjectCount: number; // gratitude words never used in an earlier answer
+  repeatedSubjectCount: number; // gratitude words used in an earlier answer
+}
+
+const entryLength = (entry: Entry) => INSIGHT_FIELDS.reduce((sum, { key }) => sum + entry[key].length, 0);
+
+// Jaccard similarity of the two texts' word sets
+function wordSimilarity(a: string, b: string): number {
+  const wordsA = new Set(tokenize(a));
+  const wordsB = new Set(tokenize(b));
+  if (wordsA.size === 0 && wordsB.size === 0) return 1;
+
+  let shared = 0;
+  wordsA.forEach(word => { if (wordsB.has(word)) shared++; });
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+export function isStepChanged(before: string, after: string): boolean {
+  return wordSimilarity(before, after) < STEP_SIMILARITY_THRESHOLD;
+}
+
+// Compare two answers to the same prompt, `earlier` first
+export function compareAnswers(earlier: Entry, later: Entry): AnswerComparison {
+  const before = new Set(tokenize(earlier.gratitude));
+  const after = new Set(tokenize(later.gratitude));
+
+  return {
+    lengthChange: {
+      setback: later.setback.length - earlier.setback.length,
+      protective_step: later.protective_step.length - earlier.protective_step.length,
+      gratitude: later.gratitude.length - earlier.gratitude.length,
+    },
+    newSubjects: Array.from(after).filter(word => !before.has(word)),
+    repeatedSubjects: Array.from(after).filter(word => before.has(word)),
+    droppedSubjects: Array.from(before).filter(word => !after.has(word)),
+    stepChanged: isStepChanged(earlier.protective_step, later.protective_step),
+  };
+}
+
+// Change metrics across every answer; `entries` must be oldest first
+export function summarizePromptHistory(entries: Entry[]): PromptHistorySummary {
+  const seenSubjects = new Set<string>();
+  let newSubjectCount = 0;
+  let repeatedSubjectCount = 0;
+  let stepChanges = 0;
+
+  entries.forEach((entry, index) => {
+    const subjects = new Set(tokenize(entry.gratitude));
+    if (index > 0) {
+      subjects.forEach(word => seenSubjects.has(word) ? repeatedSubjectCount++ : newSubjectCount++);
+      if (isStepChanged(entries[index - 1].protective_step, entry.protective_step)) stepChanges++;
+    }
+    subjects.forEach(word => seenSubjects.add(word));
+  });
+
+  const pairs = entries.length - 1;
+  const lengths = entries.map(entryLength);
+
+  return {
+    answerCount: entries.length,
+    firstDate: entries.length > 0 ? entries[0].dateLocal : null,
+    lastDate: entries.length > 0 ? entries[entries.length - 1].dateLocal : null,
+    averageLength: lengths.length > 0 ? Math.round(lengths.reduce((sum, length) => sum + length, 0) / lengths.length) : 0,
+    lengthChange: lengths.length > 1 ? lengths[lengths.length - 1] - lengths[0] : 0,
+    stepChanges,
+    stepChangeRate: pairs > 0 ? Math.round((stepChanges / pairs) * 100) : 0,
+    newSubjectCount,
+    repeatedSubjectCount,
+  };
+}
@@ -0,0 +1,271 @@
+import { db, Prompt, PromptCategory, PromptPack } from './database';
+import { promptUtils, PROMPT_CATEGORIES, MAX_PROMPT_LENGTH } from './prompts';
+
+export const PROMPT_PACK_FORMAT = 'negviz-prompt-pack';
+export const PROMPT_PACK_VERSION = 1;
+
+export interface PromptPackItem {
+  text: string;
+  gratitude_prompt?: string;
+  category?: PromptCategory;
+}
+
+// Shape of a shareable .json prompt pack
+export interface PromptPackFile {
+  format: typeof PROMPT_PACK_FORMAT;
+  version: number;
+  name: string;
+  author?: string;
+  locale?: string; // BCP 47 tag, e.g. "en-US"
+  description?: string;
+  prompts: PromptPackItem[];
+}
+
+export type PromptPackValidationResult =
+  | { valid: true; pack: PromptPackFile }
+  | { valid: false; errors: string[] };
+
+export interface PromptPackPreview {
+  name: string;
+  author?: string;
+  locale?: string;
+  promptCount: number;
+  // Prompts whose text already exists locally or earlier in the pack
+  duplicateCount: number;
+  newPromptCount: number;
+  // Set when a pack with the same name, author and locale was imported before
+  existingPack?: PromptPack;
+}
+
+export interface PromptPackImportResult {
+  pack: PromptPack;
+  addedPrompts: number;
+  skippedPrompts: number;
+}
+
+export interface PromptPackSummary extends PromptPack {
+  promptCount: number;
+}
+
+const MAX_REPORTED_ERRORS = 10;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOptionalString = (value: unknown) => value === undefined || value === null || typeof value === 'string';
+
+// Text comparison used for de-duplication
+const normalizeText = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+function validateItem(item: unknown, index: number): string[] {
+  const label = `Prompt ${index + 1}`;
+  if (!isObject(item)) return [`${label} is not an object`];
+
+  const errors: string[] = [];
+  if (typeof item.text !== 'string' || !item.text.trim()) {
+    errors.push(`${label} is missing its text`);
+  } else if (item.text.trim().length > MAX_PROMPT_LENGTH) {
+    errors.push(`${label} is longer than ${MAX_PROMPT_LENGTH} characters`);
+  }
+  if (!isOptionalString(item.gratitude_prompt)) {
+    errors.push(`${label} has an invalid gratitude_prompt`);
+  } else if ((item.gratitude_prompt?.trim().length || 0) > MAX_PROMPT_LENGTH) {
+    errors.push(`${label} has a gratitude_prompt longer than ${MAX_PROMPT_LENGTH} characters`);
+  }
+  if (item.category !== undefined && item.category !== null && !PROMPT_CATEGORIES.includes(item.category)) {
+    errors.push(`${label} has an unknown category "${item.category}"`);
+  }
+  return errors;
+}
+
+export const promptPackUtils = {
+  // Packs are identified by name, author and locale, so importing an updated
+  // copy of a pack adds to the existing one instead of creating a second pack
+  getPackId(pack: Pick<PromptPackFile, 'name' | 'author' | 'locale'>): string {
+    const identity = [pack.name, pack.author || '', pack.locale || ''].map(normalizeText).join('|');
+    return `pack-${promptUtils.hashString(identity).toString(36)}`;
+  },
+
+  // Parse the text of a pack file and validate it
+  parsePack(text: string): PromptPackValidationResult {
+    try {
+      return this.validatePack(JSON.parse(text));
+    } catch {
+      return { valid: false, errors: ['The file is not valid JSON'] };
+    }
+  },
+
+  validatePack(raw: unknown): PromptPackValidationResult {
+    if (!isObject(raw) || raw.format !== PROMPT_PACK_FORMAT) {
+      return { valid: false, errors: ['The file is not a prompt pack'] };
+    }
+
+    const errors: string[] = [];
+
+    if (typeof raw.version !== 'number' || !Number.isInteger(raw.version) || raw.version < 1) {
+      errors.push('The pack has an invalid version');
+    } else if (raw.version > PROMPT_PACK_VERSION) {
+      errors.push('The pack was made with a newer version of the app');
+    }
+    if (typeof raw.name !== 'string' || !raw.name.trim()) errors.push('The pack is missing a name');
+    if (!isOptionalString(raw.author)) errors.push('The pack has an invalid author');
+    if (!isOptionalString(raw.locale)) errors.push('The pack has an invalid locale');
+    if (!isOptionalString(raw.description)) errors.push('The pack has an invalid description');
+
+    if (!Array.isArray(raw.prompts) || raw.prompts.length === 0) {
+      errors.push('The pack has no prompts');
+    } else {
+      raw.prompts.forEach((item: unknown, index: number) => errors.push(...validateItem(item, index)));
+    }
+
+    if (errors.length > 0) {
+      const reported = errors.slice(0, MAX_REPORTED_ERRORS);
+      if (errors.length > MAX_REPORTED_ERRORS) {
+        reported.push(`...and ${errors.length - MAX_REPORTED_ERRORS} more problems`);
+      }
+      return { valid: false, errors: reported };
+    }
+
+    return { valid: true, pack: raw as unknown as PromptPackFile };
+  },
+
+  // Split a pack's prompts into new ones and duplicates of existing text
+  splitDuplicates(pack: PromptPackFile, existing: Prompt[]): { items: PromptPackItem[]; duplicateCount: number } {
+    const seen = new Set(existing.map(p => normalizeText(p.text)));
+    const items: PromptPackItem[] = [];
+
+    for (const item of pack.prompts) {
+      const key = normalizeText(item.text);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      items.push(item);
+    }
+
+    return { items, duplicateCount: pack.prompts.length - items.length };
+  },
+
+  // Dry run: describe what importing a pack would do
+  async previewPack(pack: PromptPackFile): Promise<PromptPackPreview> {
+    const [existing, existingPack] = await Promise.all([
+      db.prompts.toArray(),
+      db.promptPacks.get(this.getPackId(pack)),
+    ]);
+    const { items, duplicateCount } = this.splitDuplicates(pack, existing);
+
+    return {
+      name: pack.name.trim(),
+      author: pack.author?.trim() || undefined,
+      locale: pack.locale?.trim() || undefined,
+      promptCount: pack.prompts.length,
+      duplicateCount,
+      newPromptCount: items.length,
+      existingPack,
+    };
+  },
+
+  // Add a validated pack's new prompts to the prompts table
+  async importPack(pack: PromptPackFile): Promise<PromptPackImportResult> {
+    const packId = this.getPackId(pack);
+    const now = new Date().toISOString();
+
+    return db.transaction('rw', db.prompts, db.promptPacks, async () => {
+      const existing = await db.prompts.toArray();
+      const { items, duplicateCount } = this.splitDuplicates(pack, existing);
+      const current = await db.promptPacks.get(packId);
+
+      const packRow: PromptPack = {
+        id: packId,
+        name: pack.name.trim(),
+        author: pack.author?.trim() || undefined,
+        locale: pack.locale?.trim() || undefined,
+        version: pack.version,
+        enabled: current?.enabled ?? true,
+        imported_at: now,
+      };
+
+      const timestamp = Date.now();
+      const prompts: Prompt[] = items.map((item, index) => ({
+        id: `${packId}-${timestamp}-${index + 1}`,
+        text: item.text.trim(),
+        gratitude_prompt: item.gratitude_prompt?.trim() || undefined,
+        category: item.category || undefined,
+        archived: false,
+        source: 'pack',
+        pack_id: packId,
+        pack_disabled: !packRow.enabled,
+        created_at: now,
+      }));
+
+      await db.promptPacks.put(packRow);
+      await db.prompts.bulkAdd(prompts);
+
+      return { pack: packRow, addedPrompts: prompts.length, skippedPrompts: duplicateCount };
+    });
+  },
+
+  // Imported packs with the number of prompts each one contributed
+  async getPacks(): Promise<PromptPackSummary[]> {
+    const [packs, prompts] = await Promise.all([
+      db.promptPacks.toArray(),
+      db.prompts.where('source').equals('pack').toArray(),
+    ]);
+
+    return packs
+      .map(pack => ({ ...pack, promptCount: prompts.filter(p => p.pack_id === pack.id).length }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  },
+
+  // Turn a whole pack on or off. Prompts are kept, so entries that reference
+  // them still show their prompt text.
+  async setPackEnabled(packId: string, enabled: boolean): Promise<{ success: boolean; error?: string }> {
+    try {
+      return await db.transaction('rw', db.prompts, db.promptPacks, async () => {
+        const pack = await db.promptPacks.get(packId);
+        if (!pack) return { success: false, error: 'Prompt pack not found' };
+
+        if (!enabled) {
+          const remaining = await db.prompts
+            .filter(p => !p.archived && !p.pack_disabled && p.pack_id !== packId)
+            .count();
+          if (remaining === 0) {
+            return { success: false, error: 'Keep at least one active prompt' };
+          }
+        }
+
+        await db.promptPacks.put({ ...pack, enabled });
+        await db.prompts.where('pack_id').equals(packId).modify({ pack_disabled: !enabled });
+        return { success: true };
+      });
+    } catch (error) {
+      console.error('Failed to update prompt pack:', error);
+      return { success: false, error: 'Failed to update prompt pack. Please try again.' };
+    }
+  },
+
+  // Build a pack file from the user's own active prompts
+  async exportUserPrompts(details: Pick<PromptPackFile, 'name' | 'author' | 'locale'>): Promise<{ json: string; promptCount: number }> {
+    const prompts = (await db.prompts.where('source').equals('user').toArray())
+      .filter(p => !p.archived)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+    const pack: PromptPackFile = {
+      format: PROMPT_PACK_FORMAT,
+      version: PROMPT_PACK_VERSION,
+      name: details.name.trim(),
+      author: details.author?.trim() || undefined,
+      locale: details.locale?.trim() || undefined,
+      prompts: prompts.map(p => ({
+        text: p.text,
+        gratitude_prompt: p.gratitude_prompt,
+        category: p.category,
+      })),
+    };
+
+    return { json: JSON.stringify(pack, null, 2), promptCount: prompts.length };
+  },
+
+  generatePackFilename(name: string): string {
+    const slug = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    return `${slug || 'prompt-pack'}.negviz-pack.json`;
+  },
+};
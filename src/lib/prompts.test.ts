@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { promptUtils, type PromptPreferences } from './prompts';
+import { addDays } from './streaks';
+import type { Prompt, PromptCategory, PromptHistoryEntry } from './database';
+
+const INSTALL_DATE = '2024-01-01';
+
+const prompt = (id: string, category?: PromptCategory, overrides: Partial<Prompt> = {}): Prompt => ({
+  id,
+  text: `Prompt ${id}`,
+  archived: false,
+  created_at: '2024-01-01T00:00:00.000Z',
+  source: 'seed',
+  category,
+  ...overrides,
+});
+
+const pool = [
+  prompt('a', 'health'),
+  prompt('b', 'health'),
+  prompt('c', 'work'),
+  prompt('d', 'work'),
+  prompt('e', 'growth'),
+];
+
+// Serve one prompt a day for `count` days, recording each in the history
+function serveDays(count: number, prompts: Prompt[], preferences: PromptPreferences = {}, history: PromptHistoryEntry[] = []) {
+  const served = [...history];
+  for (let i = 0; i < count; i++) {
+    const { prompt: next, cycle } = promptUtils.getNextPrompt(INSTALL_DATE, prompts, served, preferences);
+    const dateLocal = addDays(INSTALL_DATE, served.length);
+    served.push({ dateLocal, prompt_id: next.id, cycle, served_at: `${dateLocal}T08:00:00.000Z` });
+  }
+  return served;
+}
+
+describe('getCycleOrder', () => {
+  it('returns the same order for the same install date and cycle', () => {
+    const first = promptUtils.getCycleOrder(INSTALL_DATE, 3, pool).map(p => p.id);
+    const second = promptUtils.getCycleOrder(INSTALL_DATE, 3, [...pool].reverse()).map(p => p.id);
+
+    expect(second).toEqual(first);
+  });
+
+  it('contains each prompt once by default', () => {
+    const order = promptUtils.getCycleOrder(INSTALL_DATE, 0, pool).map(p => p.id);
+    expect([...order].sort()).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+
+  it('repeats a prompt as many times as its copies', () => {
+    const order = promptUtils.getCycleOrder(INSTALL_DATE, 0, pool, p => (p.id === 'a' ? 3 : 1));
+
+    expect(order).toHaveLength(7);
+    expect(order.filter(p => p.id === 'a')).toHaveLength(3);
+  });
+
+  it('shuffles differently across cycles', () => {
+    const orders = new Set(
+      [0, 1, 2, 3, 4].map(cycle => promptUtils.getCycleOrder(INSTALL_DATE, cycle, pool).map(p => p.id).join())
+    );
+    expect(orders.size).toBeGreaterThan(1);
+  });
+});
+
+describe('getNextPrompt', () => {
+  it('throws when no prompt is active', () => {
+    expect(() => promptUtils.getNextPrompt(INSTALL_DATE, [prompt('a', 'health', { archived: true })], []))
+      .toThrow('No active prompts available');
+  });
+
+  it('serves every active prompt once per cycle', () => {
+    const history = serveDays(10, pool);
+
+    expect(history.slice(0, 5).every(h => h.cycle === 0)).toBe(true);
+    expect(history.slice(5).every(h => h.cycle === 1)).toBe(true);
+    expect(history.slice(0, 5).map(h => h.prompt_id).sort()).toEqual(['a', 'b', 'c', 'd', 'e']);
+    expect(history.slice(5).map(h => h.prompt_id).sort()).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+
+  it('skips archived prompts and prompts from disabled packs', () => {
+    const prompts = [...pool, prompt('f', 'work', { archived: true }), prompt('g', 'work', { pack_disabled: true })];
+    const served = serveDays(10, prompts).map(h => h.prompt_id);
+
+    expect(served).not.toContain('f');
+    expect(served).not.toContain('g');
+  });
+
+  it('never serves the same prompt two days in a row', () => {
+    const served = serveDays(30, pool).map(h => h.prompt_id);
+    served.slice(1).forEach((id, i) => expect(id).not.toBe(served[i]));
+  });
+
+  it('serves weighted categories more often and leaves out excluded ones', () => {
+    const preferences = { weights: { health: 2, growth: 0 } };
+    const cycle = serveDays(6, pool, preferences);
+    const served = cycle.map(h => h.prompt_id);
+
+    expect(cycle.every(h => h.cycle === 0)).toBe(true);
+    expect(served.filter(id => id === 'a')).toHaveLength(2);
+    expect(served.filter(id => id === 'b')).toHaveLength(2);
+    expect(served).not.toContain('e');
+  });
+
+  it('falls back to every prompt when all categories are excluded', () => {
+    const preferences = { weights: { health: 0, work: 0, growth: 0 } };
+    const served = serveDays(5, pool, preferences).map(h => h.prompt_id);
+
+    expect([...served].sort()).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+
+  it('serves the focus category, least recently served first', () => {
+    const history = serveDays(5, pool);
+    const focused = serveDays(4, pool, { focus: 'work' }, history).slice(5);
+    const lastWork = history.filter(h => h.prompt_id === 'c' || h.prompt_id === 'd').map(h => h.prompt_id);
+
+    expect(focused.map(h => h.prompt_id)).toEqual([...lastWork, ...lastWork]);
+  });
+
+  it('ignores a focus category with no active prompts', () => {
+    const served = serveDays(5, pool, { focus: 'finances' }).map(h => h.prompt_id);
+    expect([...served].sort()).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+});
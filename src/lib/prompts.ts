@@ -1,77 +1,229 @@
-import { Prompt } from './database';
+import { Prompt, PromptCategory, PromptHistoryEntry, Settings } from './database';
 
 // Seeded prompts for the negative visualization practice
 export const SEED_PROMPTS: Omit<Prompt, 'id' | 'created_at' | 'archived' | 'source'>[] = [
   {
     text: "Imagine losing your current home or living situation",
     gratitude_prompt: "What aspects of your current living situation do you appreciate most?",
+    category: 'environment',
   },
   {
     text: "Consider if you lost your ability to communicate with loved ones",
     gratitude_prompt: "Who in your life are you most grateful to be able to connect with?",
+    category: 'relationships',
   },
   {
     text: "Visualize losing your current health and mobility",
     gratitude_prompt: "What physical abilities or aspects of your health do you value most?",
+    category: 'health',
   },
   {
     text: "Imagine your primary source of income disappearing",
     gratitude_prompt: "What opportunities or resources do you currently have that support you?",
+    category: 'finances',
   },
   {
     text: "Consider losing access to the internet and digital connections",
     gratitude_prompt: "What digital tools or online communities add value to your life?",
+    category: 'environment',
   },
   {
     text: "Visualize losing your independence and needing constant care",
     gratitude_prompt: "What aspects of your independence and autonomy do you cherish?",
+    category: 'health',
   },
   {
     text: "Imagine being unable to pursue your hobbies or interests",
     gratitude_prompt: "What activities or interests bring you the most joy and fulfillment?",
+    category: 'growth',
   },
   {
     text: "Consider losing your ability to learn new things",
     gratitude_prompt: "What recent learning or growth experiences have you valued?",
+    category: 'growth',
   },
   {
     text: "Visualize losing access to nature and the outdoors",
     gratitude_prompt: "What aspects of the natural world do you find most meaningful?",
+    category: 'environment',
   },
   {
     text: "Imagine being unable to help or support others",
     gratitude_prompt: "How has being able to contribute to others' lives enriched your own?",
+    category: 'relationships',
   }
 ];
 
+export const PROMPT_CATEGORIES: PromptCategory[] = ['health', 'relationships', 'finances', 'work', 'environment', 'growth'];
+
+export const CATEGORY_LABELS: Record<PromptCategory, string> = {
+  health: 'Health',
+  relationships: 'Relationships',
+  finances: 'Finances',
+  work: 'Work',
+  environment: 'Environment',
+  growth: 'Growth',
+};
+
+export const MAX_PROMPT_LENGTH = 280;
+
+export type PromptInput = Pick<Prompt, 'text' | 'gratitude_prompt' | 'category'>;
+
+// Category preferences that shape prompt selection
+export interface PromptPreferences {
+  weights?: Settings['promptCategoryWeights'];
+  focus?: PromptCategory;
+}
+
 // Utility functions for prompt management
 export const promptUtils = {
-  // Generate a deterministic pseudo-random prompt for today
-  getTodayPrompt(installDate: string, prompts: Prompt[]): Prompt {
-    const seedPrompts = prompts.filter(p => p.source === 'seed' && !p.archived);
-    if (seedPrompts.length === 0) {
-      throw new Error('No seed prompts available');
+  // Prompts that aren't archived or part of a disabled pack, in a stable order
+  getActivePrompts(prompts: Prompt[]): Prompt[] {
+    return prompts
+      .filter(p => !p.archived && !p.pack_disabled)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id));
+  },
+
+  // Shuffle-bag selection: every active prompt is served once per cycle (or
+  // `weight` times for weighted categories), in an order seeded from the
+  // install date and cycle number. The history decides what has been served,
+  // so adding or archiving prompts only affects what is left in the current
+  // cycle. A weekly focus serves the focus category's prompts instead, least
+  // recently served first.
+  getNextPrompt(
+    installDate: string,
+    prompts: Prompt[],
+    history: PromptHistoryEntry[],
+    preferences: PromptPreferences = {}
+  ): { prompt: Prompt; cycle: number } {
+    const activePrompts = this.getActivePrompts(prompts);
+    if (activePrompts.length === 0) {
+      throw new Error('No active prompts available');
     }
 
-    // Use install date + current date as seed for deterministic selection
-    const today = new Date();
-    const daysSinceInstall = Math.floor((today.getTime() - new Date(installDate).getTime()) / (1000 * 60 * 60 * 24));
-    
-    // Simple pseudo-random selection based on days since install
-    const index = this.pseudoRandom(daysSinceInstall) % seedPrompts.length;
-    return seedPrompts[index];
+    const weightOf = (p: Prompt) => p.category ? (preferences.weights?.[p.category] ?? 1) : 1;
+    const weighted = activePrompts.filter(p => weightOf(p) > 0);
+    // Excluding every category falls back to the whole pool
+    const pool = weighted.length > 0 ? weighted : activePrompts;
+
+    const sortedHistory = [...history].sort((a, b) => a.dateLocal.localeCompare(b.dateLocal));
+    const latest = sortedHistory[sortedHistory.length - 1];
+    let cycle = latest?.cycle ?? 0;
+
+    const focusPool = activePrompts.filter(p => preferences.focus && p.category === preferences.focus);
+    if (focusPool.length > 0) {
+      const lastServed = new Map(sortedHistory.map(h => [h.prompt_id, h.dateLocal]));
+      const candidates = this.getCycleOrder(installDate, cycle, focusPool)
+        .filter(p => focusPool.length === 1 || p.id !== latest?.prompt_id);
+      const prompt = candidates.reduce((best, p) =>
+        (lastServed.get(p.id) || '') < (lastServed.get(best.id) || '') ? p : best
+      );
+      return { prompt, cycle };
+    }
+
+    const served = new Map<string, number>();
+    history
+      .filter(h => h.cycle === cycle)
+      .forEach(h => served.set(h.prompt_id, (served.get(h.prompt_id) || 0) + 1));
+
+    let remaining = this.getRemainingInCycle(this.getCycleOrder(installDate, cycle, pool, weightOf), served);
+    if (remaining.length === 0) {
+      cycle += 1;
+      remaining = this.getCycleOrder(installDate, cycle, pool, weightOf);
+    }
+
+    // Don't serve the same prompt twice in a row
+    const prompt = remaining.find(p => p.id !== latest?.prompt_id) || remaining[0];
+    return { prompt, cycle };
+  },
+
+  // Drop the prompts already served this cycle from a cycle order
+  getRemainingInCycle(order: Prompt[], served: Map<string, number>): Prompt[] {
+    const counts = new Map(served);
+    return order.filter(p => {
+      const count = counts.get(p.id) || 0;
+      if (count === 0) return true;
+      counts.set(p.id, count - 1);
+      return false;
+    });
+  },
+
+  // Deterministic order of the active prompts for one cycle. A prompt appears
+  // `copies(prompt)` times in the bag.
+  getCycleOrder(
+    installDate: string,
+    cycle: number,
+    activePrompts: Prompt[],
+    copies: (prompt: Prompt) => number = () => 1
+  ): Prompt[] {
+    const random = this.seededRandom(this.hashString(`${installDate}:${cycle}`));
+    const order = [...activePrompts]
+      .sort((a, b) => a.id.localeCompare(b.id))
+      .flatMap(p => Array<Prompt>(Math.max(1, copies(p))).fill(p));
+
+    // Fisher-Yates shuffle
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+    return order;
+  },
+
+  // FNV-1a hash, used to turn the install date into a shuffle seed
+  hashString(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  },
+
+  // Mulberry32 generator returning floats in [0, 1)
+  seededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  },
+
+  // Today's scheduled prompt. The first call of the day picks it and records it
+  // in promptHistory, so reloads and later pool changes keep the same prompt.
+  async getScheduledPrompt(installDate: string): Promise<Prompt> {
+    const { db } = await import('./database');
+    const todayString = this.getTodayString();
+
+    return db.transaction('rw', db.prompts, db.promptHistory, db.settings, async () => {
+      const allPrompts = await db.prompts.toArray();
+      const recorded = await db.promptHistory.get(todayString);
+      const recordedPrompt = recorded && allPrompts.find(p => p.id === recorded.prompt_id);
+      if (recordedPrompt) return recordedPrompt;
+
+      const history = await db.promptHistory.where('dateLocal').below(todayString).toArray();
+      const settings = await db.settings.get('main');
+      const { prompt, cycle } = this.getNextPrompt(installDate, allPrompts, history, this.getPromptPreferences(settings));
+      await db.promptHistory.put({
+        dateLocal: todayString,
+        prompt_id: prompt.id,
+        cycle,
+        served_at: new Date().toISOString(),
+      });
+      return prompt;
+    });
   },
 
   // Get a different prompt for swap (avoiding recent prompts)
   getSwapPrompt(currentPromptId: string, lastPromptId: string | undefined, prompts: Prompt[]): Prompt {
-    const seedPrompts = prompts.filter(p => 
-      p.source === 'seed' && 
-      !p.archived && 
+    const candidates = this.getActivePrompts(prompts).filter(p => 
       p.id !== currentPromptId &&
       p.id !== lastPromptId
     );
 
-    if (seedPrompts.length === 0) {
+    if (candidates.length === 0) {
       // If no alternatives available, return current prompt (no swap possible)
       const current = prompts.find(p => p.id === currentPromptId);
       if (!current) throw new Error('Current prompt not found');
@@ -79,8 +231,8 @@ export const promptUtils = {
     }
 
     // Random selection from available alternatives
-    const randomIndex = Math.floor(Math.random() * seedPrompts.length);
-    return seedPrompts[randomIndex];
+    const randomIndex = Math.floor(Math.random() * candidates.length);
+    return candidates[randomIndex];
   },
 
   // Simple linear congruential generator for pseudo-random numbers
@@ -125,12 +277,24 @@ export const promptUtils = {
         return { success: false, error: 'You can only swap once per day. Try again tomorrow.' };
       }
 
-      // Get all prompts
+      // Get today's scheduled prompt and all prompts
+      const currentPrompt = await this.getScheduledPrompt(installDate);
       const allPrompts = await db.prompts.toArray();
-      const currentPrompt = this.getTodayPrompt(installDate, allPrompts);
-      
+      const todayString = this.getTodayString();
+
+      // Prefer prompts that haven't been served yet in this cycle
+      const history = await db.promptHistory.toArray();
+      const todayRecord = history.find(h => h.dateLocal === todayString);
+      const servedThisCycle = new Set(history
+        .filter(h => h.cycle === todayRecord?.cycle && h.dateLocal !== todayString)
+        .map(h => h.prompt_id));
+      const unserved = allPrompts.filter(p => !servedThisCycle.has(p.id));
+
       // Get a different prompt for swap
-      const newPrompt = this.getSwapPrompt(currentPrompt.id, settings.lastPromptId, allPrompts);
+      let newPrompt = this.getSwapPrompt(currentPrompt.id, settings.lastPromptId, unserved);
+      if (newPrompt.id === currentPrompt.id) {
+        newPrompt = this.getSwapPrompt(currentPrompt.id, settings.lastPromptId, allPrompts);
+      }
       
       // If no different prompt available
       if (newPrompt.id === currentPrompt.id) {
@@ -138,12 +302,20 @@ export const promptUtils = {
       }
 
       // Update settings to mark swap as used today and update last prompt
-      const todayString = this.getTodayString();
-      await db.settings.put({
-        ...settings,
-        swapUsedDate: todayString,
-        lastPromptDate: todayString,
-        lastPromptId: newPrompt.id
+      await db.transaction('rw', db.settings, db.promptHistory, async () => {
+        await db.settings.put({
+          ...settings,
+          swapUsedDate: todayString,
+          lastPromptDate: todayString,
+          lastPromptId: newPrompt.id
+        });
+        if (todayRecord) {
+          await db.promptHistory.put({
+            ...todayRecord,
+            prompt_id: newPrompt.id,
+            swapped_from: todayRecord.swapped_from || currentPrompt.id,
+          });
+        }
       });
 
       return { success: true, newPrompt };
@@ -171,9 +343,8 @@ export const promptUtils = {
         }
       }
       
-      // Otherwise return the default prompt for today
-      const allPrompts = await db.prompts.toArray();
-      return this.getTodayPrompt(installDate, allPrompts);
+      // Otherwise return the scheduled prompt for today
+      return await this.getScheduledPrompt(installDate);
     } catch (error) {
       console.error('Failed to get current prompt from database:', error);
       
@@ -182,6 +353,25 @@ export const promptUtils = {
     }
   },
 
+  // Prompt for a new entry. Each entry on a day gets its own prompt: today's
+  // prompt until an entry uses it, then the next unused prompt in the
+  // current cycle's order.
+  async getPromptForNewEntry(installDate: string, usedPromptIds: string[]): Promise<Prompt> {
+    const currentPrompt = await this.getCurrentPrompt(installDate);
+    if (!usedPromptIds.includes(currentPrompt.id)) return currentPrompt;
+
+    try {
+      const { db } = await import('./database');
+      const allPrompts = await db.prompts.toArray();
+      const todayRecord = await db.promptHistory.get(this.getTodayString());
+      const order = this.getCycleOrder(installDate, todayRecord?.cycle ?? 0, this.getActivePrompts(allPrompts));
+      return order.find(p => !usedPromptIds.includes(p.id)) || currentPrompt;
+    } catch (error) {
+      console.error('Failed to pick a prompt for a new entry:', error);
+      return currentPrompt;
+    }
+  },
+
   // Fallback prompt when database is unavailable
   getFallbackPrompt(installDate: string): Prompt {
     try {
@@ -195,6 +385,7 @@ export const promptUtils = {
         id: `seed-${index + 1}`,
         text: selectedSeed.text,
         gratitude_prompt: selectedSeed.gratitude_prompt,
+        category: selectedSeed.category,
         archived: false,
         source: 'seed',
         created_at: new Date().toISOString(),
@@ -237,6 +428,140 @@ export const promptUtils = {
     }
   },
 
+  // Monday of the week containing a YYYY-MM-DD date
+  getWeekStart(dateString: string): string {
+    const date = new Date(dateString + 'T00:00:00');
+    date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+    return date.getFullYear() + '-' + 
+           String(date.getMonth() + 1).padStart(2, '0') + '-' + 
+           String(date.getDate()).padStart(2, '0');
+  },
+
+  // The focus category, if one was chosen for the current week
+  getActiveFocus(settings: Settings | null | undefined): PromptCategory | undefined {
+    const focus = settings?.promptFocus;
+    if (!focus) return undefined;
+    return focus.weekStart === this.getWeekStart(this.getTodayString()) ? focus.category : undefined;
+  },
+
+  getPromptPreferences(settings: Settings | null | undefined): PromptPreferences {
+    return {
+      weights: settings?.promptCategoryWeights,
+      focus: this.getActiveFocus(settings),
+    };
+  },
+
+  // Check the text of a prompt before saving it
+  validatePromptInput(input: PromptInput): string | null {
+    const text = input.text.trim();
+    if (!text) return 'Prompt text is required';
+    if (text.length > MAX_PROMPT_LENGTH) return `Prompts can be at most ${MAX_PROMPT_LENGTH} characters`;
+    if ((input.gratitude_prompt?.trim().length || 0) > MAX_PROMPT_LENGTH) {
+      return `Gratitude prompts can be at most ${MAX_PROMPT_LENGTH} characters`;
+    }
+    return null;
+  },
+
+  // Add a user-authored prompt to the active pool
+  async createPrompt(input: PromptInput): Promise<{ success: boolean; prompt?: Prompt; error?: string }> {
+    const error = this.validatePromptInput(input);
+    if (error) return { success: false, error };
+
+    try {
+      const { db } = await import('./database');
+      const prompt: Prompt = {
+        id: `user-${Date.now()}`,
+        text: input.text.trim(),
+        gratitude_prompt: input.gratitude_prompt?.trim() || undefined,
+        category: input.category,
+        archived: false,
+        source: 'user',
+        created_at: new Date().toISOString(),
+      };
+
+      await db.prompts.add(prompt);
+      return { success: true, prompt };
+    } catch (error) {
+      console.error('Failed to create prompt:', error);
+      return { success: false, error: 'Failed to save prompt. Please try again.' };
+    }
+  },
+
+  // Edit the text of a user prompt. Seed and pack prompts can only be archived.
+  async updatePrompt(id: string, input: PromptInput): Promise<{ success: boolean; prompt?: Prompt; error?: string }> {
+    const error = this.validatePromptInput(input);
+    if (error) return { success: false, error };
+
+    try {
+      const { db, dbUtils } = await import('./database');
+      const existing = await db.prompts.get(id);
+      if (!existing) return { success: false, error: 'Prompt not found' };
+      if (existing.source !== 'user') return { success: false, error: 'Built-in and pack prompts can\'t be edited' };
+
+      const prompt: Prompt = {
+        ...existing,
+        text: input.text.trim(),
+        gratitude_prompt: input.gratitude_prompt?.trim() || undefined,
+        category: input.category,
+      };
+
+      await db.prompts.put(prompt);
+      // Entries are searchable by their prompt text
+      if (prompt.text !== existing.text) await dbUtils.reindexEntriesForPrompt(id);
+      return { success: true, prompt };
+    } catch (error) {
+      console.error('Failed to update prompt:', error);
+      return { success: false, error: 'Failed to save prompt. Please try again.' };
+    }
+  },
+
+  // Archive or restore any prompt. The active pool always keeps at least one prompt.
+  async setPromptArchived(id: string, archived: boolean): Promise<{ success: boolean; prompt?: Prompt; error?: string }> {
+    try {
+      const { db } = await import('./database');
+      const existing = await db.prompts.get(id);
+      if (!existing) return { success: false, error: 'Prompt not found' };
+
+      if (archived && !existing.archived) {
+        const activeCount = await db.prompts.filter(p => !p.archived && !p.pack_disabled).count();
+        if (activeCount <= 1) {
+          return { success: false, error: 'Keep at least one active prompt' };
+        }
+      }
+
+      const prompt: Prompt = { ...existing, archived };
+      await db.prompts.put(prompt);
+      return { success: true, prompt };
+    } catch (error) {
+      console.error('Failed to archive prompt:', error);
+      return { success: false, error: 'Failed to update prompt. Please try again.' };
+    }
+  },
+
+  // Permanently remove a user prompt. Prompts that entries were written for are
+  // archived instead so past entries keep their prompt text.
+  async deletePrompt(id: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { db } = await import('./database');
+      const existing = await db.prompts.get(id);
+      if (!existing) return { success: false, error: 'Prompt not found' };
+      if (existing.source !== 'user') return { success: false, error: 'Built-in and pack prompts can only be archived' };
+
+      if ((await db.entries.where('prompt_id').equals(id).count()) > 0) {
+        return { success: false, error: 'This prompt has journal entries. Archive it instead.' };
+      }
+      if (!existing.archived && (await db.prompts.filter(p => !p.archived && !p.pack_disabled).count()) <= 1) {
+        return { success: false, error: 'Keep at least one active prompt' };
+      }
+
+      await db.prompts.delete(id);
+      return { success: true };
+    } catch (error) {
+      console.error('Failed to delete prompt:', error);
+      return { success: false, error: 'Failed to delete prompt. Please try again.' };
+    }
+  },
+
   // Initialize seed prompts in database
   async initializeSeedPrompts(): Promise<void> {
     const { db } = await import('./database');
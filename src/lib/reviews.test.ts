@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { buildReviewDigest, getRecurringWords, getReviewRange, reviewId, shiftReviewRange } from './reviews';
+import type { ActionItem, Entry, Prompt } from './database';
+
+const entry = (id: string, dateLocal: string, overrides: Partial<Entry> = {}): Entry => ({
+  id,
+  dateLocal,
+  prompt_id: 'seed-1',
+  setback: '',
+  protective_step: '',
+  gratitude: '',
+  created_at: new Date(dateLocal + 'T20:00:00').toISOString(),
+  ...overrides,
+});
+
+const prompt = (id: string, category?: Prompt['category']): Prompt => ({
+  id,
+  text: id,
+  category,
+  archived: false,
+  created_at: '2024-01-01T00:00:00.000Z',
+  source: 'seed',
+});
+
+// Completion times are local noon, so the day doesn't depend on the time zone
+const action = (entry_id: string, status: ActionItem['status'], completedOn?: string): ActionItem => ({
+  id: `action-${entry_id}`,
+  entry_id,
+  status,
+  remind: false,
+  created_at: '2024-03-01T20:00:00.000Z',
+  updated_at: '2024-03-01T20:00:00.000Z',
+  completed_at: completedOn && new Date(completedOn + 'T12:00:00').toISOString(),
+});
+
+describe('getReviewRange', () => {
+  it('runs weeks from Monday to Sunday', () => {
+    expect(getReviewRange('week', '2024-03-10')).toEqual({ period: 'week', start: '2024-03-04', end: '2024-03-10' });
+    expect(getReviewRange('week', '2024-03-04')).toEqual({ period: 'week', start: '2024-03-04', end: '2024-03-10' });
+    expect(getReviewRange('week', '2024-01-02')).toEqual({ period: 'week', start: '2024-01-01', end: '2024-01-07' });
+  });
+
+  it('covers whole calendar months', () => {
+    expect(getReviewRange('month', '2024-02-15')).toEqual({ period: 'month', start: '2024-02-01', end: '2024-02-29' });
+    expect(getReviewRange('month', '2023-12-31')).toEqual({ period: 'month', start: '2023-12-01', end: '2023-12-31' });
+  });
+});
+
+describe('shiftReviewRange', () => {
+  it('steps by whole periods across year boundaries', () => {
+    expect(shiftReviewRange(getReviewRange('week', '2024-01-03'), -1).start).toBe('2023-12-25');
+    expect(shiftReviewRange(getReviewRange('month', '2024-01-31'), 1)).toEqual({ period: 'month', start: '2024-02-01', end: '2024-02-29' });
+    expect(reviewId(shiftReviewRange(getReviewRange('month', '2024-01-15'), -1))).toBe('month-2023-12-01');
+  });
+});
+
+describe('getRecurringWords', () => {
+  it('counts words once per entry and keeps those in at least two', () => {
+    expect(getRecurringWords(['Work work WORK', 'Missed the train to work', 'Missed lunch', 'Rain'])).toEqual([
+      { word: 'missed', count: 2 },
+      { word: 'work', count: 2 },
+    ]);
+  });
+
+  it('sorts by count, then alphabetically, up to the limit', () => {
+    const words = getRecurringWords(['dog cat bird', 'dog cat bird', 'dog'], 2);
+    expect(words).toEqual([{ word: 'dog', count: 3 }, { word: 'bird', count: 2 }]);
+  });
+});
+
+describe('buildReviewDigest', () => {
+  const range = getReviewRange('week', '2024-03-10');
+  const entries = [
+    entry('mon-1', '2024-03-04', { setback: 'Missed the train', protective_step: 'Leave earlier', gratitude: 'Coffee' }),
+    entry('mon-2', '2024-03-04', { prompt_id: 'seed-2', setback: 'Missed a call', gratitude: 'Coffee with a friend' }),
+    entry('wed', '2024-03-06', { prompt_id: 'seed-3', setback: 'Rain', protective_step: ' ' }),
+  ];
+
+  const digest = buildReviewDigest({
+    range,
+    today: '2024-03-07',
+    firstDay: '2024-01-01',
+    entries,
+    entryDays: ['2024-03-02', '2024-03-03', ...entries.map(e => e.dateLocal)],
+    coveredDays: ['2024-03-05'],
+    prompts: [prompt('seed-1', 'work'), prompt('seed-2', 'relationships'), prompt('seed-3', 'work')],
+    actionItems: [
+      action('mon-1', 'done', '2024-03-06'),
+      action('mon-2', 'planned'),
+      action('wed', 'dropped'),
+      action('older', 'done', '2024-03-01'),
+    ],
+  });
+
+  it('counts days only up to today', () => {
+    expect(digest.daysWritten).toBe(2);
+    expect(digest.possibleDays).toBe(4);
+    expect(digest.entryCount).toBe(3);
+  });
+
+  it('starts counting days from the first day of use', () => {
+    const firstWeek = buildReviewDigest({
+      range,
+      today: '2024-03-20',
+      firstDay: '2024-03-08',
+      entries: [],
+      entryDays: [],
+      coveredDays: [],
+      prompts: [],
+      actionItems: [],
+    });
+    expect(firstWeek.possibleDays).toBe(3);
+  });
+
+  it('groups prompts and categories', () => {
+    expect(digest.promptsCovered).toBe(3);
+    expect(digest.categories).toEqual([{ category: 'work', count: 2 }, { category: 'relationships', count: 1 }]);
+  });
+
+  it('finds recurring words and written steps', () => {
+    expect(digest.setbackWords).toEqual([{ word: 'missed', count: 2 }]);
+    expect(digest.gratitudeWords).toEqual([{ word: 'coffee', count: 2 }]);
+    expect(digest.stepsWritten).toBe(1);
+  });
+
+  it('counts actions completed in the period and still open from it', () => {
+    expect(digest.actionsCompleted).toBe(1);
+    expect(digest.actionsOpen).toBe(1);
+  });
+
+  it('compares the streak before and after the period, bridging frozen days', () => {
+    expect(digest.streakBefore).toBe(2);
+    expect(digest.streakAfter).toBe(4);
+  });
+});
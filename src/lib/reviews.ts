@@ -0,0 +1,129 @@
+import type { ActionItem, Entry, Prompt, PromptCategory } from './database';
+import { addDays, computeStreaks, toDateLocal } from './streaks';
+import { addMonths, getWeekdayIndex } from './calendar';
+import { tokenize } from './search';
+import { isOpenAction } from './actions';
+
+export type ReviewPeriod = 'week' | 'month';
+
+export interface ReviewRange {
+  period: ReviewPeriod;
+  start: string; // YYYY-MM-DD
+  end: string; // YYYY-MM-DD, inclusive
+}
+
+export interface WordCount {
+  word: string;
+  count: number; // entries the word appears in
+}
+
+export interface ReviewDigest {
+  daysWritten: number;
+  possibleDays: number; // days of the period so far, from the first day of use
+  entryCount: number;
+  promptsCovered: number;
+  categories: { category: PromptCategory; count: number }[];
+  setbackWords: WordCount[];
+  gratitudeWords: WordCount[];
+  stepsWritten: number; // entries with a protective step
+  actionsCompleted: number; // action items marked done during the period
+  actionsOpen: number; // action items still open that came from the period's entries
+  streakBefore: number;
+  streakAfter: number;
+}
+
+// A word has to come up in this many entries to count as recurring
+const MIN_RECURRING_COUNT = 2;
+const MAX_RECURRING_WORDS = 8;
+
+export const reviewId = (range: ReviewRange) => `${range.period}-${range.start}`;
+
+// The week (Monday to Sunday) or calendar month that contains `dateLocal`
+export function getReviewRange(period: ReviewPeriod, dateLocal: string): ReviewRange {
+  if (period === 'week') {
+    const start = addDays(dateLocal, -getWeekdayIndex(dateLocal));
+    return { period, start, end: addDays(start, 6) };
+  }
+
+  const start = dateLocal.slice(0, 8) + '01';
+  return { period, start, end: addDays(addMonths(start, 1), -1) };
+}
+
+export function shiftReviewRange(range: ReviewRange, steps: number): ReviewRange {
+  const anchor = range.period === 'week' ? addDays(range.start, steps * 7) : addMonths(range.start, steps);
+  return getReviewRange(range.period, anchor);
+}
+
+export function formatReviewRange(range: ReviewRange): string {
+  const start = new Date(range.start + 'T00:00:00');
+  if (range.period === 'month') {
+    return start.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+  }
+  const end = new Date(range.end + 'T00:00:00');
+  return `${start.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} – ${end.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+}
+
+// Words that come up in more than one entry, most frequent first
+export function getRecurringWords(texts: string[], limit: number = MAX_RECURRING_WORDS): WordCount[] {
+  const counts = new Map<string, number>();
+  for (const text of texts) {
+    new Set(tokenize(text)).forEach(word => counts.set(word, (counts.get(word) || 0) + 1));
+  }
+
+  return Array.from(counts.entries())
+    .filter(([, count]) => count >= MIN_RECURRING_COUNT)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([word, count]) => ({ word, count }));
+}
+
+// Everything in the digest is derived from local data: `entries` are the
+// period's decrypted entries, `entryDays` every live entry's day (for streaks).
+export function buildReviewDigest({ range, today, firstDay, entries, entryDays, coveredDays, prompts, actionItems }: {
+  range: ReviewRange;
+  today: string;
+  firstDay: string; // first day the journal was used
+  entries: Entry[];
+  entryDays: string[];
+  coveredDays: string[];
+  prompts: Prompt[];
+  actionItems: ActionItem[];
+}): ReviewDigest {
+  const from = range.start > firstDay ? range.start : firstDay;
+  const to = range.end < today ? range.end : today;
+  let possibleDays = 0;
+  for (let day = from; day <= to; day = addDays(day, 1)) possibleDays++;
+
+  const promptIds = Array.from(new Set(entries.map(e => e.prompt_id)));
+  const categoryCounts = new Map<PromptCategory, number>();
+  for (const entry of entries) {
+    const category = prompts.find(p => p.id === entry.prompt_id)?.category;
+    if (category) categoryCounts.set(category, (categoryCounts.get(category) || 0) + 1);
+  }
+
+  const entryIds = new Set(entries.map(e => e.id));
+  const completedInRange = (item: ActionItem) => {
+    if (item.status !== 'done' || !item.completed_at) return false;
+    const completedOn = toDateLocal(new Date(item.completed_at));
+    return completedOn >= range.start && completedOn <= range.end;
+  };
+
+  const days = entryDays.map(dateLocal => ({ dateLocal }));
+
+  return {
+    daysWritten: new Set(entries.map(e => e.dateLocal)).size,
+    possibleDays,
+    entryCount: entries.length,
+    promptsCovered: promptIds.length,
+    categories: Array.from(categoryCounts.entries())
+      .map(([category, count]) => ({ category, count }))
+      .sort((a, b) => b.count - a.count),
+    setbackWords: getRecurringWords(entries.map(e => e.setback)),
+    gratitudeWords: getRecurringWords(entries.map(e => e.gratitude)),
+    stepsWritten: entries.filter(e => e.protective_step.trim()).length,
+    actionsCompleted: actionItems.filter(completedInRange).length,
+    actionsOpen: actionItems.filter(item => entryIds.has(item.entry_id) && isOpenAction(item)).length,
+    streakBefore: computeStreaks(days, addDays(range.start, -1), coveredDays).current_streak,
+    streakAfter: computeStreaks(days, to, coveredDays).current_streak,
+  };
+}
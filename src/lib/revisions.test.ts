@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_REVISION_RETENTION, diffWords, getRevisionRetention, hasTextChanged, type DiffSegment } from './revisions';
+import type { Settings } from './database';
+
+// Each side of a diff is the text of its own segments plus the unchanged ones
+const side = (segments: DiffSegment[], type: 'added' | 'removed') =>
+  segments.filter(s => s.type === 'same' || s.type === type).map(s => s.text).join('');
+
+describe('diffWords', () => {
+  it('returns one unchanged segment for identical text', () => {
+    expect(diffWords('Lost my job', 'Lost my job')).toEqual([{ text: 'Lost my job', type: 'same' }]);
+  });
+
+  it('returns nothing for two empty strings', () => {
+    expect(diffWords('', '')).toEqual([]);
+  });
+
+  it('marks everything added or removed against an empty side', () => {
+    expect(diffWords('', 'Called a friend')).toEqual([{ text: 'Called a friend', type: 'added' }]);
+    expect(diffWords('Called a friend', '')).toEqual([{ text: 'Called a friend', type: 'removed' }]);
+  });
+
+  it('shows a replaced word as removed then added', () => {
+    expect(diffWords('I lost my job today', 'I lost my car today')).toEqual([
+      { text: 'I lost my ', type: 'same' },
+      { text: 'job', type: 'removed' },
+      { text: 'car', type: 'added' },
+      { text: ' today', type: 'same' },
+    ]);
+  });
+
+  it('merges neighbouring words of the same kind', () => {
+    expect(diffWords('Walk', 'Walk the dog twice')).toEqual([
+      { text: 'Walk', type: 'same' },
+      { text: ' the dog twice', type: 'added' },
+    ]);
+  });
+
+  it('keeps whitespace and line breaks so both sides can be rebuilt', () => {
+    const before = 'Rain all week.\n\nStayed  inside';
+    const after = 'Rain all week.\nWent out anyway';
+    const segments = diffWords(before, after);
+
+    expect(side(segments, 'removed')).toBe(before);
+    expect(side(segments, 'added')).toBe(after);
+  });
+
+  it('compares words exactly, including case and punctuation', () => {
+    expect(diffWords('job.', 'Job.')).toEqual([
+      { text: 'job.', type: 'removed' },
+      { text: 'Job.', type: 'added' },
+    ]);
+  });
+});
+
+describe('hasTextChanged', () => {
+  const text = { setback: 'a', protective_step: 'b', gratitude: 'c' };
+
+  it('compares the revisioned fields', () => {
+    expect(hasTextChanged(text, { ...text })).toBe(false);
+    expect(hasTextChanged(text, { ...text, gratitude: 'd' })).toBe(true);
+  });
+});
+
+describe('getRevisionRetention', () => {
+  const settings: Settings = {
+    id: 'main',
+    lockTimeoutMinutes: 5,
+    dailyCueEnabled: false,
+    notificationsEnabled: false,
+    telemetryOptIn: false,
+    installAt: '2024-01-01T00:00:00.000Z',
+    currentTheme: 'system',
+  };
+
+  it('defaults when unset', () => {
+    expect(getRevisionRetention(null)).toBe(DEFAULT_REVISION_RETENTION);
+    expect(getRevisionRetention(settings)).toBe(DEFAULT_REVISION_RETENTION);
+  });
+
+  it('keeps unlimited and off as chosen', () => {
+    expect(getRevisionRetention({ ...settings, revisionRetention: null })).toBeNull();
+    expect(getRevisionRetention({ ...settings, revisionRetention: 0 })).toBe(0);
+  });
+});
@@ -0,0 +1,65 @@
+import type { EntryRevision, Settings } from './database';
+
+// Revisions kept per entry. null keeps every revision and 0 turns history off.
+export const REVISION_RETENTION_OPTIONS: (number | null)[] = [0, 5, 20, null];
+export const DEFAULT_REVISION_RETENTION = 20;
+
+export const REVISION_FIELDS = [
+  { key: 'setback', label: 'Setback Visualization' },
+  { key: 'protective_step', label: 'Protective Step' },
+  { key: 'gratitude', label: 'Gratitude' },
+] as const;
+
+export type RevisionText = Pick<EntryRevision, typeof REVISION_FIELDS[number]['key']>;
+
+export interface DiffSegment {
+  text: string;
+  type: 'same' | 'added' | 'removed';
+}
+
+export function getRevisionRetention(settings: Settings | null | undefined): number | null {
+  return settings?.revisionRetention === undefined ? DEFAULT_REVISION_RETENTION : settings.revisionRetention;
+}
+
+export function hasTextChanged(before: RevisionText, after: RevisionText): boolean {
+  return REVISION_FIELDS.some(({ key }) => before[key] !== after[key]);
+}
+
+// Word-level diff from `before` to `after`, keeping the whitespace between
+// words. Entry fields are capped at 280 characters, so a plain LCS table is
+// small enough.
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (text: string, type: DiffSegment['type']) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) last.text += text;
+    else segments.push({ text, type });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(a[i], 'same');
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push(a[i++], 'removed');
+    } else {
+      push(b[j++], 'added');
+    }
+  }
+  while (i < a.length) push(a[i++], 'removed');
+  while (j < b.length) push(b[j++], 'added');
+  return segments;
+}
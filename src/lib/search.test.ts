@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { buildTermScores, highlight, matchesAllWords, MAX_PREFIX_LENGTH, queryKeys, tokenize } from './search';
+
+describe('tokenize', () => {
+  it('lowercases words and strips accents', () => {
+    expect(tokenize('Café NAÏVE Résumé')).toEqual(['cafe', 'naive', 'resume']);
+  });
+
+  it('splits on punctuation and dashes', () => {
+    expect(tokenize('rain, wind—and "cold"; (again)')).toEqual(['rain', 'wind', 'cold', 'again']);
+  });
+
+  it('drops stop words and single characters', () => {
+    expect(tokenize('I lost my job and the car is gone')).toEqual(['lost', 'job', 'car', 'gone']);
+  });
+
+  it('keeps apostrophes as word breaks', () => {
+    expect(tokenize("Mom's house")).toEqual(['mom', 'house']);
+  });
+
+  it('returns nothing for empty or punctuation-only text', () => {
+    expect(tokenize('')).toEqual([]);
+    expect(tokenize('... !? --')).toEqual([]);
+  });
+});
+
+describe('queryKeys', () => {
+  it('looks up short words as whole words only', () => {
+    expect(queryKeys('ok')).toEqual(['t:ok']);
+  });
+
+  it('adds a prefix key for longer words', () => {
+    expect(queryKeys('job')).toEqual(['t:job', 'p:job']);
+    expect(queryKeys('health')).toEqual(['t:health', `p:${'health'.slice(0, MAX_PREFIX_LENGTH)}`]);
+  });
+
+  it('finds indexed words by any prefix of three letters or more', () => {
+    const keys = buildTermScores([{ text: 'Gratitude for my neighbours', weight: 1 }]);
+
+    for (const query of ['gra', 'grat', 'gratitude', 'neighbour', 'neighbours']) {
+      expect(queryKeys(query).some(key => keys.has(key))).toBe(true);
+    }
+    expect(queryKeys('grit').some(key => keys.has(key))).toBe(false);
+  });
+});
+
+describe('buildTermScores', () => {
+  it('weights whole words above prefixes and sums across fields', () => {
+    const scores = buildTermScores([
+      { text: 'storm', weight: 1 },
+      { text: 'storm warning', weight: 0.5 },
+    ]);
+
+    expect(scores.get('t:storm')).toBe(1.5);
+    expect(scores.get('p:stor')).toBe(0.75);
+    expect(scores.get('p:warn')).toBe(0.25);
+  });
+
+  it('does not index a word as a prefix of itself', () => {
+    const scores = buildTermScores([{ text: 'job', weight: 1 }]);
+
+    expect(scores.has('t:job')).toBe(true);
+    expect(scores.has('p:job')).toBe(false);
+  });
+});
+
+describe('matchesAllWords', () => {
+  it('needs every query word to start some word in the texts', () => {
+    expect(matchesAllWords(['Lost my job', 'Called a friend'], ['job', 'frie'])).toBe(true);
+    expect(matchesAllWords(['Lost my job'], ['job', 'frie'])).toBe(false);
+  });
+});
+
+describe('highlight', () => {
+  it('marks words starting with a query word and keeps the text intact', () => {
+    const segments = highlight('The Café was closed', ['cafe']);
+
+    expect(segments).toEqual([
+      { text: 'The ', match: false },
+      { text: 'Café', match: true },
+      { text: ' was closed', match: false },
+    ]);
+  });
+});
@@ -0,0 +1,131 @@
+// Text processing for the local full-text search index. Storage lives in
+// dbUtils; everything here is pure so it works the same on plaintext and on
+// entries decrypted for the current session.
+
+// Bump to force every device to rebuild its index on the next search
+export const SEARCH_INDEX_VERSION = 1;
+
+// Relative weight of each indexed field
+export const SEARCH_FIELD_WEIGHTS = {
+  setback: 1,
+  protective_step: 1,
+  gratitude: 1,
+  addendum: 1,
+  prompt: 0.5,
+} as const;
+
+// Prefixes of this many characters are indexed for every longer word. Query
+// words longer than MAX_PREFIX_LENGTH are looked up by their first
+// MAX_PREFIX_LENGTH characters and then checked against the decrypted text.
+export const MIN_PREFIX_LENGTH = 3;
+export const MAX_PREFIX_LENGTH = 4;
+
+// Prefix matches count for less than whole-word matches
+const PREFIX_WEIGHT = 0.5;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'if', 'in', 'into', 'is', 'it',
+  'its', 'me', 'my', 'no', 'not', 'of', 'on', 'or', 'so', 'that', 'the', 'their', 'then', 'there',
+  'these', 'they', 'this', 'to', 'was', 'we', 'were', 'will', 'with', 'you', 'your',
+]);
+
+// Runs of characters that aren't whitespace or punctuation
+const WORD_PATTERN = /[^\s.,;:!?"'\u2018\u2019\u201c\u201d()[\]{}<>/\\|@#$%^&*+=~`_\u2013\u2014-]+/g;
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+// Lowercase and strip accents so "Café" matches "cafe"
+export function normalizeWord(word: string): string {
+  return word.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+// Split text into normalized, indexable words
+export function tokenize(text: string): string[] {
+  return (text.match(WORD_PATTERN) || [])
+    .map(normalizeWord)
+    .filter(word => word.length >= 2 && !STOP_WORDS.has(word));
+}
+
+// Index keys are "t:<word>" for whole words and "p:<prefix>" for prefixes, so a
+// query word can match both exactly and as the start of a longer word
+export function wholeWordKey(word: string): string {
+  return `t:${word}`;
+}
+
+export function prefixKey(prefix: string): string {
+  return `p:${prefix}`;
+}
+
+// Score every index key for one entry from its weighted fields
+export function buildTermScores(fields: { text: string; weight: number }[]): Map<string, number> {
+  const scores = new Map<string, number>();
+  const add = (key: string, value: number) => scores.set(key, (scores.get(key) || 0) + value);
+
+  for (const field of fields) {
+    for (const word of tokenize(field.text)) {
+      add(wholeWordKey(word), field.weight);
+      for (let length = MIN_PREFIX_LENGTH; length <= Math.min(MAX_PREFIX_LENGTH, word.length - 1); length++) {
+        add(prefixKey(word.slice(0, length)), field.weight * PREFIX_WEIGHT);
+      }
+    }
+  }
+
+  return scores;
+}
+
+// Index keys to look up for one query word
+export function queryKeys(word: string): string[] {
+  if (word.length < MIN_PREFIX_LENGTH) return [wholeWordKey(word)];
+  return [wholeWordKey(word), prefixKey(word.slice(0, MAX_PREFIX_LENGTH))];
+}
+
+// Whether every query word starts some word in the given texts
+export function matchesAllWords(texts: string[], queryWords: string[]): boolean {
+  const words = texts.reduce<string[]>((all, text) => all.concat(tokenize(text)), []);
+  return queryWords.every(q => words.some(word => word.startsWith(q)));
+}
+
+// Split text into highlighted and plain segments. A word is highlighted when
+// it starts with any of the query words.
+export function highlight(text: string, queryWords: string[]): HighlightSegment[] {
+  if (queryWords.length === 0) return [{ text, match: false }];
+
+  const segments: HighlightSegment[] = [];
+  let cursor = 0;
+
+  const pattern = new RegExp(WORD_PATTERN.source, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const word = normalizeWord(match[0]);
+    if (!queryWords.some(q => word.startsWith(q))) continue;
+
+    const start = match.index;
+    if (start > cursor) segments.push({ text: text.slice(cursor, start), match: false });
+    segments.push({ text: match[0], match: true });
+    cursor = start + match[0].length;
+  }
+
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), match: false });
+  return segments;
+}
+
+// Highlighted excerpt centred on the first match
+export function snippet(text: string, queryWords: string[], radius: number = 80): HighlightSegment[] {
+  const segments = highlight(text, queryWords);
+  const firstMatch = segments.findIndex(s => s.match);
+  if (firstMatch === -1) {
+    return [{ text: text.length > radius * 2 ? text.slice(0, radius * 2).trim() + '...' : text, match: false }];
+  }
+
+  const offset = segments.slice(0, firstMatch).reduce((sum, s) => sum + s.text.length, 0);
+  const start = Math.max(0, offset - radius);
+  const end = Math.min(text.length, offset + radius * 2);
+  const excerpt = highlight(text.slice(start, end), queryWords);
+
+  if (start > 0) excerpt.unshift({ text: '...', match: false });
+  if (end < text.length) excerpt.push({ text: '...', match: false });
+  return excerpt;
+}
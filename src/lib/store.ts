@@ -1,6 +1,7 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
 import { Settings, Entry, StreakSummary } from './database'
+import { EntryFilters, DEFAULT_ENTRY_FILTERS } from './entry-filters'
 
 interface AppState {
   // Settings
@@ -19,13 +20,32 @@ interface AppState {
   todayEntry: Entry | null
   setTodayEntry: (entry: Entry | null) => void
 
+  // Entry open in the journal view; null writes a new entry
+  activeEntryId: string | null
+  openJournal: (entryId?: string | null) => void
+
+  // Prompt whose past answers are shown in the prompt history view
+  activePromptId: string | null
+  openPromptHistory: (promptId: string) => void
+
   // Streak data
   streak: StreakSummary | null
   setStreak: (streak: StreakSummary) => void
 
   // UI state
-  currentView: 'onboarding' | 'today' | 'journal' | 'last7days' | 'all' | 'settings'
+  currentView: 'onboarding' | 'today' | 'journal' | 'last7days' | 'all' | 'calendar' | 'trash' | 'outcomes' | 'actions' | 'review' | 'insights' | 'promptHistory' | 'settings'
   setCurrentView: (view: AppState['currentView']) => void
+
+  // All Entries filters
+  entryFilters: EntryFilters
+  setEntryFilters: (filters: EntryFilters) => void
+
+  // One-off All Entries filters opened from another screen (On This Day). They
+  // replace the saved filters until cleared or All Entries is left, and are
+  // never persisted.
+  linkedEntryFilters: EntryFilters | null
+  openEntries: (filters: EntryFilters) => void
+  setLinkedEntryFilters: (filters: EntryFilters | null) => void
 }
 
 export const useAppStore = create<AppState>()(
@@ -47,19 +67,36 @@ export const useAppStore = create<AppState>()(
       todayEntry: null,
       setTodayEntry: (entry) => set({ todayEntry: entry }),
 
+      activeEntryId: null,
+      openJournal: (entryId = null) => set({ activeEntryId: entryId, currentView: 'journal' }),
+
+      activePromptId: null,
+      openPromptHistory: (promptId) => set({ activePromptId: promptId, currentView: 'promptHistory' }),
+
       // Streak data
       streak: null,
       setStreak: (streak) => set({ streak }),
 
       // UI state
       currentView: 'onboarding',
-      setCurrentView: (view) => set({ currentView: view }),
+      setCurrentView: (view) => set(view === 'all' ? { currentView: view } : { currentView: view, linkedEntryFilters: null }),
+
+      // All Entries filters
+      entryFilters: DEFAULT_ENTRY_FILTERS,
+      setEntryFilters: (filters) => set({ entryFilters: filters }),
+
+      linkedEntryFilters: null,
+      openEntries: (filters) => set({ linkedEntryFilters: filters, currentView: 'all' }),
+      setLinkedEntryFilters: (filters) => set({ linkedEntryFilters: filters }),
     }),
     {
       name: 'negviz-app-store',
       partialize: (state) => ({
         isFirstLaunch: state.isFirstLaunch,
         currentView: state.currentView,
+        activeEntryId: state.activeEntryId,
+        activePromptId: state.activePromptId,
+        entryFilters: state.entryFilters,
       }),
     }
   )
@@ -0,0 +1,206 @@
+import { describe, expect, it } from 'vitest';
+import { addDays, computeStreaks, settleFreezes, toDateLocal } from './streaks';
+import type { StreakFreeze } from './database';
+
+// US and EU clocks change on these dates, so in those zones the days around
+// them are 23 or 25 hours long
+const DST_DAYS = ['2024-03-10', '2024-03-31', '2024-10-27', '2024-11-03'];
+
+const days = (...dates: string[]) => dates.map(dateLocal => ({ dateLocal }));
+
+const run = (start: string, length: number) => Array.from({ length }, (_, i) => addDays(start, i));
+
+const NOW = '2024-03-20T12:00:00.000Z';
+
+const earned = (dateLocal: string): StreakFreeze => ({
+  id: `freeze-earned-${dateLocal}`, type: 'earned', dateLocal, created_at: NOW,
+});
+
+const used = (dateLocal: string, reason: 'auto' | 'scheduled'): StreakFreeze => ({
+  id: `freeze-used-${dateLocal}`, type: 'used', dateLocal, reason, created_at: NOW,
+});
+
+describe('addDays', () => {
+  it('crosses month, year and leap-day boundaries', () => {
+    expect(addDays('2024-01-31', 1)).toBe('2024-02-01');
+    expect(addDays('2024-02-28', 1)).toBe('2024-02-29');
+    expect(addDays('2023-12-31', 1)).toBe('2024-01-01');
+    expect(addDays('2024-03-01', -1)).toBe('2024-02-29');
+  });
+
+  it('moves one calendar day across daylight saving changes', () => {
+    for (const day of DST_DAYS) {
+      expect(addDays(addDays(day, -1), 1)).toBe(day);
+      expect(addDays(addDays(day, 1), -1)).toBe(day);
+      expect(addDays(day, 7)).toBe(addDays(addDays(day, 3), 4));
+    }
+  });
+});
+
+describe('toDateLocal', () => {
+  it('uses the local date at either end of the day', () => {
+    expect(toDateLocal(new Date(2024, 2, 9, 23, 59))).toBe('2024-03-09');
+    expect(toDateLocal(new Date(2024, 2, 10, 0, 1))).toBe('2024-03-10');
+  });
+});
+
+describe('computeStreaks', () => {
+  it('returns zeros without entries', () => {
+    expect(computeStreaks([], '2024-03-10')).toEqual({ current_streak: 0, longest_streak: 0 });
+  });
+
+  it('counts consecutive days up to today', () => {
+    const stats = computeStreaks(days('2024-03-08', '2024-03-09', '2024-03-10'), '2024-03-10');
+
+    expect(stats.current_streak).toBe(3);
+    expect(stats.current_start).toBe('2024-03-08');
+    expect(stats.last_entry_date).toBe('2024-03-10');
+  });
+
+  it('keeps the current streak while today is still pending', () => {
+    expect(computeStreaks(days('2024-03-08', '2024-03-09'), '2024-03-10').current_streak).toBe(2);
+    expect(computeStreaks(days('2024-03-07', '2024-03-08'), '2024-03-10').current_streak).toBe(0);
+  });
+
+  it('breaks runs at gaps and keeps the longest one', () => {
+    const stats = computeStreaks(
+      days('2024-02-01', '2024-02-02', '2024-02-03', '2024-02-04', '2024-02-06', '2024-02-07'),
+      '2024-02-07'
+    );
+
+    expect(stats.current_streak).toBe(2);
+    expect(stats.current_start).toBe('2024-02-06');
+    expect(stats.longest_streak).toBe(4);
+    expect(stats.longest_start).toBe('2024-02-01');
+    expect(stats.longest_end).toBe('2024-02-04');
+  });
+
+  it('counts several entries on one day once', () => {
+    const stats = computeStreaks(days('2024-03-09', '2024-03-09', '2024-03-10', '2024-03-10'), '2024-03-10');
+
+    expect(stats.current_streak).toBe(2);
+    expect(stats.longest_streak).toBe(2);
+  });
+
+  it('runs across daylight saving changes', () => {
+    for (const day of DST_DAYS) {
+      const run = days(addDays(day, -1), day, addDays(day, 1));
+      expect(computeStreaks(run, addDays(day, 1)).current_streak).toBe(3);
+    }
+  });
+
+  it('runs across month and year ends', () => {
+    expect(computeStreaks(days('2023-12-30', '2023-12-31', '2024-01-01'), '2024-01-01').current_streak).toBe(3);
+    expect(computeStreaks(days('2024-02-28', '2024-02-29', '2024-03-01'), '2024-03-01').current_streak).toBe(3);
+  });
+
+  it('ignores entries dated after today', () => {
+    const stats = computeStreaks(days('2024-03-09', '2024-03-10', '2024-03-11'), '2024-03-10');
+
+    expect(stats.current_streak).toBe(2);
+    expect(stats.last_entry_date).toBe('2024-03-10');
+  });
+
+  it('bridges covered days without counting them', () => {
+    const stats = computeStreaks(days('2024-03-07', '2024-03-08', '2024-03-10'), '2024-03-10', ['2024-03-09']);
+
+    expect(stats.current_streak).toBe(3);
+    expect(stats.current_start).toBe('2024-03-07');
+    expect(stats.longest_streak).toBe(3);
+  });
+
+  it('keeps the streak alive through a covered yesterday', () => {
+    expect(computeStreaks(days('2024-03-07', '2024-03-08'), '2024-03-10', ['2024-03-09']).current_streak).toBe(2);
+  });
+
+  it('does not start a streak from covered days alone', () => {
+    const stats = computeStreaks(days('2024-03-01'), '2024-03-10', ['2024-03-08', '2024-03-09']);
+
+    expect(stats.current_streak).toBe(0);
+    expect(stats.longest_streak).toBe(1);
+  });
+});
+
+describe('settleFreezes', () => {
+  // A week of entries from March 1st earns a token on the 7th
+  const week = run('2024-03-01', 7);
+
+  it('earns a token every seven days in a row', () => {
+    const result = settleFreezes(week, [], '2024-03-07', NOW);
+
+    expect(result.add).toEqual([earned('2024-03-07')]);
+    expect(result.available).toBe(1);
+  });
+
+  it('stops earning at the token cap', () => {
+    const result = settleFreezes(run('2024-03-01', 21), [], '2024-03-21', NOW);
+
+    expect(result.add.map(f => f.dateLocal)).toEqual(['2024-03-07', '2024-03-14']);
+    expect(result.available).toBe(2);
+  });
+
+  it('spends tokens on a gap they fully cover', () => {
+    const result = settleFreezes([...week, '2024-03-09'], [earned('2024-03-07')], '2024-03-09', NOW);
+
+    expect(result.add).toEqual([used('2024-03-08', 'auto')]);
+    expect(result.covered).toEqual(['2024-03-08']);
+    expect(result.available).toBe(0);
+  });
+
+  it('keeps tokens when the gap is longer than the balance', () => {
+    const result = settleFreezes([...week, '2024-03-10'], [earned('2024-03-07')], '2024-03-10', NOW);
+
+    expect(result.add).toEqual([]);
+    expect(result.covered).toEqual([]);
+    expect(result.available).toBe(1);
+  });
+
+  it('does not spend a token on today before it is over', () => {
+    const result = settleFreezes(week, [earned('2024-03-07')], '2024-03-08', NOW);
+
+    expect(result.add).toEqual([]);
+    expect(result.available).toBe(1);
+  });
+
+  it('gives back an automatic freeze once its gap outgrows the balance', () => {
+    const ledger = [earned('2024-03-07'), used('2024-03-08', 'auto')];
+    const result = settleFreezes(week, ledger, '2024-03-10', NOW);
+
+    expect(result.remove).toEqual(['freeze-used-2024-03-08']);
+    expect(result.covered).toEqual([]);
+    expect(result.available).toBe(1);
+  });
+
+  it('honours a booked rest day', () => {
+    const ledger = [earned('2024-03-07'), used('2024-03-08', 'scheduled')];
+    const result = settleFreezes([...week, '2024-03-09'], ledger, '2024-03-09', NOW);
+
+    expect(result.add).toEqual([]);
+    expect(result.covered).toEqual(['2024-03-08']);
+    expect(result.available).toBe(0);
+  });
+
+  it('keeps a booked rest day spent when the streak breaks anyway', () => {
+    const ledger = [earned('2024-03-07'), used('2024-03-08', 'scheduled')];
+    const result = settleFreezes([...week, '2024-03-10'], ledger, '2024-03-10', NOW);
+
+    expect(result.remove).toEqual([]);
+    expect(result.available).toBe(0);
+  });
+
+  it('refunds a freeze on a day that now has an entry', () => {
+    const ledger = [earned('2024-03-07'), used('2024-03-08', 'scheduled')];
+    const result = settleFreezes([...week, '2024-03-08'], ledger, '2024-03-08', NOW);
+
+    expect(result.remove).toEqual(['freeze-used-2024-03-08']);
+    expect(result.covered).toEqual([]);
+    expect(result.available).toBe(1);
+  });
+
+  it('holds a token for a rest day booked after today', () => {
+    const ledger = [earned('2024-03-07'), used('2024-03-12', 'scheduled')];
+    const result = settleFreezes(week, ledger, '2024-03-07', NOW);
+
+    expect(result.available).toBe(0);
+  });
+});
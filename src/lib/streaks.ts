@@ -0,0 +1,171 @@
+import type { Entry, StreakFreeze } from './database';
+
+export interface StreakStats {
+  current_streak: number;
+  longest_streak: number;
+  current_start?: string; // YYYY-MM-DD
+  longest_start?: string; // YYYY-MM-DD
+  longest_end?: string; // YYYY-MM-DD
+  last_entry_date?: string; // YYYY-MM-DD
+}
+
+// Format a Date as a local YYYY-MM-DD string
+export function toDateLocal(date: Date): string {
+  return date.getFullYear() + '-' +
+         String(date.getMonth() + 1).padStart(2, '0') + '-' +
+         String(date.getDate()).padStart(2, '0');
+}
+
+// Shift a YYYY-MM-DD string by a number of calendar days
+export function addDays(dateLocal: string, days: number): string {
+  const date = new Date(dateLocal + 'T00:00:00');
+  date.setDate(date.getDate() + days);
+  return toDateLocal(date);
+}
+
+// A freeze token is earned for every EARN_INTERVAL consecutive days written,
+// and at most MAX_FREEZE_TOKENS can be held at once
+export const FREEZE_EARN_INTERVAL = 7;
+export const MAX_FREEZE_TOKENS = 2;
+
+export interface FreezeSettlement {
+  add: StreakFreeze[];     // ledger rows to create
+  remove: string[];        // ledger row ids to refund
+  covered: string[];       // days covered by a freeze, YYYY-MM-DD
+  available: number;       // tokens left to spend
+}
+
+// Derive streaks from the distinct days that have at least one entry.
+// Multiple entries on one day count once. Covered (freeze) days keep a run
+// alive without adding to it. The current streak is the run that ends today,
+// or yesterday while today's entry is still pending.
+export function computeStreaks(
+  entries: Pick<Entry, 'dateLocal'>[],
+  today: string,
+  coveredDays: string[] = []
+): StreakStats {
+  const entryDays = new Set(entries.map(e => e.dateLocal).filter(day => day <= today));
+  if (entryDays.size === 0) {
+    return { current_streak: 0, longest_streak: 0 };
+  }
+
+  const days = Array.from(new Set([
+    ...Array.from(entryDays),
+    ...coveredDays.filter(day => day <= today),
+  ])).sort();
+
+  let longest = 0;
+  let longestStart: string | undefined;
+  let longestEnd: string | undefined;
+  let runStart: string | undefined;
+  let runLength = 0;
+
+  for (let i = 0; i < days.length; i++) {
+    if (i === 0 || addDays(days[i - 1], 1) !== days[i]) {
+      runStart = undefined;
+      runLength = 0;
+    }
+    if (!entryDays.has(days[i])) continue;
+
+    runStart ??= days[i];
+    runLength += 1;
+    if (runLength > longest) {
+      longest = runLength;
+      longestStart = runStart;
+      longestEnd = days[i];
+    }
+  }
+
+  const lastDay = days[days.length - 1];
+  const isCurrent = runLength > 0 && (lastDay === today || lastDay === addDays(today, -1));
+
+  return {
+    current_streak: isCurrent ? runLength : 0,
+    longest_streak: longest,
+    current_start: isCurrent ? runStart : undefined,
+    longest_start: longestStart,
+    longest_end: longestEnd,
+    last_entry_date: Array.from(entryDays).sort().pop(),
+  };
+}
+
+// Replay the entry days against the freeze ledger up to today: award tokens for
+// completed runs, cover missed days while a streak is alive, and refund freezes
+// on days that turned out to have an entry. Tokens are only spent when they
+// cover the whole gap before the next entry (or today); otherwise the streak
+// breaks, tokens spent on that gap are refunded and the balance is kept.
+// Rest days the user booked are always honoured.
+export function settleFreezes(
+  entryDays: string[],
+  ledger: StreakFreeze[],
+  today: string,
+  now: string
+): FreezeSettlement {
+  const days = new Set(entryDays);
+  const remove = ledger
+    .filter(f => f.type === 'used' && days.has(f.dateLocal))
+    .map(f => f.id);
+  const active = ledger.filter(f => !remove.includes(f.id));
+
+  const earnedOn = new Set(active.filter(f => f.type === 'earned').map(f => f.dateLocal));
+  const usedOn = new Map(active.filter(f => f.type === 'used').map(f => [f.dateLocal, f]));
+  const add: StreakFreeze[] = [];
+
+  const start = [...entryDays, ...active.map(f => f.dateLocal)]
+    .filter(day => day <= today)
+    .sort()[0];
+
+  let balance = 0;
+  let run = 0;
+  for (let day = start; day && day <= today; day = addDays(day, 1)) {
+    if (earnedOn.has(day)) balance += 1;
+
+    if (days.has(day)) {
+      run += 1;
+      if (run % FREEZE_EARN_INTERVAL === 0 && !earnedOn.has(day) && balance < MAX_FREEZE_TOKENS) {
+        add.push({ id: `freeze-earned-${day}`, type: 'earned', dateLocal: day, created_at: now });
+        earnedOn.add(day);
+        balance += 1;
+      }
+    } else if (day === today) {
+      if (usedOn.has(day)) balance -= 1;
+    } else {
+      // Missed days from here up to the next entry or today, booked rest days included
+      const gap = [day];
+      for (let next = addDays(day, 1); next < today && !days.has(next); next = addDays(next, 1)) gap.push(next);
+
+      if (run > 0 && balance >= gap.length) {
+        for (const missed of gap.filter(d => !usedOn.has(d))) {
+          const freeze: StreakFreeze = { id: `freeze-used-${missed}`, type: 'used', dateLocal: missed, reason: 'auto', created_at: now };
+          add.push(freeze);
+          usedOn.set(missed, freeze);
+        }
+        balance -= gap.length;
+      } else {
+        // The streak breaks here: rest days the user booked stay spent, and
+        // tokens spent automatically on this gap are given back
+        for (const missed of gap) {
+          const freeze = usedOn.get(missed);
+          if (freeze?.reason === 'scheduled') {
+            balance -= 1;
+          } else if (freeze) {
+            remove.push(freeze.id);
+            usedOn.delete(missed);
+          }
+        }
+        run = 0;
+      }
+      day = gap[gap.length - 1];
+    }
+  }
+
+  // Rest days booked after today already hold their token
+  balance -= active.filter(f => f.type === 'used' && f.dateLocal > today).length;
+
+  return {
+    add,
+    remove,
+    covered: Array.from(usedOn.keys()).sort(),
+    available: Math.max(0, balance),
+  };
+}
@@ -24,18 +24,6 @@ export interface TelemetrySettings {
   installDate: string // ISO string
 }
 
-// Extend the database schema for telemetry
-declare module './database' {
-  interface Settings {
-    telemetryOptIn: boolean
-    telemetryAnonId?: string
-    telemetryActivationSent?: boolean
-    telemetryConsecutiveDays?: number
-    telemetryLastCompletionDate?: string
-    telemetryD7EventSent?: boolean
-  }
-}
-
 class TelemetryService {
   private readonly TELEMETRY_ENDPOINT = 'https://api.negative-viz-journal.com/telemetry'
   private readonly MAX_RETRY_ATTEMPTS = 5
@@ -0,0 +1,134 @@
+import type { Entry, Settings } from './database';
+import { addDays } from './streaks';
+
+// Default length of a writing session, in seconds
+export const WRITING_TARGET_SECONDS = 300;
+
+export const TIMER_DURATION_OPTIONS = [180, 300, 600, 900, 1200];
+export const TIMER_MINIMUM_OPTIONS = [0, 60, 120, 180, 300];
+
+export interface TimerPreferences {
+  durationSeconds: number;
+  soundEnabled: boolean;
+  // Saving is allowed once the entry has this much writing time; 0 = no soft lock
+  minimumSeconds: number;
+}
+
+// Number of weeks shown in the writing time trend
+export const WRITING_TREND_WEEKS = 8;
+
+export interface WeeklyWritingTime {
+  weekStart: string; // Monday, YYYY-MM-DD
+  entryCount: number;
+  averageSeconds: number; // 0 when no timed entries that week
+}
+
+export interface WritingTimeStats {
+  timedEntries: number;
+  averageSeconds: number;
+  totalSeconds: number;
+  // Entries that reached the session length
+  metTargetCount: number;
+  weeks: WeeklyWritingTime[];
+  // Change in average seconds between the older and newer half of `weeks`,
+  // or null when either half has no timed entries
+  trendSeconds: number | null;
+}
+
+export function getTimerPreferences(settings: Settings | null | undefined): TimerPreferences {
+  const durationSeconds = settings?.timerDurationSeconds || WRITING_TARGET_SECONDS;
+  return {
+    durationSeconds,
+    soundEnabled: !!settings?.timerSoundEnabled,
+    minimumSeconds: Math.min(settings?.timerMinimumSeconds || 0, durationSeconds),
+  };
+}
+
+// Older Safari only has the prefixed constructor
+type AudioWindow = Window & { webkitAudioContext?: typeof AudioContext };
+
+// A soft three-note chime for the end of a session, synthesised with WebAudio
+// so no sound files ship with the app. Does nothing where audio isn't available.
+export function playSessionEndCue(): void {
+  try {
+    const AudioContextClass = window.AudioContext || (window as AudioWindow).webkitAudioContext;
+    if (!AudioContextClass) return;
+
+    const context = new AudioContextClass();
+    const now = context.currentTime;
+    [523.25, 659.25, 783.99].forEach((frequency, i) => {
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      const start = now + i * 0.18;
+
+      oscillator.type = 'sine';
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0, start);
+      gain.gain.linearRampToValueAtTime(0.12, start + 0.05);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + 1.2);
+
+      oscillator.connect(gain);
+      gain.connect(context.destination);
+      oscillator.start(start);
+      oscillator.stop(start + 1.2);
+    });
+    setTimeout(() => context.close(), 2000);
+  } catch (error) {
+    console.warn('Unable to play the session end cue:', error);
+  }
+}
+
+// "4m 05s", or "45s" under a minute
+export function formatDuration(seconds: number): string {
+  const rounded = Math.max(0, Math.round(seconds));
+  const minutes = Math.floor(rounded / 60);
+  const remainder = rounded % 60;
+  return minutes > 0 ? `${minutes}m ${String(remainder).padStart(2, '0')}s` : `${remainder}s`;
+}
+
+const getWeekStart = (dateLocal: string) =>
+  addDays(dateLocal, -((new Date(dateLocal + 'T00:00:00').getDay() + 6) % 7));
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+// Writing time stats from entry metadata. Entries saved before timing was
+// recorded have no duration and are left out.
+export function computeWritingTimeStats(
+  entries: Entry[],
+  today: string,
+  targetSeconds: number = WRITING_TARGET_SECONDS
+): WritingTimeStats {
+  const timed = entries.filter(e => typeof e.duration_seconds === 'number' && e.duration_seconds > 0);
+  const durations = timed.map(e => e.duration_seconds as number);
+
+  const currentWeek = getWeekStart(today);
+  const weeks: WeeklyWritingTime[] = [];
+  for (let i = WRITING_TREND_WEEKS - 1; i >= 0; i--) {
+    const weekStart = addDays(currentWeek, -7 * i);
+    const weekEnd = addDays(weekStart, 6);
+    const inWeek = timed.filter(e => e.dateLocal >= weekStart && e.dateLocal <= weekEnd);
+    weeks.push({
+      weekStart,
+      entryCount: inWeek.length,
+      averageSeconds: Math.round(average(inWeek.map(e => e.duration_seconds as number))),
+    });
+  }
+
+  const half = Math.floor(weeks.length / 2);
+  const weightedAverage = (slice: WeeklyWritingTime[]) => {
+    const count = slice.reduce((sum, week) => sum + week.entryCount, 0);
+    return count > 0 ? slice.reduce((sum, week) => sum + week.averageSeconds * week.entryCount, 0) / count : null;
+  };
+  const older = weightedAverage(weeks.slice(0, half));
+  const newer = weightedAverage(weeks.slice(half));
+
+  return {
+    timedEntries: timed.length,
+    averageSeconds: Math.round(average(durations)),
+    totalSeconds: durations.reduce((sum, value) => sum + value, 0),
+    metTargetCount: durations.filter(seconds => seconds >= targetSeconds).length,
+    weeks,
+    trendSeconds: older !== null && newer !== null ? Math.round(newer - older) : null,
+  };
+}